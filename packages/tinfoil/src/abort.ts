@@ -0,0 +1,31 @@
+import { toAbortError } from "./verifier.js";
+
+/**
+ * Settle like `promise`, or reject with an AbortError as soon as the signal
+ * aborts. The underlying operation is not cancelled.
+ */
+export function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(toAbortError(signal));
+    if (signal.aborted) {
+      onAbort();
+    } else {
+      signal.addEventListener('abort', onAbort, { once: true });
+    }
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Wait `ms` milliseconds, rejecting with an AbortError if the signal aborts first.
+ */
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const delay = new Promise<void>(resolve => {
+    timer = setTimeout(resolve, ms);
+  });
+  return raceAbort(delay, signal).finally(() => clearTimeout(timer));
+}
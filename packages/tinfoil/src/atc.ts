@@ -1,11 +1,13 @@
 import { TINFOIL_CONFIG } from "./config.js";
 import type { AttestationBundle } from "./verifier.js";
-import { FetchError } from "./verifier.js";
+import { ErrorCode, FetchError, toAbortError } from "./verifier.js";
 
 export interface FetchAttestationBundleOptions {
   atcBaseUrl?: string;
   enclaveURL?: string;
   configRepo?: string;
+  /** Cancels the request with an AbortError */
+  signal?: AbortSignal;
 }
 
 /**
@@ -14,6 +16,8 @@ export interface FetchAttestationBundleOptions {
  * When enclaveURL or configRepo are provided, issues a POST so ATC builds a
  * bundle for the specified enclave/repo. Otherwise issues a GET for the
  * default router behaviour.
+ *
+ * @throws AbortError if `options.signal` is aborted
  */
 export async function fetchAttestationBundle(options: FetchAttestationBundleOptions = {}): Promise<AttestationBundle> {
   const baseUrl = options.atcBaseUrl ?? TINFOIL_CONFIG.ATC_BASE_URL;
@@ -21,19 +25,29 @@ export async function fetchAttestationBundle(options: FetchAttestationBundleOpti
 
   const usePost = !!(options.enclaveURL || options.configRepo);
 
-  const response = usePost
-    ? await fetch(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          enclaveUrl: options.enclaveURL,
-          repo: options.configRepo,
-        }),
-      })
-    : await fetch(url);
+  const { signal } = options;
+  let response: Response;
+  try {
+    response = usePost
+      ? await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            enclaveUrl: options.enclaveURL,
+            repo: options.configRepo,
+          }),
+          signal,
+        })
+      : await fetch(url, { signal });
+  } catch (e) {
+    if (signal?.aborted) {
+      throw toAbortError(signal);
+    }
+    throw e;
+  }
 
   if (!response.ok) {
-    throw new FetchError(`Failed to fetch attestation bundle from ${baseUrl}: HTTP ${response.status} ${response.statusText}`);
+    throw new FetchError(`Failed to fetch attestation bundle from ${baseUrl}: HTTP ${response.status} ${response.statusText}`, { code: ErrorCode.HttpError });
   }
 
   const bundle = await response.json();
@@ -47,7 +61,15 @@ export async function fetchAttestationBundle(options: FetchAttestationBundleOpti
     digest: bundle.digest,
     sigstoreBundle: bundle.sigstoreBundle,
     vcek: bundle.vcek,
+    vlek: bundle.vlek,
+    asvk: bundle.asvk,
+    amdCrl: bundle.amdCrl,
+    certTable: bundle.certTable,
+    tdxCollateral: bundle.tdxCollateral,
+    hardwareDigest: bundle.hardwareDigest,
+    hardwareSigstoreBundle: bundle.hardwareSigstoreBundle,
     enclaveCert: bundle.enclaveCert,
+    rejectedAttestations: bundle.rejectedAttestations,
   };
 }
 
@@ -64,13 +86,13 @@ export async function fetchRouter(atcBaseUrl: string = TINFOIL_CONFIG.ATC_BASE_U
   const response = await fetch(routersUrl);
 
   if (!response.ok) {
-    throw new FetchError(`Failed to fetch router list from ${atcBaseUrl}: HTTP ${response.status} ${response.statusText}`);
+    throw new FetchError(`Failed to fetch router list from ${atcBaseUrl}: HTTP ${response.status} ${response.statusText}`, { code: ErrorCode.HttpError });
   }
 
   const routers: string[] = await response.json();
 
   if (!Array.isArray(routers) || routers.length === 0) {
-    throw new FetchError("No available routers found in the response");
+    throw new FetchError("No available routers found in the response", { code: ErrorCode.InvalidResponse });
   }
 
   return routers[Math.floor(Math.random() * routers.length)];
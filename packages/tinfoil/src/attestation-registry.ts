@@ -0,0 +1,106 @@
+import type { VerificationDocument, VerificationReceipt } from "./verifier.js";
+import type { SecureTransport } from "./encrypted-body-fetch.js";
+
+/** Verified state from one attestation, applied to a client all at once. */
+export interface AttestedState {
+  transport: SecureTransport;
+  document: VerificationDocument;
+  receipt?: VerificationReceipt;
+  enclaveURL: string;
+  baseURL: string;
+}
+
+interface Entry {
+  promise: Promise<AttestedState>;
+  /** Set once the attestation succeeds */
+  state?: AttestedState;
+}
+
+/**
+ * Shares attestations between SecureClients with the same enclave and
+ * verification configuration, so they verify once and use one transport.
+ * Each client keeps its own credentials, which are sent by the caller.
+ *
+ * Clients share an in-flight attestation as well as a completed one. When a
+ * client finds the shared attestation stale (e.g. the enclave rotated its
+ * keys), the first to report it starts a new attestation and the others join it.
+ */
+export class AttestationRegistry {
+  private entries = new Map<string, Entry>();
+
+  /**
+   * Get the attestation for a key, starting one with `attest` if there is none.
+   */
+  get(key: string, attest: () => Promise<AttestedState>): Promise<AttestedState> {
+    return this.entries.get(key)?.promise ?? this.start(key, attest);
+  }
+
+  /**
+   * Replace a stale attestation with a new one. Joins the new attestation
+   * instead if another client has already replaced it.
+   */
+  refresh(key: string, stale: AttestedState, attest: () => Promise<AttestedState>): Promise<AttestedState> {
+    const entry = this.entries.get(key);
+    if (entry && entry.state !== stale) {
+      return entry.promise;
+    }
+    return this.start(key, attest);
+  }
+
+  /**
+   * Drop a stale attestation, so the next {@link get} attests again. Does
+   * nothing if it has already been replaced.
+   */
+  invalidate(key: string, stale: AttestedState): void {
+    if (this.entries.get(key)?.state === stale) {
+      this.entries.delete(key);
+    }
+  }
+
+  private start(key: string, attest: () => Promise<AttestedState>): Promise<AttestedState> {
+    const entry: Entry = {
+      promise: attest().then(
+        state => {
+          entry.state = state;
+          return state;
+        },
+        error => {
+          // Let the next client try again rather than sharing the failure
+          if (this.entries.get(key) === entry) {
+            this.entries.delete(key);
+          }
+          throw error;
+        },
+      ),
+    };
+    this.entries.set(key, entry);
+    return entry.promise;
+  }
+}
+
+/** Registry used by clients created with `sharedAttestation: true`. */
+export const defaultAttestationRegistry = new AttestationRegistry();
+
+const objectIds = new WeakMap<object, number>();
+let nextObjectId = 0;
+
+/**
+ * Key identifying a client configuration. Plain values and byte arrays are
+ * compared by value; other objects (certificates, stores, functions) by
+ * identity, so clients only share when they are certainly configured alike.
+ */
+export function attestationKey(config: object): string {
+  return JSON.stringify(config, (_key, value) => {
+    if (value instanceof Uint8Array) {
+      return Array.from(value);
+    }
+    if (typeof value === "function" || (value && typeof value === "object" && !Array.isArray(value)
+      && Object.getPrototypeOf(value) !== Object.prototype)) {
+      if (!objectIds.has(value)) {
+        objectIds.set(value, nextObjectId++);
+      }
+      return `#${objectIds.get(value)}`;
+    }
+    return value;
+  });
+}
@@ -1,5 +1,13 @@
-import { Identity, Transport, PROTOCOL, type SessionRecoveryToken } from "ehbp";
-import { ConfigurationError, FetchError } from "./verifier.js";
+import {
+  Identity,
+  Transport,
+  PROTOCOL,
+  KeyConfigMismatchError,
+  ProtocolError,
+  DecryptionError as EhbpDecryptionError,
+  type SessionRecoveryToken,
+} from "ehbp";
+import { ConfigurationError, DecryptionError, ErrorCode, FetchError, KeyRotationError } from "./verifier.js";
 
 export type { SessionRecoveryToken } from "ehbp";
 export { decryptResponseWithToken } from "ehbp";
@@ -25,24 +33,90 @@ export async function getServerIdentity(enclaveURL: string): Promise<Identity> {
   const keysURL = new URL(PROTOCOL.KEYS_PATH, enclaveURL);
 
   if (keysURL.protocol !== 'https:') {
-    throw new ConfigurationError(`HTTPS is required for key retrieval. Got ${keysURL.protocol}`);
+    throw new ConfigurationError(`HTTPS is required for key retrieval. Got ${keysURL.protocol}`, { code: ErrorCode.InsecureConnection });
   }
 
   const response = await fetch(keysURL.toString());
 
   if (!response.ok) {
-    throw new FetchError(`Failed to fetch HPKE public key from enclave: HTTP ${response.status}`);
+    throw new FetchError(`Failed to fetch HPKE public key from enclave: HTTP ${response.status}`, { code: ErrorCode.HttpError });
   }
 
   const contentType = response.headers.get('content-type');
   if (contentType !== PROTOCOL.KEYS_MEDIA_TYPE) {
-    throw new FetchError(`Invalid response from HPKE key endpoint: Expected content-type "${PROTOCOL.KEYS_MEDIA_TYPE}", got "${contentType}"`);
+    throw new FetchError(`Invalid response from HPKE key endpoint: Expected content-type "${PROTOCOL.KEYS_MEDIA_TYPE}", got "${contentType}"`, { code: ErrorCode.InvalidResponse });
   }
 
   const keysData = new Uint8Array(await response.arrayBuffer());
   return await Identity.unmarshalPublicConfig(keysData);
 }
 
+/**
+ * Convert an EHBP failure into the SDK's typed transport errors: a key-config
+ * mismatch becomes a KeyRotationError, and protocol or decryption failures a
+ * DecryptionError. Other errors are returned unchanged.
+ */
+export function toTransportError(error: unknown): unknown {
+  if (error instanceof KeyConfigMismatchError) {
+    return new KeyRotationError(`Enclave key rotated: ${error.message}`, { cause: error });
+  }
+  if (error instanceof EhbpDecryptionError || error instanceof ProtocolError) {
+    return new DecryptionError(`Failed to decrypt enclave response: ${error.message}`, { cause: error });
+  }
+  return error;
+}
+
+// Statuses whose responses cannot be constructed with a body
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+/**
+ * Re-wrap a decrypted response so that decryption failures while its body is
+ * streamed also surface as typed transport errors.
+ */
+function withTransportErrors(response: Response): Response {
+  if (!response.body || NULL_BODY_STATUSES.includes(response.status)) {
+    return response;
+  }
+  const reader = response.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        controller.error(toTransportError(error));
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+  const wrapped = new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+  // A constructed Response has no URL and type "default"; keep the original's
+  for (const key of ["url", "redirected", "type"] as const) {
+    Object.defineProperty(wrapped, key, { value: response[key] });
+  }
+  return wrapped;
+}
+
+async function transportRequest(transport: Transport, url: string, init?: RequestInit): Promise<Response> {
+  let response: Response;
+  try {
+    response = await transport.request(url, init);
+  } catch (error) {
+    throw toTransportError(error);
+  }
+  return withTransportErrors(response);
+}
+
 export function normalizeEncryptedBodyRequestArgs(
   input: RequestInfo | URL,
   init?: RequestInit,
@@ -91,7 +165,7 @@ export async function encryptedBodyRequest(
     actualTransport = await getTransportForOrigin(u.origin, hpkePublicKey);
   }
 
-  return actualTransport.request(requestUrl, requestInit);
+  return transportRequest(actualTransport, requestUrl, requestInit);
 }
 
 const ENCLAVE_URL_HEADER = 'X-Tinfoil-Enclave-Url';
@@ -126,7 +200,7 @@ export function createEncryptedBodyFetch(baseURL: string, hpkePublicKey: string,
 
     async getSessionRecoveryToken(): Promise<SessionRecoveryToken> {
       if (!transportPromise) {
-        throw new Error('No session recovery token available — no request has been made yet');
+        throw new ConfigurationError('No session recovery token available — no request has been made yet');
       }
       const transport = await transportPromise;
       return transport.getSessionRecoveryToken();
@@ -180,12 +254,12 @@ export function createUnverifiedEncryptedBodyFetch(baseURL: string, keyOrigin?:
       const initWithEnclaveHeader = { ...normalized.init, headers };
 
       const transportInstance = await getOrCreateTransport();
-      return transportInstance.request(targetUrl.toString(), initWithEnclaveHeader);
+      return transportRequest(transportInstance, targetUrl.toString(), initWithEnclaveHeader);
     },
 
     async getSessionRecoveryToken(): Promise<SessionRecoveryToken> {
       if (!transportPromise) {
-        throw new Error('No session recovery token available — no request has been made yet');
+        throw new ConfigurationError('No session recovery token available — no request has been made yet');
       }
       const transport = await transportPromise;
       return transport.getSessionRecoveryToken();
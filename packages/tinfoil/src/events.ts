@@ -0,0 +1,38 @@
+/**
+ * Minimal typed event emitter shared by SecureClient and TinfoilAI.
+ * Works in Node.js and browsers without depending on either's event API.
+ */
+
+export type Listener<T> = (event: T) => void;
+
+export class TypedEmitter<Events extends object> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  /**
+   * Register a listener.
+   *
+   * @returns A function that removes the listener
+   */
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    (this.listeners[event] ??= new Set()).add(listener);
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+    this.listeners[event]?.delete(listener);
+  }
+
+  /**
+   * Call every listener for an event. A throwing listener is logged and does
+   * not prevent the others from running or affect the emitting operation.
+   */
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    for (const listener of [...(this.listeners[event] ?? [])]) {
+      try {
+        listener(payload);
+      } catch (e) {
+        console.warn(`[tinfoil] "${String(event)}" listener threw:`, e);
+      }
+    }
+  }
+}
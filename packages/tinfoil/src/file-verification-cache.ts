@@ -0,0 +1,40 @@
+import { mkdir, readFile, rm, writeFile, rename } from "fs/promises";
+import { join } from "path";
+import { createHash } from "crypto";
+import type { VerificationCache } from "./verification-cache.js";
+
+/**
+ * Cache in a directory on disk, one file per entry, surviving process
+ * restarts (e.g. serverless cold starts with a persistent volume). Node.js only.
+ */
+export class FileVerificationCache implements VerificationCache {
+  constructor(private readonly directory: string) {}
+
+  async get(key: string): Promise<string | undefined> {
+    try {
+      return await readFile(this.path(key), "utf8");
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw e;
+    }
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await mkdir(this.directory, { recursive: true, mode: 0o700 });
+    // Write then rename, so a concurrent reader never sees a partial entry
+    const path = this.path(key);
+    const tmp = `${path}.${process.pid}.tmp`;
+    await writeFile(tmp, value, { mode: 0o600 });
+    await rename(tmp, path);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.path(key), { force: true });
+  }
+
+  private path(key: string): string {
+    return join(this.directory, `${createHash("sha256").update(key).digest("hex")}.json`);
+  }
+}
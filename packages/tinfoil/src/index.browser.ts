@@ -5,9 +5,15 @@ export { TinfoilAI as default } from "./tinfoil-ai.js";
 export type { TinfoilAIOptions } from "./tinfoil-ai.js";
 
 export {
+  ErrorCode,
   TinfoilError,
   ConfigurationError,
   AttestationError,
+  TransportError,
+  DecryptionError,
+  KeyRotationError,
+  PinMismatchError,
+  AbortError,
   Verifier,
   assembleAttestationBundle,
 } from "./verifier.js";
@@ -18,6 +24,8 @@ export type {
   AttestationResponse,
   AttestationBundle,
   VerificationDocument,
+  VerificationStep,
+  VerificationStepEvent,
   VerificationStepState,
   HardwareMeasurement,
   VerifierOptions,
@@ -25,7 +33,9 @@ export type {
 } from "./verifier.js";
 export { createTinfoilAI } from "./ai-sdk-provider.js";
 export type { CreateTinfoilAIOptions } from "./ai-sdk-provider.js";
-export { SecureClient, type TransportMode } from "./secure-client.js";
+export { SecureClient, type TransportMode, type ReattestFailurePolicy, type RetryOptions, type ReadyOptions, type SecureClientEvents, type VerifiedEvent, type VerificationFailedEvent, type KeyRotatedEvent } from "./secure-client.js";
+export { AttestationRegistry } from "./attestation-registry.js";
+export { MemoryVerificationCache, LocalStorageVerificationCache, IndexedDBVerificationCache, type VerificationCache } from "./verification-cache.js";
 export type { SessionRecoveryToken } from "ehbp";
 export { serializeSessionRecoveryToken, deserializeSessionRecoveryToken, decryptResponseWithToken } from "ehbp";
 export { fetchRouter, fetchAttestationBundle, type FetchAttestationBundleOptions } from "./atc.js";
@@ -1,19 +1,19 @@
 import { X509Certificate, createHash } from "crypto";
 import type { ReadableStream as NodeWebReadableStream } from "stream/web";
-import { ConfigurationError, AttestationError } from "./verifier.js";
+import { ConfigurationError, ErrorCode, PinMismatchError } from "./verifier.js";
 import { isBun } from "./env.js";
 
 function createCheckServerIdentity(expectedFingerprintHex: string): (host: string, cert: any) => Error | undefined {
   return (host: string, cert: any): Error | undefined => {
     const raw = cert?.raw as Buffer | undefined;
     if (!raw) {
-      return new AttestationError("TLS pinning failed: Certificate raw bytes are unavailable");
+      return new PinMismatchError("TLS pinning failed: Certificate raw bytes are unavailable");
     }
     const x509 = new X509Certificate(raw);
     const publicKeyDer = x509.publicKey.export({ type: "spki", format: "der" });
     const fp = createHash("sha256").update(publicKeyDer).digest("hex");
     if (fp !== expectedFingerprintHex) {
-      return new AttestationError("TLS pinning failed: Server certificate public key does not match the attested key");
+      return new PinMismatchError("TLS pinning failed: Server certificate public key does not match the attested key");
     }
     return undefined;
   };
@@ -25,7 +25,7 @@ async function createBunPinnedTlsFetch(baseURL: string, expectedFingerprintHex:
 
   const parsedBase = new URL(baseURL);
   if (parsedBase.protocol !== "https:") {
-    throw new ConfigurationError(`Insecure connection rejected: HTTP is not allowed. Use HTTPS for ${baseURL}`);
+    throw new ConfigurationError(`Insecure connection rejected: HTTP is not allowed. Use HTTPS for ${baseURL}`, { code: ErrorCode.InsecureConnection });
   }
 
   return (async (input: RequestInfo | URL, init?: RequestInit) => {
@@ -37,7 +37,7 @@ async function createBunPinnedTlsFetch(baseURL: string, expectedFingerprintHex:
 
     const url = makeURL(input);
     if (url.protocol !== "https:") {
-      throw new ConfigurationError(`Insecure connection rejected: HTTP is not allowed. Use HTTPS for ${url.toString()}`);
+      throw new ConfigurationError(`Insecure connection rejected: HTTP is not allowed. Use HTTPS for ${url.toString()}`, { code: ErrorCode.InsecureConnection });
     }
 
     const fetchInit: RequestInit & { tls?: { checkServerIdentity: (host: string, cert: any) => Error | undefined } } = {
@@ -74,7 +74,7 @@ async function createNodePinnedTlsFetch(baseURL: string, expectedFingerprintHex:
 
     const url = makeURL(input);
     if (url.protocol !== "https:") {
-      throw new ConfigurationError(`Insecure connection rejected: HTTP is not allowed. Use HTTPS for ${url.toString()}`);
+      throw new ConfigurationError(`Insecure connection rejected: HTTP is not allowed. Use HTTPS for ${url.toString()}`, { code: ErrorCode.InsecureConnection });
     }
 
     // Gather method and headers
@@ -1,14 +1,23 @@
-import { KeyConfigMismatchError } from "ehbp";
-import { Verifier, ConfigurationError, FetchError, AttestationError, type VerificationDocument } from "./verifier.js";
-import type { AttestationBundle } from "./verifier.js";
+import { Verifier, ConfigurationError, ErrorCode, FetchError, AttestationError, AbortError, KeyRotationError, PinMismatchError, toAbortError, parseReceipt, serializeReceipt, type VerificationDocument, type VerificationReceipt, type VerificationStepEvent } from "./verifier.js";
+import type { AmdRootCerts, AttestationBundle, AttestationResponse, SigstoreIdentityPolicy, SigstoreTrustOptions, ValidationOptions } from "./verifier.js";
 import { TINFOIL_CONFIG } from "./config.js";
 import { createSecureFetch } from "./secure-fetch.js";
 import { fetchAttestationBundle } from "./atc.js";
-import type { SecureTransport, SessionRecoveryToken } from "./encrypted-body-fetch.js";
+import { toTransportError, type SecureTransport, type SessionRecoveryToken } from "./encrypted-body-fetch.js";
+import { TypedEmitter, type Listener } from "./events.js";
+import type { VerificationCache } from "./verification-cache.js";
+import { AttestationRegistry, attestationKey, defaultAttestationRegistry, type AttestedState } from "./attestation-registry.js";
+import { abortableDelay, raceAbort } from "./abort.js";
+
+/** Retries of init on transient failure. */
+const INIT_RETRIES = 1;
 
 /** Delay before retrying init on transient failure (ms). */
 const INIT_RETRY_DELAY_MS = 1000;
 
+/** Default age after which a cached verification is not reused (ms). */
+const DEFAULT_VERIFICATION_CACHE_TTL_MS = 60 * 60 * 1000;
+
 /**
  * Transport mode for secure communication with the enclave.
  *
@@ -21,6 +30,56 @@ const INIT_RETRY_DELAY_MS = 1000;
  */
 export type TransportMode = 'ehbp' | 'tls';
 
+/**
+ * What to do when background re-attestation fails.
+ *
+ * - `'keep-serving'` - keep using the last verified transport and try again
+ *   at the next interval (default).
+ * - `'fail-closed'` - reset the client, so no request is sent until a fresh
+ *   attestation succeeds.
+ */
+export type ReattestFailurePolicy = 'keep-serving' | 'fail-closed';
+
+/**
+ * Retry of a verification that failed with a transient error (`FetchError`
+ * or `AttestationError`).
+ */
+export interface RetryOptions {
+  /**
+   * Retries after the first attempt; 0 disables retrying.
+   * @default 1
+   */
+  retries?: number;
+
+  /**
+   * Delay before each retry in milliseconds, or a function of the retry
+   * number (starting at 1) returning it, e.g. for exponential backoff.
+   * @default 1000
+   */
+  delay?: number | ((retry: number) => number);
+}
+
+/**
+ * Options for {@link SecureClient.ready}.
+ */
+export interface ReadyOptions {
+  /**
+   * Stop waiting with an AbortError when aborted. Verification itself is
+   * cancelled once every caller waiting for it has aborted.
+   */
+  signal?: AbortSignal;
+}
+
+/** A verification started by ready(), shared by every caller. */
+interface PendingInit {
+  promise: Promise<void>;
+  controller: AbortController;
+  /** Callers with a signal still waiting */
+  waiting: number;
+  /** Set once a caller without a signal waits, so callers can no longer cancel */
+  pinned: boolean;
+}
+
 /**
  * Configuration options for SecureClient.
  */
@@ -51,6 +110,88 @@ export interface SecureClientOptions {
 
   /** URL to fetch the attestation bundle from. */
   attestationBundleURL?: string;
+
+  /**
+   * SEV-SNP validation policy, merged over the verifier's default policy.
+   * Use this to enforce e.g. a stricter `minimumTcb` or a required `hostData`.
+   */
+  policy?: Partial<ValidationOptions>;
+
+  /**
+   * Sigstore certificate identity required of configRepo releases, merged over
+   * the default policy (tagged releases built on GitHub Actions).
+   */
+  identityPolicy?: Partial<SigstoreIdentityPolicy>;
+
+  /**
+   * Refresh the Sigstore trusted root via TUF instead of using the snapshot
+   * bundled with the verifier.
+   */
+  sigstoreTrust?: SigstoreTrustOptions;
+
+  /**
+   * AMD root certificates (ARK, ASK and, for VLEK-signed reports, ASVK) by
+   * product name, added to or replacing the verifier's bundled anchors.
+   */
+  amdTrustedRoots?: Record<string, AmdRootCerts>;
+
+  /** Release tag of configRepo to verify against instead of the latest release. */
+  releaseTag?: string;
+
+  /** Release digests the enclave may run; verification fails for any other digest. */
+  approvedDigests?: string[];
+
+  /** Code measurement fingerprints the enclave may run; verification fails for any other measurement. */
+  approvedMeasurements?: string[];
+
+  /**
+   * Re-verify the enclave in the background this many milliseconds after each
+   * successful verification. Requests keep using the current transport until
+   * the new verification succeeds. Paused while a browser page is hidden.
+   */
+  reattestInterval?: number;
+
+  /**
+   * What to do when background re-attestation fails.
+   * @default 'keep-serving'
+   */
+  reattestFailurePolicy?: ReattestFailurePolicy;
+
+  /**
+   * Cache for verification results, keyed by enclave and config repo. A new
+   * client reuses a cached verification made with the same configuration
+   * within `verificationCacheTTL`, re-checking only that the enclave
+   * certificate is still valid and binds the recorded keys.
+   */
+  verificationCache?: VerificationCache;
+
+  /**
+   * Maximum age in milliseconds of a cached verification.
+   * @default 3600000 (1 hour)
+   */
+  verificationCacheTTL?: number;
+
+  /**
+   * Share one attestation and transport with other clients that have the same
+   * enclave and verification options, e.g. one client per API key in a
+   * multi-tenant server. `true` shares process-wide; pass an
+   * {@link AttestationRegistry} to share within a smaller group.
+   */
+  sharedAttestation?: boolean | AttestationRegistry;
+
+  /**
+   * Maximum time in milliseconds for a verification, including retries. When
+   * it elapses, the verification is cancelled and `ready()` and waiting
+   * requests fail with an `AbortError` with code `TIMED_OUT`. Also bounds
+   * each background re-attestation.
+   */
+  timeout?: number;
+
+  /**
+   * Retry of a verification failing with a transient error.
+   * @default { retries: 1, delay: 1000 }
+   */
+  retry?: RetryOptions;
 }
 
 function createPendingVerificationDocument(configRepo: string): VerificationDocument {
@@ -75,6 +216,56 @@ function createPendingVerificationDocument(configRepo: string): VerificationDocu
   };
 }
 
+/**
+ * Payload of the `verified` and `reattested` events.
+ */
+export interface VerifiedEvent {
+  document: VerificationDocument;
+  /** Time from the start of verification, including any retry, in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * Payload of the `failed` event.
+ */
+export interface VerificationFailedEvent {
+  error: Error;
+  /** The document of the failed attempt, recording which step failed */
+  document: VerificationDocument;
+  durationMs: number;
+}
+
+/**
+ * Payload of the `keyRotated` event.
+ */
+export interface KeyRotatedEvent {
+  /** The error of the request that detected the rotation */
+  error: KeyRotationError;
+  /** The verification of the enclave's new keys */
+  document: VerificationDocument;
+  /** Time spent re-attesting in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * Events emitted by SecureClient (and TinfoilAI):
+ *
+ * - `step` - a verification step started or finished
+ * - `verified` - verification succeeded and the client is ready
+ * - `failed` - verification failed after any retry, or a background re-attestation failed
+ * - `reattested` - a verification after the first succeeded, e.g. after
+ *   `reset()` or key rotation; emitted along with `verified`
+ * - `keyRotated` - the enclave rotated its keys and the client recovered by
+ *   re-attesting
+ */
+export interface SecureClientEvents {
+  step: VerificationStepEvent;
+  verified: VerifiedEvent;
+  failed: VerificationFailedEvent;
+  reattested: VerifiedEvent;
+  keyRotated: KeyRotatedEvent;
+}
+
 /**
  * Low-level secure client providing a verified fetch function for custom HTTP requests.
  * 
@@ -120,24 +311,57 @@ export class SecureClient {
     readonly configRepo: string;
     readonly transport: TransportMode;
     readonly attestationBundleURL?: string;
+    readonly policy?: Partial<ValidationOptions>;
+    readonly identityPolicy?: Partial<SigstoreIdentityPolicy>;
+    readonly sigstoreTrust?: SigstoreTrustOptions;
+    readonly amdTrustedRoots?: Record<string, AmdRootCerts>;
+    readonly releaseTag?: string;
+    readonly approvedDigests?: string[];
+    readonly approvedMeasurements?: string[];
+    readonly reattestInterval?: number;
+    readonly reattestFailurePolicy: ReattestFailurePolicy;
+    readonly verificationCache?: VerificationCache;
+    readonly verificationCacheTTL: number;
+    readonly attestationRegistry?: AttestationRegistry;
+    readonly timeout?: number;
+    readonly retry: Required<RetryOptions>;
   };
 
+  private readonly events = new TypedEmitter<SecureClientEvents>();
+  private verifiedBefore = false;
+  // Incremented whenever the transport is replaced or cleared. A background
+  // re-attestation or key rotation recovery for an older generation is stale.
+  private generation = 0;
+  private keyRotationRecovery: Promise<void> | null = null;
+  private cancelReattest?: () => void;
+
   // --- Derived state (cleared on reset) ---
-  private initPromise: Promise<void> | null = null;
+  private init: PendingInit | null = null;
+  private attested?: AttestedState;
   private verificationDocument: VerificationDocument;
+  private verificationReceipt?: VerificationReceipt;
   private _transport: SecureTransport | null = null;
   private resolvedEnclaveURL?: string;
   private resolvedBaseURL?: string;
 
   constructor(options: SecureClientOptions = {}) {
     if (options.enclaveURL && !options.enclaveURL.startsWith("https://")) {
-      throw new ConfigurationError(`enclaveURL must use HTTPS. Got: ${options.enclaveURL}`);
+      throw new ConfigurationError(`enclaveURL must use HTTPS. Got: ${options.enclaveURL}`, { code: ErrorCode.InsecureConnection });
     }
     if (options.configRepo && !options.enclaveURL) {
       throw new ConfigurationError("configRepo requires enclaveURL — without it, ATC always uses the default router repo.");
     } else if (options.enclaveURL && !options.configRepo) {
       console.warn(`[tinfoil] No configRepo specified, verifying against "${TINFOIL_CONFIG.DEFAULT_ROUTER_REPO}".`);
     }
+    if (options.reattestInterval !== undefined && !(options.reattestInterval > 0 && Number.isFinite(options.reattestInterval))) {
+      throw new ConfigurationError(`reattestInterval must be a positive number of milliseconds. Got: ${options.reattestInterval}`);
+    }
+    if (options.timeout !== undefined && !(options.timeout > 0 && Number.isFinite(options.timeout))) {
+      throw new ConfigurationError(`timeout must be a positive number of milliseconds. Got: ${options.timeout}`);
+    }
+    if (options.retry?.retries !== undefined && !(Number.isInteger(options.retry.retries) && options.retry.retries >= 0)) {
+      throw new ConfigurationError(`retry.retries must be a non-negative integer. Got: ${options.retry.retries}`);
+    }
 
     this.config = {
       baseURL: options.baseURL,
@@ -145,6 +369,25 @@ export class SecureClient {
       configRepo: options.configRepo ?? TINFOIL_CONFIG.DEFAULT_ROUTER_REPO,
       transport: options.transport || 'ehbp',
       attestationBundleURL: options.attestationBundleURL,
+      policy: options.policy,
+      identityPolicy: options.identityPolicy,
+      sigstoreTrust: options.sigstoreTrust,
+      amdTrustedRoots: options.amdTrustedRoots,
+      releaseTag: options.releaseTag,
+      approvedDigests: options.approvedDigests,
+      approvedMeasurements: options.approvedMeasurements,
+      reattestInterval: options.reattestInterval,
+      reattestFailurePolicy: options.reattestFailurePolicy ?? 'keep-serving',
+      verificationCache: options.verificationCache,
+      verificationCacheTTL: options.verificationCacheTTL ?? DEFAULT_VERIFICATION_CACHE_TTL_MS,
+      attestationRegistry: options.sharedAttestation === true
+        ? defaultAttestationRegistry
+        : options.sharedAttestation || undefined,
+      timeout: options.timeout,
+      retry: {
+        retries: options.retry?.retries ?? INIT_RETRIES,
+        delay: options.retry?.delay ?? INIT_RETRY_DELAY_MS,
+      },
     };
     this.verificationDocument = createPendingVerificationDocument(this.config.configRepo);
   }
@@ -154,35 +397,144 @@ export class SecureClient {
    * 
    * This performs enclave attestation, code verification, and establishes
    * the secure transport. Must be called before using `fetch`.
+   *
+   * Concurrent callers share one verification. A caller's `signal` only
+   * stops that caller waiting, unless every waiting caller has aborted, in
+   * which case the verification is cancelled too.
    * 
    * @throws Error if verification fails
+   * @throws AbortError if `options.signal` is aborted or the `timeout` elapses
    */
-  public async ready(): Promise<void> {
-    if (!this.initPromise) {
-      this.initPromise = this.initSecureClient().catch(async err => {
-        // Only try recovery if the error is transient (network I/O, attestation errors)
-        if (err instanceof FetchError || err instanceof AttestationError) {
-          this.clearDerivedState(); // Start with a new enclave
-          await new Promise(r => setTimeout(r, INIT_RETRY_DELAY_MS));
-          return this.initSecureClient().catch(retryErr => {
-            this.reset();
-            throw retryErr;
-          });
+  public async ready(options: ReadyOptions = {}): Promise<void> {
+    const { signal } = options;
+    if (signal?.aborted) {
+      throw toAbortError(signal);
+    }
+    const init = this.init ??= this.startInit();
+    if (!signal) {
+      init.pinned = true;
+      return init.promise;
+    }
+
+    init.waiting++;
+    try {
+      await raceAbort(init.promise, signal);
+    } finally {
+      init.waiting--;
+      if (signal.aborted && init.waiting === 0 && !init.pinned) {
+        // Detach the cancelled init so later callers start a new one
+        if (this.init === init) {
+          this.init = null;
+        }
+        init.controller.abort(signal.reason);
+      }
+    }
+  }
+
+  private startInit(): PendingInit {
+    const startedAt = Date.now();
+    const controller = new AbortController();
+    const timer = this.startTimeout(controller);
+    const init = { controller, waiting: 0, pinned: false } as PendingInit;
+    init.promise = this.initWithRetry(controller.signal)
+      .finally(() => clearTimeout(timer))
+      .then(() => {
+        this.emitVerified(startedAt);
+        this.scheduleReattest();
+      }, err => {
+        // A detached init must not reset the state of a newer one
+        if (this.init === init) {
+          this.fail(err, startedAt);
+        } else {
+          this.emitFailed(err, startedAt);
         }
-        // Everything else (ConfigurationError, bugs) — propagate immediately
-        this.reset();
         throw err;
       });
+    return init;
+  }
+
+  private async initWithRetry(signal: AbortSignal): Promise<void> {
+    const { retries, delay } = this.config.retry;
+    for (let retry = 1; ; retry++) {
+      try {
+        return await this.initSecureClient(signal);
+      } catch (err) {
+        // Only try recovery if the error is transient (network I/O, attestation errors).
+        // Everything else (ConfigurationError, bugs) — propagate immediately
+        if (retry > retries || signal.aborted || !(err instanceof FetchError || err instanceof AttestationError)) {
+          throw err;
+        }
+        this.clearDerivedState(); // Start with a new enclave
+        await abortableDelay(typeof delay === 'function' ? delay(retry) : delay, signal);
+      }
+    }
+  }
+
+  /**
+   * Abort the controller with a `TIMED_OUT` error once the configured timeout elapses.
+   */
+  private startTimeout(controller: AbortController): ReturnType<typeof setTimeout> | undefined {
+    const timeout = this.config.timeout;
+    if (!timeout) {
+      return undefined;
     }
-    return this.initPromise;
+    return setTimeout(() => {
+      controller.abort(new AbortError(`Verification timed out after ${timeout} ms`, { code: ErrorCode.TimedOut }));
+    }, timeout);
+  }
+
+  private emitVerified(startedAt: number): void {
+    const event = { document: this.verificationDocument, durationMs: Date.now() - startedAt };
+    this.events.emit('verified', event);
+    if (this.verifiedBefore) {
+      this.events.emit('reattested', event);
+    }
+    this.verifiedBefore = true;
+  }
+
+  /**
+   * Report a failed verification and reset, so the next call starts over.
+   */
+  private fail(error: Error, startedAt: number): void {
+    this.emitFailed(error, startedAt);
+    this.reset();
+  }
+
+  private emitFailed(error: Error, startedAt: number): void {
+    this.events.emit('failed', { error, document: this.verificationDocument, durationMs: Date.now() - startedAt });
+  }
+
+  /**
+   * Listen for verification progress. See {@link SecureClientEvents}.
+   *
+   * @example
+   * ```typescript
+   * client.on('step', ({ step, state, durationMs }) => {
+   *   console.log(step, state.status, durationMs);
+   * });
+   * ```
+   *
+   * @returns A function that removes the listener
+   */
+  public on<K extends keyof SecureClientEvents>(event: K, listener: Listener<SecureClientEvents[K]>): () => void {
+    return this.events.on(event, listener);
   }
 
   /**
-   * Clear derived state without touching initPromise (preserves deduplication).
+   * Remove a listener registered with {@link on}.
+   */
+  public off<K extends keyof SecureClientEvents>(event: K, listener: Listener<SecureClientEvents[K]>): void {
+    this.events.off(event, listener);
+  }
+
+  /**
+   * Clear derived state without touching init (preserves deduplication).
    */
   private clearDerivedState(): void {
+    this.attested = undefined;
     this._transport = null;
     this.verificationDocument = createPendingVerificationDocument(this.config.configRepo);
+    this.verificationReceipt = undefined;
     this.resolvedEnclaveURL = undefined;
     this.resolvedBaseURL = undefined;
   }
@@ -208,36 +560,244 @@ export class SecureClient {
    * ```
    */
   public reset(): void {
-    this.initPromise = null;
+    // A shared attestation is dropped too, so the next ready() verifies afresh
+    if (this.attested) {
+      this.config.attestationRegistry?.invalidate(this.registryKey, this.attested);
+    }
+    this.generation++;
+    this.cancelReattest?.();
+    this.cancelReattest = undefined;
+    this.init = null;
     this.clearDerivedState();
   }
 
-  private async initSecureClient(): Promise<void> {
+  private async initSecureClient(signal: AbortSignal): Promise<void> {
+    const verifier = this.createVerifier();
+    const registry = this.config.attestationRegistry;
+    // A shared attestation is never cancelled, since other clients may be
+    // waiting for it; this client only stops waiting
+    const attest = async () => await this.restoreCachedAttestation(verifier)
+      ?? await this.attest(verifier, this.config.enclaveURL, registry ? undefined : signal);
+    try {
+      this.applyAttestation(registry ? await raceAbort(registry.get(this.registryKey, attest), signal) : await attest());
+    } finally {
+      // Always capture the verifier's doc (success or partial-failure)
+      this.verificationDocument = verifier.getVerificationDocument() ?? this.verificationDocument;
+    }
+  }
+
+  /**
+   * Fetch and verify an attestation bundle without changing the client's state.
+   *
+   * @param enclaveURL - Enclave to attest; the router chosen by ATC when undefined
+   * @param signal - Cancels fetching and verifying the bundle
+   */
+  private async attest(verifier: Verifier, enclaveURL: string | undefined, signal?: AbortSignal): Promise<AttestedState> {
     const bundle: AttestationBundle = await fetchAttestationBundle({
       atcBaseUrl: this.config.attestationBundleURL,
-      enclaveURL: this.config.enclaveURL,
+      enclaveURL,
       configRepo: this.config.configRepo !== TINFOIL_CONFIG.DEFAULT_ROUTER_REPO
         ? this.config.configRepo
         : undefined,
+      signal,
     });
 
     // Resolve enclaveURL: user-provided config takes precedence, otherwise from bundle
-    this.resolvedEnclaveURL = this.config.enclaveURL ?? `https://${bundle.domain}`;
+    const resolvedEnclaveURL = enclaveURL ?? `https://${bundle.domain}`;
+
+    const attestation = await verifier.verifyBundle(bundle, { signal });
+    const state = await this.createAttestedState(resolvedEnclaveURL, attestation, verifier.getVerificationDocument()!, verifier.getVerificationReceipt());
+    await this.cacheReceipt(state.receipt);
+    return state;
+  }
 
+  private async createAttestedState(
+    enclaveURL: string,
+    attestation: AttestationResponse,
+    document: VerificationDocument,
+    receipt?: VerificationReceipt
+  ): Promise<AttestedState> {
     // Resolve baseURL: user-provided config (proxy) takes precedence, otherwise from enclave
-    this.resolvedBaseURL = this.config.baseURL ?? `${this.resolvedEnclaveURL}/v1/`;
+    const baseURL = this.config.baseURL ?? `${enclaveURL}/v1/`;
+    return {
+      transport: await this.createTransport(baseURL, enclaveURL, attestation.hpkePublicKey, attestation.tlsPublicKeyFingerprint),
+      document,
+      receipt,
+      enclaveURL,
+      baseURL,
+    };
+  }
+
+  /** Clients with the same key can share an attestation. */
+  private get registryKey(): string {
+    const { baseURL, enclaveURL, configRepo, transport, attestationBundleURL, policy, identityPolicy, sigstoreTrust, amdTrustedRoots, releaseTag, approvedDigests, approvedMeasurements } = this.config;
+    return attestationKey({ baseURL, enclaveURL, configRepo, transport, attestationBundleURL, policy, identityPolicy, sigstoreTrust, amdTrustedRoots, releaseTag, approvedDigests, approvedMeasurements });
+  }
+
+  /** Clients with different verifier configurations keep separate cache entries. */
+  private get cacheKey(): string {
+    const { configRepo, enclaveURL, attestationBundleURL, policy, identityPolicy, amdTrustedRoots, releaseTag, approvedDigests, approvedMeasurements } = this.config;
+    const enclave = enclaveURL ?? attestationBundleURL ?? TINFOIL_CONFIG.ATC_BASE_URL;
+    const verifierConfig = attestationKey({ policy, identityPolicy, amdTrustedRoots, releaseTag, approvedDigests, approvedMeasurements });
+    return `tinfoil:verification:${configRepo}@${enclave}#${verifierConfig}`;
+  }
+
+  /**
+   * Reuse a cached verification, if there is a recent one that still passes
+   * the verifier's cheap checks. Unusable entries are removed.
+   */
+  private async restoreCachedAttestation(verifier: Verifier): Promise<AttestedState | undefined> {
+    const cache = this.config.verificationCache;
+    if (!cache) {
+      return undefined;
+    }
+
+    try {
+      const cached = await cache.get(this.cacheKey);
+      if (!cached) {
+        return undefined;
+      }
+      const receipt = parseReceipt(cached);
+      if (Date.now() - Date.parse(receipt.verifiedAt) > this.config.verificationCacheTTL) {
+        await cache.delete(this.cacheKey);
+        return undefined;
+      }
+      // The receipt must be for the configured enclave, not just any enclave running the repo
+      const enclaveHost = this.config.enclaveURL && new URL(this.config.enclaveURL).hostname;
+      if (enclaveHost && receipt.bundle.domain !== enclaveHost) {
+        throw new AttestationError(`Receipt mismatch: Receipt is for ${receipt.bundle.domain}, not the configured enclave ${enclaveHost}`, { code: ErrorCode.ReceiptMismatch });
+      }
+      const attestation = await verifier.restoreReceipt(receipt);
+      return await this.createAttestedState(this.config.enclaveURL ?? `https://${receipt.bundle.domain}`, attestation, receipt.document, receipt);
+    } catch (e) {
+      console.warn(`[tinfoil] Ignoring cached verification: ${(e as Error).message}`);
+      await this.invalidateCache();
+      return undefined;
+    }
+  }
+
+  private async cacheReceipt(receipt?: VerificationReceipt): Promise<void> {
+    if (!this.config.verificationCache || !receipt) {
+      return;
+    }
+    try {
+      await this.config.verificationCache.set(this.cacheKey, serializeReceipt(receipt));
+    } catch (e) {
+      console.warn(`[tinfoil] Failed to cache verification: ${(e as Error).message}`);
+    }
+  }
+
+  /**
+   * Drop the cached verification, e.g. when the enclave's keys no longer match it.
+   */
+  private async invalidateCache(): Promise<void> {
+    try {
+      await this.config.verificationCache?.delete(this.cacheKey);
+    } catch (e) {
+      console.warn(`[tinfoil] Failed to invalidate cached verification: ${(e as Error).message}`);
+    }
+  }
+
+  private applyAttestation(state: AttestedState): void {
+    this.generation++;
+    this.attested = state;
+    this.verificationDocument = state.document;
+    this._transport = state.transport;
+    this.verificationReceipt = state.receipt;
+    this.resolvedEnclaveURL = state.enclaveURL;
+    this.resolvedBaseURL = state.baseURL;
+  }
 
-    const verifier = new Verifier({
+  private createVerifier(): Verifier {
+    return new Verifier({
       configRepo: this.config.configRepo,
+      policy: this.config.policy,
+      identityPolicy: this.config.identityPolicy,
+      sigstoreTrust: this.config.sigstoreTrust,
+      amdTrustedRoots: this.config.amdTrustedRoots,
+      releaseTag: this.config.releaseTag,
+      approvedDigests: this.config.approvedDigests,
+      approvedMeasurements: this.config.approvedMeasurements,
+      onStep: event => this.events.emit('step', event),
     });
+  }
+
+  /**
+   * Schedule the next background re-attestation, if enabled. In browsers the
+   * timer waits for the page to become visible before re-attesting.
+   */
+  private scheduleReattest(): void {
+    const interval = this.config.reattestInterval;
+    if (!interval) {
+      return;
+    }
+    this.cancelReattest?.();
+
+    const timer = setTimeout(() => {
+      if (typeof document === 'undefined' || document.visibilityState !== 'hidden') {
+        void this.reattest();
+        return;
+      }
+      const onVisible = () => {
+        if (document.visibilityState !== 'hidden') {
+          document.removeEventListener('visibilitychange', onVisible);
+          void this.reattest();
+        }
+      };
+      document.addEventListener('visibilitychange', onVisible);
+      this.cancelReattest = () => document.removeEventListener('visibilitychange', onVisible);
+    }, interval);
+    // Don't keep a Node.js process alive just to re-attest
+    (timer as { unref?: () => void }).unref?.();
+    this.cancelReattest = () => clearTimeout(timer);
+  }
+
+  /**
+   * Re-verify the current enclave in the background. In-flight and new
+   * requests keep using the current transport until the new one is verified,
+   * then it is swapped in at once.
+   */
+  private async reattest(): Promise<void> {
+    const generation = this.generation;
+    const startedAt = Date.now();
+    const verifier = this.createVerifier();
+    this.cancelReattest = undefined;
 
+    const registry = this.config.attestationRegistry;
+    const enclaveURL = this.resolvedEnclaveURL;
+    const controller = new AbortController();
+    const timer = this.startTimeout(controller);
+
+    let state: AttestedState;
     try {
-      const attestation = await verifier.verifyBundle(bundle);
-      this._transport = await this.createTransport(attestation.hpkePublicKey, attestation.tlsPublicKeyFingerprint);
+      // Shared clients re-attest once between them; later ones adopt the result
+      state = registry && this.attested
+        ? await raceAbort(registry.refresh(this.registryKey, this.attested, () => this.attest(verifier, enclaveURL)), controller.signal)
+        : await this.attest(verifier, enclaveURL, controller.signal);
+    } catch (e) {
+      if (generation !== this.generation) {
+        return;
+      }
+      const error = e instanceof Error ? e : new Error(String(e));
+      const document = verifier.getVerificationDocument() ?? this.verificationDocument;
+      this.events.emit('failed', { error, document, durationMs: Date.now() - startedAt });
+      if (this.config.reattestFailurePolicy === 'fail-closed') {
+        this.reset();
+      } else {
+        console.warn(`[tinfoil] Background re-attestation failed, continuing with the verified transport: ${error.message}`);
+        this.scheduleReattest();
+      }
+      return;
     } finally {
-      // Always capture the verifier's doc (success or partial-failure)
-      this.verificationDocument = verifier.getVerificationDocument() ?? this.verificationDocument;
+      clearTimeout(timer);
     }
+
+    if (generation !== this.generation) {
+      return;
+    }
+    this.applyAttestation(state);
+    this.emitVerified(startedAt);
+    this.scheduleReattest();
   }
 
   /**
@@ -250,6 +810,17 @@ export class SecureClient {
     return this.verificationDocument;
   }
 
+  /**
+   * Get a receipt of the verification the current transport was established
+   * with: the verified bundle, verifier configuration and resulting document.
+   * Persist it with `serializeReceipt()` and re-check it offline with `verifyReceipt()`.
+   *
+   * @returns The receipt, or undefined if verification has not succeeded
+   */
+  public getVerificationReceipt(): VerificationReceipt | undefined {
+    return this.verificationReceipt;
+  }
+
   /**
    * Get the base URL for API requests.
    * 
@@ -266,12 +837,12 @@ export class SecureClient {
     return this.resolvedEnclaveURL;
   }
 
-  private async createTransport(hpkePublicKey?: string, tlsPublicKeyFingerprint?: string): Promise<SecureTransport> {
+  private async createTransport(baseURL: string, enclaveURL: string, hpkePublicKey?: string, tlsPublicKeyFingerprint?: string): Promise<SecureTransport> {
     if (this.config.transport === 'tls') {
-      return await createSecureFetch(this.resolvedBaseURL!, undefined, tlsPublicKeyFingerprint, this.resolvedEnclaveURL);
+      return await createSecureFetch(baseURL, undefined, tlsPublicKeyFingerprint, enclaveURL);
     }
 
-    return await createSecureFetch(this.resolvedBaseURL!, hpkePublicKey, undefined, this.resolvedEnclaveURL);
+    return await createSecureFetch(baseURL, hpkePublicKey, undefined, enclaveURL);
   }
 
   /**
@@ -281,8 +852,14 @@ export class SecureClient {
    * encrypted using HPKE (or TLS pinning if configured) so only the verified
    * enclave can decrypt them.
    *
-   * On `KeyConfigMismatchError` (server key rotation), automatically re-attests
-   * and retries the request once. All other errors propagate to the caller.
+   * On `KeyRotationError` (server key rotation), automatically re-attests and
+   * retries the request once. Concurrent requests that fail on the same keys
+   * share one re-attestation. All other errors propagate to the caller;
+   * transport failures as `DecryptionError` or `PinMismatchError`.
+   *
+   * `init.signal` also cancels waiting for verification, including
+   * re-attestation after a key rotation: if it aborts first, the request
+   * fails with an `AbortError` and is not sent (again).
    *
    * @example
    * ```typescript
@@ -295,32 +872,77 @@ export class SecureClient {
    */
   get fetch(): typeof fetch {
     return async (input: RequestInfo | URL, init?: RequestInit) => {
-      await this.ready();
+      const signal = init?.signal ?? undefined;
+      await this.ready({ signal });
+      const generation = this.generation;
 
       try {
         return await this._transport!.fetch(input, init);
-      } catch (error) {
+      } catch (e) {
+        if (signal?.aborted) {
+          throw toAbortError(signal);
+        }
+        const error = toTransportError(e);
         // Channel recovery: server rotated keys, request was never processed — safe to retry
-        if (error instanceof KeyConfigMismatchError) {
-          this.reset();
-          await this.ready();
+        if (error instanceof KeyRotationError) {
+          await raceAbort(this.recoverFromKeyRotation(generation, error), signal);
+          if (signal?.aborted) {
+            throw toAbortError(signal);
+          }
           return await this._transport!.fetch(input, init);
         }
+        // The enclave's keys no longer match the verification, so it must not be reused
+        if (error instanceof PinMismatchError) {
+          await this.invalidateCache();
+        }
         throw error;
       }
     };
   }
 
+  /**
+   * Re-attest after a request found the enclave's keys rotated. The first
+   * request to fail on a transport generation starts the re-attestation and
+   * later failures wait for it; a request that failed on an older generation
+   * than the current one just retries on the current transport.
+   */
+  private recoverFromKeyRotation(generation: number, error: KeyRotationError): Promise<void> {
+    if (generation !== this.generation) {
+      return this.keyRotationRecovery ?? this.ready();
+    }
+
+    const startedAt = Date.now();
+    this.reset();
+    const recovery = this.invalidateCache()
+      .then(() => this.ready())
+      .then(() => {
+        this.events.emit('keyRotated', { error, document: this.verificationDocument, durationMs: Date.now() - startedAt });
+      })
+      .finally(() => {
+        if (this.keyRotationRecovery === recovery) {
+          this.keyRotationRecovery = null;
+        }
+      });
+    this.keyRotationRecovery = recovery;
+    return recovery;
+  }
+
   /**
    * Returns the session recovery token for the most recent request.
    *
    * The token is overwritten on every request, so it must be captured
    * immediately after the relevant `fetch()` resolves and before issuing
    * another request on this client.
+   *
+   * Not available with `sharedAttestation`: clients then share one transport,
+   * so its most recent request may belong to another client.
    */
   public async getSessionRecoveryToken(): Promise<SessionRecoveryToken> {
+    if (this.config.attestationRegistry) {
+      throw new ConfigurationError('Session recovery tokens are not available with sharedAttestation: the transport is shared with other clients');
+    }
     if (!this._transport) {
-      throw new Error('No session recovery token available — call fetch() first');
+      throw new ConfigurationError('No session recovery token available — call fetch() first');
     }
     return this._transport.getSessionRecoveryToken();
   }
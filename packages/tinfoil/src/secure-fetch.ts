@@ -40,7 +40,7 @@ export async function createSecureFetch(
   return {
     fetch: pinnedFetch,
     async getSessionRecoveryToken() {
-      throw new Error('Session recovery tokens are only available in EHBP transport mode');
+      throw new ConfigurationError('Session recovery tokens are only available in EHBP transport mode');
     },
   };
 }
\ No newline at end of file
@@ -11,8 +11,11 @@ import type {
   Moderations,
   Responses,
 } from "openai/resources";
-import { SecureClient, type TransportMode } from "./secure-client.js";
-import { type VerificationDocument } from "./verifier.js";
+import { SecureClient, type TransportMode, type ReattestFailurePolicy, type RetryOptions, type ReadyOptions, type SecureClientEvents } from "./secure-client.js";
+import type { Listener } from "./events.js";
+import type { VerificationCache } from "./verification-cache.js";
+import type { AttestationRegistry } from "./attestation-registry.js";
+import { type AmdRootCerts, type VerificationDocument, type VerificationReceipt, type SigstoreIdentityPolicy, type SigstoreTrustOptions, type ValidationOptions } from "./verifier.js";
 import { isRealBrowser } from "./env.js";
 
 function createAsyncProxy<T extends object>(promise: Promise<T>): T {
@@ -94,6 +97,83 @@ export interface TinfoilAIOptions {
 
   /** URL to fetch the attestation bundle from. */
   attestationBundleURL?: string;
+
+  /**
+   * SEV-SNP validation policy, merged over the verifier's default policy.
+   * Use this to enforce e.g. a stricter `minimumTcb` or a required `hostData`.
+   */
+  policy?: Partial<ValidationOptions>;
+
+  /**
+   * Sigstore certificate identity required of configRepo releases, merged over
+   * the default policy (tagged releases built on GitHub Actions).
+   */
+  identityPolicy?: Partial<SigstoreIdentityPolicy>;
+
+  /**
+   * Refresh the Sigstore trusted root via TUF instead of using the snapshot
+   * bundled with the verifier.
+   */
+  sigstoreTrust?: SigstoreTrustOptions;
+
+  /**
+   * AMD root certificates (ARK, ASK and, for VLEK-signed reports, ASVK) by
+   * product name, added to or replacing the verifier's bundled anchors.
+   */
+  amdTrustedRoots?: Record<string, AmdRootCerts>;
+
+  /** Release tag of configRepo to verify against instead of the latest release. */
+  releaseTag?: string;
+
+  /** Release digests the enclave may run; verification fails for any other digest. */
+  approvedDigests?: string[];
+
+  /** Code measurement fingerprints the enclave may run; verification fails for any other measurement. */
+  approvedMeasurements?: string[];
+
+  /**
+   * Re-verify the enclave in the background this many milliseconds after each
+   * successful verification, for long-lived clients.
+   */
+  reattestInterval?: number;
+
+  /**
+   * What to do when background re-attestation fails.
+   * @default 'keep-serving'
+   */
+  reattestFailurePolicy?: ReattestFailurePolicy;
+
+  /**
+   * Cache for verification results, so new clients can skip re-verifying a
+   * recent verification of the same enclave and configuration.
+   */
+  verificationCache?: VerificationCache;
+
+  /**
+   * Maximum age in milliseconds of a cached verification.
+   * @default 3600000 (1 hour)
+   */
+  verificationCacheTTL?: number;
+
+  /**
+   * Share one attestation and transport with other clients that have the same
+   * enclave and verification options, e.g. one TinfoilAI per customer API key.
+   * `true` shares process-wide; pass an {@link AttestationRegistry} to share
+   * within a smaller group.
+   */
+  sharedAttestation?: boolean | AttestationRegistry;
+
+  /**
+   * Maximum time in milliseconds for verification, including retries; after
+   * it, requests fail with an `AbortError` with code `TIMED_OUT`.
+   */
+  timeout?: number;
+
+  /**
+   * Retry of a verification failing with a transient error.
+   * @default { retries: 1, delay: 1000 }
+   */
+  retry?: RetryOptions;
   
   /** Additional OpenAI client options (passed through to underlying client) */
   [key: string]: any;
@@ -153,6 +233,20 @@ export class TinfoilAI {
       configRepo: options.configRepo,
       transport: options.transport,
       attestationBundleURL: options.attestationBundleURL,
+      policy: options.policy,
+      identityPolicy: options.identityPolicy,
+      sigstoreTrust: options.sigstoreTrust,
+      amdTrustedRoots: options.amdTrustedRoots,
+      releaseTag: options.releaseTag,
+      approvedDigests: options.approvedDigests,
+      approvedMeasurements: options.approvedMeasurements,
+      reattestInterval: options.reattestInterval,
+      reattestFailurePolicy: options.reattestFailurePolicy,
+      verificationCache: options.verificationCache,
+      verificationCacheTTL: options.verificationCacheTTL,
+      sharedAttestation: options.sharedAttestation,
+      timeout: options.timeout,
+      retry: options.retry,
     });
   }
 
@@ -167,13 +261,15 @@ export class TinfoilAI {
    * const client = new TinfoilAI({ bearerToken: jwt });
    * await client.ready(); // Show spinner while verifying
    * ```
+   *
+   * @throws AbortError if `options.signal` is aborted or the `timeout` elapses
    */
-  public async ready(): Promise<void> {
-    await this.ensureReady();
+  public async ready(options: ReadyOptions = {}): Promise<void> {
+    await this.ensureReady(options);
   }
 
-  private async ensureReady(): Promise<OpenAI> {
-    await this.secureClient.ready();
+  private async ensureReady(options: ReadyOptions = {}): Promise<OpenAI> {
+    await this.secureClient.ready(options);
     if (!this.client) {
       this.client = new OpenAI({
         ...this.openAIOptions,
@@ -207,6 +303,42 @@ export class TinfoilAI {
     return this.secureClient.getVerificationDocument();
   }
 
+  /**
+   * Get a receipt of the verification, for persisting as evidence and
+   * re-checking offline with `verifyReceipt()`.
+   *
+   * @returns The verification receipt
+   */
+  public async getVerificationReceipt(): Promise<VerificationReceipt | undefined> {
+    await this.ready();
+    return this.secureClient.getVerificationReceipt();
+  }
+
+  /**
+   * Listen for verification progress: `step`, `verified`, `failed` and
+   * `reattested`. Register before the first request to see every step.
+   *
+   * @example
+   * ```typescript
+   * const client = new TinfoilAI({ bearerToken: jwt });
+   * client.on('step', ({ step, state }) => showProgress(step, state.status));
+   * client.on('failed', ({ error }) => showError(error));
+   * await client.ready();
+   * ```
+   *
+   * @returns A function that removes the listener
+   */
+  public on<K extends keyof SecureClientEvents>(event: K, listener: Listener<SecureClientEvents[K]>): () => void {
+    return this.secureClient.on(event, listener);
+  }
+
+  /**
+   * Remove a listener registered with {@link on}.
+   */
+  public off<K extends keyof SecureClientEvents>(event: K, listener: Listener<SecureClientEvents[K]>): void {
+    this.secureClient.off(event, listener);
+  }
+
   get chat(): Chat {
     return createAsyncProxy(this.ensureReady().then((client) => client.chat));
   }
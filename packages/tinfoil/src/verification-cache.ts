@@ -0,0 +1,95 @@
+/**
+ * Storage for verification receipts, so a new SecureClient can reuse a recent
+ * verification instead of fetching and verifying the attestation bundle again.
+ *
+ * Entries are serialized receipts. Whoever can write to the cache can choose
+ * which enclave keys a client trusts until the entry expires, so use storage
+ * only the application itself can write to.
+ */
+export interface VerificationCache {
+  get(key: string): Promise<string | undefined>;
+  set(key: string, value: string): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * In-memory cache, shared by clients in the same process or page.
+ */
+export class MemoryVerificationCache implements VerificationCache {
+  private entries = new Map<string, string>();
+
+  async get(key: string): Promise<string | undefined> {
+    return this.entries.get(key);
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.entries.set(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Cache in Web Storage, `localStorage` by default, surviving page loads.
+ */
+export class LocalStorageVerificationCache implements VerificationCache {
+  constructor(private readonly storage: Storage = localStorage) {}
+
+  async get(key: string): Promise<string | undefined> {
+    return this.storage.getItem(key) ?? undefined;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.storage.setItem(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.storage.removeItem(key);
+  }
+}
+
+/**
+ * Cache in an IndexedDB object store, surviving page loads and usable from
+ * web workers, which have no `localStorage`.
+ */
+export class IndexedDBVerificationCache implements VerificationCache {
+  private db?: Promise<IDBDatabase>;
+
+  constructor(
+    private readonly databaseName = 'tinfoil',
+    private readonly storeName = 'verification-cache',
+  ) {}
+
+  async get(key: string): Promise<string | undefined> {
+    return this.request('readonly', store => store.get(key));
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await this.request('readwrite', store => store.put(value, key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(key));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.db ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.databaseName);
+      request.onupgradeneeded = () => request.result.createObjectStore(this.storeName);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return this.db;
+  }
+
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = run(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
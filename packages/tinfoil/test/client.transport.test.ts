@@ -46,6 +46,9 @@ vi.mock("../src/verifier.js", () => ({
     getVerificationDocument() {
       return mockVerificationDocument;
     }
+    getVerificationReceipt() {
+      return undefined;
+    }
   },
   FetchError: class FetchError extends Error {
     constructor(message: string) {
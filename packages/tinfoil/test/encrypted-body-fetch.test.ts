@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { encryptedBodyRequest, normalizeEncryptedBodyRequestArgs, getServerIdentity, createEncryptedBodyFetch, createUnverifiedEncryptedBodyFetch } from "../src/encrypted-body-fetch";
-import { Identity, PROTOCOL } from "ehbp";
+import { encryptedBodyRequest, normalizeEncryptedBodyRequestArgs, getServerIdentity, createEncryptedBodyFetch, createUnverifiedEncryptedBodyFetch, toTransportError } from "../src/encrypted-body-fetch";
+import { Identity, PROTOCOL, KeyConfigMismatchError, DecryptionError as EhbpDecryptionError, type Transport } from "ehbp";
+import { DecryptionError, ErrorCode, KeyRotationError } from "../src/verifier";
 
 describe("encrypted-body-fetch", () => {
   describe("getServerIdentity", () => {
@@ -125,6 +126,28 @@ describe("encrypted-body-fetch", () => {
     });
   });
 
+  describe("toTransportError", () => {
+    it("maps a key-config mismatch to a KeyRotationError", () => {
+      const error = toTransportError(new KeyConfigMismatchError("key config mismatch"));
+
+      expect(error).toBeInstanceOf(KeyRotationError);
+      expect(error).toMatchObject({ code: ErrorCode.KeyRotated });
+    });
+
+    it("maps a decryption failure to a DecryptionError", () => {
+      const cause = new EhbpDecryptionError("Decryption failed at chunk 0");
+      const error = toTransportError(cause);
+
+      expect(error).toBeInstanceOf(DecryptionError);
+      expect(error).toMatchObject({ code: ErrorCode.DecryptionFailed, cause });
+    });
+
+    it("returns other errors unchanged", () => {
+      const error = new Error("network failure");
+      expect(toTransportError(error)).toBe(error);
+    });
+  });
+
   describe("encryptedBodyRequest", () => {
     let originalFetch: typeof globalThis.fetch;
 
@@ -156,6 +179,21 @@ describe("encrypted-body-fetch", () => {
 
       expect(apiRequestMade).toBe(true);
     });
+
+    it("keeps the url, redirected and type of the transport's response", async () => {
+      const upstream = new Response("ok");
+      Object.defineProperty(upstream, "url", { value: "https://api.example.com/final" });
+      Object.defineProperty(upstream, "redirected", { value: true });
+      Object.defineProperty(upstream, "type", { value: "cors" });
+      const transport = { request: vi.fn(async () => upstream) } as unknown as Transport;
+
+      const response = await encryptedBodyRequest("https://api.example.com/test", "", undefined, transport);
+
+      expect(response.url).toBe("https://api.example.com/final");
+      expect(response.redirected).toBe(true);
+      expect(response.type).toBe("cors");
+      expect(await response.text()).toBe("ok");
+    });
   });
 
   describe("createEncryptedBodyFetch", () => {
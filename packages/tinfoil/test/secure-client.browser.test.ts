@@ -38,6 +38,9 @@ vi.mock("../src/verifier.js", () => ({
     getVerificationDocument() {
       return mockVerificationDocument;
     }
+    getVerificationReceipt() {
+      return undefined;
+    }
   },
   AttestationError: class AttestationError extends Error {
     constructor(message: string) {
@@ -31,6 +31,10 @@ const verifyMock = vi.fn(async () => ({
   measurement: { type: MOCK_MEASUREMENT_TYPE, registers: [] },
 }));
 
+const verifierOptionsMock = vi.fn();
+const receiptMock = vi.fn((): unknown => undefined);
+const restoreReceiptMock = vi.fn(async (receipt: { document: { enclaveMeasurement: unknown } }) => receipt.document.enclaveMeasurement);
+
 const mockFetch = vi.fn(async () => new Response(JSON.stringify({ message: "success" })));
 const mockGetSessionRecoveryToken = vi.fn(async () => ({ exportedSecret: new Uint8Array(), requestEnc: new Uint8Array() }));
 const createSecureFetchMock = vi.fn(
@@ -42,8 +46,23 @@ const createSecureFetchMock = vi.fn(
   },
 );
 
+class MockAbortError extends Error {
+  code: string;
+  constructor(message: string, options?: { code?: string }) {
+    super(message);
+    this.name = 'AbortError';
+    this.code = options?.code ?? 'ABORTED';
+  }
+}
+
+const mockToAbortError = (signal: AbortSignal) =>
+  signal.reason instanceof MockAbortError ? signal.reason : new MockAbortError("Operation aborted");
+
 vi.mock("../src/verifier.js", () => ({
   Verifier: class {
+    constructor(options: unknown) {
+      verifierOptionsMock(options);
+    }
     verify() {
       return verifyMock();
     }
@@ -53,7 +72,18 @@ vi.mock("../src/verifier.js", () => ({
     getVerificationDocument() {
       return mockVerificationDocument;
     }
+    getVerificationReceipt() {
+      return receiptMock();
+    }
+    restoreReceipt(receipt: { document: { enclaveMeasurement: unknown } }) {
+      return restoreReceiptMock(receipt);
+    }
   },
+  ErrorCode: { Aborted: 'ABORTED', TimedOut: 'TIMED_OUT', ReceiptMismatch: 'RECEIPT_MISMATCH' },
+  AbortError: MockAbortError,
+  toAbortError: mockToAbortError,
+  parseReceipt: (json: string) => JSON.parse(json),
+  serializeReceipt: (receipt: unknown) => JSON.stringify(receipt),
   FetchError: class FetchError extends Error {
     constructor(message: string) {
       super(message);
@@ -72,6 +102,24 @@ vi.mock("../src/verifier.js", () => ({
       this.name = 'ConfigurationError';
     }
   },
+  KeyRotationError: class KeyRotationError extends Error {
+    constructor(message: string) {
+      super(message);
+      this.name = 'KeyRotationError';
+    }
+  },
+  DecryptionError: class DecryptionError extends Error {
+    constructor(message: string) {
+      super(message);
+      this.name = 'DecryptionError';
+    }
+  },
+  PinMismatchError: class PinMismatchError extends Error {
+    constructor(message: string) {
+      super(message);
+      this.name = 'PinMismatchError';
+    }
+  },
   assembleAttestationBundle: vi.fn(async () => ({
     domain: "custom-enclave.example.com",
     enclaveAttestationReport: { format: "test", body: "test" },
@@ -405,7 +453,165 @@ describe("SecureClient", () => {
     });
   });
 
+  describe("cancellation and timeout", () => {
+    // Bundle fetch that only settles when released or aborted through its signal
+    async function pendingBundleFetch() {
+      const { fetchAttestationBundle } = await import("../src/atc.js");
+      const fetchMock = vi.mocked(fetchAttestationBundle);
+      const original = fetchMock.getMockImplementation()!;
+      const pending: { signal?: AbortSignal; release: () => void } = { release: () => {} };
+      fetchMock.mockImplementationOnce(options => new Promise((resolve, reject) => {
+        pending.signal = options?.signal;
+        pending.release = () => resolve(original(options));
+        options?.signal?.addEventListener("abort", () => reject(mockToAbortError(options.signal!)));
+      }));
+      return pending;
+    }
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should reject ready() and cancel verification when its only caller aborts", async () => {
+      const pending = await pendingBundleFetch();
+      const { SecureClient } = await import("../src/secure-client");
+      const client = new SecureClient({ baseURL: "https://test.example.com/" });
+      const failed = vi.fn();
+      client.on("failed", failed);
+
+      const controller = new AbortController();
+      const ready = client.ready({ signal: controller.signal });
+      await vi.waitFor(() => expect(pending.signal).toBeDefined());
+      controller.abort();
+
+      await expect(ready).rejects.toBeInstanceOf(MockAbortError);
+      expect(pending.signal!.aborted).toBe(true);
+      await vi.waitFor(() => expect(failed).toHaveBeenCalledTimes(1));
+      expect(verifyMock).not.toHaveBeenCalled();
+    });
+
+    it("should start a new verification for callers arriving after the last caller aborted", async () => {
+      const pending = await pendingBundleFetch();
+      const { SecureClient } = await import("../src/secure-client");
+      const client = new SecureClient({ baseURL: "https://test.example.com/" });
+
+      const controller = new AbortController();
+      const aborted = client.ready({ signal: controller.signal });
+      await vi.waitFor(() => expect(pending.signal).toBeDefined());
+      controller.abort();
+      await expect(aborted).rejects.toBeInstanceOf(MockAbortError);
+
+      await expect(client.ready()).resolves.toBeUndefined();
+      expect(verifyMock).toHaveBeenCalledTimes(1);
+      expect(client.getVerificationDocument()).toBe(mockVerificationDocument);
+    });
+
+    it("should keep verifying while a caller without a signal is waiting", async () => {
+      const pending = await pendingBundleFetch();
+      const { SecureClient } = await import("../src/secure-client");
+      const client = new SecureClient({ baseURL: "https://test.example.com/" });
+
+      const controller = new AbortController();
+      const aborted = client.ready({ signal: controller.signal });
+      const waiting = client.ready();
+      await vi.waitFor(() => expect(pending.signal).toBeDefined());
+      controller.abort();
+
+      await expect(aborted).rejects.toBeInstanceOf(MockAbortError);
+      expect(pending.signal!.aborted).toBe(false);
+      pending.release();
+      await waiting;
+      expect(verifyMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("should fail with TIMED_OUT when the timeout elapses", async () => {
+      vi.useFakeTimers();
+      const pending = await pendingBundleFetch();
+      const { SecureClient } = await import("../src/secure-client");
+      const client = new SecureClient({ baseURL: "https://test.example.com/", timeout: 5000 });
+
+      const assertion = expect(client.ready()).rejects.toMatchObject({ name: "AbortError", code: "TIMED_OUT" });
+      await vi.advanceTimersByTimeAsync(5000);
+      await assertion;
+      expect(pending.signal!.aborted).toBe(true);
+    });
+
+    it("should not send a request whose signal aborts during verification", async () => {
+      const pending = await pendingBundleFetch();
+      const { SecureClient } = await import("../src/secure-client");
+      const client = new SecureClient({ baseURL: "https://test.example.com/" });
+
+      const controller = new AbortController();
+      const response = client.fetch("/v1/models", { signal: controller.signal });
+      await vi.waitFor(() => expect(pending.signal).toBeDefined());
+      controller.abort();
+
+      await expect(response).rejects.toBeInstanceOf(MockAbortError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should not retry a request whose signal aborts during re-attestation", async () => {
+      const { SecureClient } = await import("../src/secure-client");
+      const { KeyConfigMismatchError } = await import("ehbp");
+      const client = new SecureClient({ baseURL: "https://test.example.com/" });
+      await client.ready();
+      const pending = await pendingBundleFetch();
+      mockFetch.mockRejectedValueOnce(new KeyConfigMismatchError("Key config mismatch"));
+
+      const controller = new AbortController();
+      const response = client.fetch("/v1/models", { signal: controller.signal });
+      await vi.waitFor(() => expect(pending.signal).toBeDefined());
+      controller.abort();
+
+      await expect(response).rejects.toBeInstanceOf(MockAbortError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      pending.release();
+      await client.ready();
+    });
+
+    it("should retry with the configured count and backoff", async () => {
+      vi.useFakeTimers();
+      const { FetchError } = await import("../src/verifier.js");
+      verifyMock
+        .mockRejectedValueOnce(new FetchError("first failure"))
+        .mockRejectedValueOnce(new FetchError("second failure"));
+
+      const { SecureClient } = await import("../src/secure-client");
+      const client = new SecureClient({
+        baseURL: "https://test.example.com/",
+        retry: { retries: 2, delay: retry => retry * 100 },
+      });
+
+      const ready = client.ready();
+      await vi.advanceTimersByTimeAsync(100);
+      expect(verifyMock).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(199);
+      expect(verifyMock).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(1);
+      await ready;
+      expect(verifyMock).toHaveBeenCalledTimes(3);
+    });
+
+    it("should not retry when retries is 0", async () => {
+      const { FetchError } = await import("../src/verifier.js");
+      verifyMock.mockRejectedValueOnce(new FetchError("network timeout"));
+
+      const { SecureClient } = await import("../src/secure-client");
+      const client = new SecureClient({ baseURL: "https://test.example.com/", retry: { retries: 0 } });
+
+      await expect(client.ready()).rejects.toThrow("network timeout");
+      expect(verifyMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe("constructor validation", () => {
+    it("should reject an invalid timeout or retry count", async () => {
+      const { SecureClient } = await import("../src/secure-client");
+
+      expect(() => new SecureClient({ timeout: 0 })).toThrow("timeout must be a positive number");
+      expect(() => new SecureClient({ retry: { retries: 1.5 } })).toThrow("retry.retries must be a non-negative integer");
+    });
+
     it("should throw ConfigurationError when configRepo is set without enclaveURL", async () => {
       const { SecureClient } = await import("../src/secure-client");
 
@@ -462,6 +668,7 @@ describe("SecureClient", () => {
         atcBaseUrl: undefined,
         enclaveURL: undefined,
         configRepo: undefined,
+        signal: expect.any(AbortSignal),
       });
     });
 
@@ -480,10 +687,93 @@ describe("SecureClient", () => {
         atcBaseUrl: undefined,
         enclaveURL: "https://my-enclave.example.com",
         configRepo: "custom/repo",
+        signal: expect.any(AbortSignal),
       });
     });
   });
 
+  describe("validation policy", () => {
+    it("should pass the policy to the Verifier", async () => {
+      const { SecureClient } = await import("../src/secure-client");
+      const policy = { minimumGuestSvn: 3, vmpl: 0 };
+      const client = new SecureClient({ policy });
+
+      await client.ready();
+
+      expect(verifierOptionsMock).toHaveBeenCalledWith(expect.objectContaining({ policy }));
+    });
+
+    it("should pass AMD trust anchors to the Verifier", async () => {
+      const { SecureClient } = await import("../src/secure-client");
+      const amdTrustedRoots = { Milan: { ark: "ark-pem", ask: "ask-pem" } };
+      const client = new SecureClient({ amdTrustedRoots });
+
+      await client.ready();
+
+      expect(verifierOptionsMock).toHaveBeenCalledWith(expect.objectContaining({ amdTrustedRoots }));
+    });
+  });
+
+  describe("events", () => {
+    it("should forward verifier step events", async () => {
+      const { SecureClient } = await import("../src/secure-client");
+      const client = new SecureClient({ baseURL: "https://test.example.com/" });
+      const onStep = vi.fn();
+      client.on("step", onStep);
+
+      await client.ready();
+      const event = { step: "verifyCode", state: { status: "success" }, durationMs: 5 };
+      verifierOptionsMock.mock.calls[0][0].onStep(event);
+
+      expect(onStep).toHaveBeenCalledWith(event);
+    });
+
+    it("should emit verified, then reattested on later verifications", async () => {
+      const { SecureClient } = await import("../src/secure-client");
+      const client = new SecureClient({ baseURL: "https://test.example.com/" });
+      const onVerified = vi.fn();
+      const onReattested = vi.fn();
+      client.on("verified", onVerified);
+      client.on("reattested", onReattested);
+
+      await client.ready();
+      expect(onVerified).toHaveBeenCalledWith(expect.objectContaining({ document: mockVerificationDocument }));
+      expect(onReattested).not.toHaveBeenCalled();
+
+      client.reset();
+      await client.ready();
+      expect(onVerified).toHaveBeenCalledTimes(2);
+      expect(onReattested).toHaveBeenCalledTimes(1);
+    });
+
+    it("should emit failed with the failed document", async () => {
+      verifyMock.mockRejectedValueOnce(new TypeError("unexpected bug"));
+
+      const { SecureClient } = await import("../src/secure-client");
+      const client = new SecureClient({ baseURL: "https://test.example.com/" });
+      const onFailed = vi.fn();
+      client.on("failed", onFailed);
+
+      await expect(client.ready()).rejects.toThrow("unexpected bug");
+      expect(onFailed).toHaveBeenCalledWith(expect.objectContaining({
+        error: expect.objectContaining({ message: "unexpected bug" }),
+        document: mockVerificationDocument,
+      }));
+    });
+
+    it("should stop calling a listener once removed", async () => {
+      const { SecureClient } = await import("../src/secure-client");
+      const client = new SecureClient({ baseURL: "https://test.example.com/" });
+      const onVerified = vi.fn();
+      const unsubscribe = client.on("verified", onVerified);
+
+      unsubscribe();
+      await client.ready();
+
+      expect(onVerified).not.toHaveBeenCalled();
+    });
+  });
+
   describe("KeyConfigMismatchError recovery", () => {
     it("should re-attest and retry on KeyConfigMismatchError", async () => {
       const { SecureClient } = await import("../src/secure-client");
@@ -509,6 +799,46 @@ describe("SecureClient", () => {
       expect(await response.json()).toEqual({ ok: true });
     });
 
+    it("should re-attest once for concurrent requests that see the rotation", async () => {
+      const { SecureClient } = await import("../src/secure-client");
+      const { KeyConfigMismatchError } = await import("ehbp");
+      const client = new SecureClient({ baseURL: "https://test.example.com/" });
+      const onKeyRotated = vi.fn();
+      client.on("keyRotated", onKeyRotated);
+      await client.ready();
+
+      mockFetch
+        .mockRejectedValueOnce(new KeyConfigMismatchError("Key config mismatch"))
+        .mockRejectedValueOnce(new KeyConfigMismatchError("Key config mismatch"))
+        .mockRejectedValueOnce(new KeyConfigMismatchError("Key config mismatch"));
+      await Promise.all([client.fetch("/a"), client.fetch("/b"), client.fetch("/c")]);
+
+      expect(verifyMock).toHaveBeenCalledTimes(2);
+      expect(createSecureFetchMock).toHaveBeenCalledTimes(2);
+      expect(onKeyRotated).toHaveBeenCalledTimes(1);
+      expect(onKeyRotated).toHaveBeenCalledWith(expect.objectContaining({ document: mockVerificationDocument }));
+    });
+
+    it("should not re-attest again for a request that failed on replaced keys", async () => {
+      const { SecureClient } = await import("../src/secure-client");
+      const { KeyConfigMismatchError } = await import("ehbp");
+      const client = new SecureClient({ baseURL: "https://test.example.com/" });
+      await client.ready();
+
+      let failSlowRequest!: (error: Error) => void;
+      mockFetch
+        .mockReturnValueOnce(new Promise<Response>((_, reject) => { failSlowRequest = reject; }))
+        .mockRejectedValueOnce(new KeyConfigMismatchError("Key config mismatch"));
+      const slow = client.fetch("/slow");
+      await client.fetch("/fast");
+      expect(verifyMock).toHaveBeenCalledTimes(2);
+
+      failSlowRequest(new KeyConfigMismatchError("Key config mismatch"));
+      await slow;
+
+      expect(verifyMock).toHaveBeenCalledTimes(2);
+    });
+
     it("should propagate non-KeyConfigMismatchError errors", async () => {
       const { SecureClient } = await import("../src/secure-client");
 
@@ -528,6 +858,271 @@ describe("SecureClient", () => {
     });
   });
 
+  describe("background re-attestation", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.unstubAllGlobals();
+      vi.restoreAllMocks();
+    });
+
+    it("should re-verify the same enclave and swap the transport", async () => {
+      const { fetchAttestationBundle } = await import("../src/atc.js");
+      const { SecureClient } = await import("../src/secure-client");
+      const client = new SecureClient({ reattestInterval: 60_000 });
+      const onReattested = vi.fn();
+      client.on("reattested", onReattested);
+
+      await client.ready();
+      await vi.advanceTimersByTimeAsync(60_000);
+
+      expect(verifyMock).toHaveBeenCalledTimes(2);
+      expect(createSecureFetchMock).toHaveBeenCalledTimes(2);
+      expect(fetchAttestationBundle).toHaveBeenLastCalledWith(expect.objectContaining({
+        enclaveURL: "https://test-router.tinfoil.sh",
+      }));
+      expect(onReattested).toHaveBeenCalledTimes(1);
+      expect(client.getEnclaveURL()).toBe("https://test-router.tinfoil.sh");
+    });
+
+    it("should keep serving with the verified transport when re-attestation fails", async () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const { AttestationError } = await import("../src/verifier.js");
+      const { SecureClient } = await import("../src/secure-client");
+      const client = new SecureClient({ baseURL: "https://test.example.com/", reattestInterval: 60_000 });
+      const onFailed = vi.fn();
+      client.on("failed", onFailed);
+
+      await client.ready();
+      verifyMock.mockRejectedValueOnce(new AttestationError("stale report"));
+      await vi.advanceTimersByTimeAsync(60_000);
+
+      expect(onFailed).toHaveBeenCalledTimes(1);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining("stale report"));
+      const response = await client.fetch("/test");
+      expect(await response.json()).toEqual({ message: "success" });
+      expect(verifyMock).toHaveBeenCalledTimes(2);
+
+      await vi.advanceTimersByTimeAsync(60_000);
+      expect(verifyMock).toHaveBeenCalledTimes(3);
+    });
+
+    it("should require a fresh attestation when failing closed", async () => {
+      const { AttestationError } = await import("../src/verifier.js");
+      const { SecureClient } = await import("../src/secure-client");
+      const client = new SecureClient({
+        baseURL: "https://test.example.com/",
+        reattestInterval: 60_000,
+        reattestFailurePolicy: "fail-closed",
+      });
+
+      await client.ready();
+      verifyMock.mockRejectedValueOnce(new AttestationError("stale report"));
+      await vi.advanceTimersByTimeAsync(60_000);
+
+      expect(client.getVerificationDocument().securityVerified).toBe(false);
+      await client.fetch("/test");
+      expect(verifyMock).toHaveBeenCalledTimes(3);
+    });
+
+    it("should stop re-attesting after reset()", async () => {
+      const { SecureClient } = await import("../src/secure-client");
+      const client = new SecureClient({ baseURL: "https://test.example.com/", reattestInterval: 60_000 });
+
+      await client.ready();
+      client.reset();
+      await vi.advanceTimersByTimeAsync(120_000);
+
+      expect(verifyMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("should wait while the page is hidden", async () => {
+      const page = Object.assign(new EventTarget(), { visibilityState: "hidden" });
+      vi.stubGlobal("document", page);
+      const { SecureClient } = await import("../src/secure-client");
+      const client = new SecureClient({ baseURL: "https://test.example.com/", reattestInterval: 60_000 });
+
+      await client.ready();
+      await vi.advanceTimersByTimeAsync(120_000);
+      expect(verifyMock).toHaveBeenCalledTimes(1);
+
+      page.visibilityState = "visible";
+      page.dispatchEvent(new Event("visibilitychange"));
+      await vi.advanceTimersByTimeAsync(0);
+      expect(verifyMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("should reject an invalid reattestInterval", async () => {
+      const { SecureClient } = await import("../src/secure-client");
+      expect(() => new SecureClient({ reattestInterval: 0 })).toThrow(/reattestInterval/);
+    });
+  });
+
+  describe("verification cache", () => {
+    const receipt = () => ({
+      verifiedAt: new Date().toISOString(),
+      bundle: { domain: "cached-router.tinfoil.sh" },
+      document: mockVerificationDocument,
+    });
+
+    it("should reuse a cached verification in a new client", async () => {
+      const { fetchAttestationBundle } = await import("../src/atc.js");
+      const { MemoryVerificationCache } = await import("../src/verification-cache");
+      const { SecureClient } = await import("../src/secure-client");
+      const cache = new MemoryVerificationCache();
+      receiptMock.mockReturnValueOnce(receipt());
+
+      await new SecureClient({ verificationCache: cache }).ready();
+      const client = new SecureClient({ verificationCache: cache });
+      await client.ready();
+
+      expect(fetchAttestationBundle).toHaveBeenCalledTimes(1);
+      expect(verifyMock).toHaveBeenCalledTimes(1);
+      expect(restoreReceiptMock).toHaveBeenCalledTimes(1);
+      expect(client.getEnclaveURL()).toBe("https://cached-router.tinfoil.sh");
+      expect(client.getVerificationReceipt()).toMatchObject({ bundle: { domain: "cached-router.tinfoil.sh" } });
+    });
+
+    it("should verify again once the cached verification expires", async () => {
+      const { MemoryVerificationCache } = await import("../src/verification-cache");
+      const { SecureClient } = await import("../src/secure-client");
+      const cache = new MemoryVerificationCache();
+      await cache.set(
+        "tinfoil:verification:tinfoilsh/confidential-model-router@https://atc.tinfoil.sh#{}",
+        JSON.stringify({ ...receipt(), verifiedAt: new Date(Date.now() - 10_000).toISOString() }),
+      );
+
+      await new SecureClient({ verificationCache: cache, verificationCacheTTL: 5_000 }).ready();
+
+      expect(restoreReceiptMock).not.toHaveBeenCalled();
+      expect(verifyMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("should fall back to full verification when the cached verification is rejected", async () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const { MemoryVerificationCache } = await import("../src/verification-cache");
+      const { SecureClient } = await import("../src/secure-client");
+      const cache = new MemoryVerificationCache();
+      receiptMock.mockReturnValueOnce(receipt());
+      await new SecureClient({ verificationCache: cache }).ready();
+      restoreReceiptMock.mockRejectedValueOnce(new Error("Receipt mismatch"));
+
+      await new SecureClient({ verificationCache: cache }).ready();
+
+      expect(verifyMock).toHaveBeenCalledTimes(2);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining("Receipt mismatch"));
+      warn.mockRestore();
+    });
+
+    it("should keep separate entries for clients with different policies", async () => {
+      const { MemoryVerificationCache } = await import("../src/verification-cache");
+      const { SecureClient } = await import("../src/secure-client");
+      const cache = new MemoryVerificationCache();
+      receiptMock.mockReturnValueOnce(receipt()).mockReturnValueOnce(receipt());
+
+      await new SecureClient({ verificationCache: cache, policy: { vmpl: 0 } }).ready();
+      await new SecureClient({ verificationCache: cache, policy: { vmpl: 1 } }).ready();
+      await new SecureClient({ verificationCache: cache, policy: { vmpl: 0 } }).ready();
+      await new SecureClient({ verificationCache: cache, policy: { vmpl: 1 } }).ready();
+
+      expect(verifyMock).toHaveBeenCalledTimes(2);
+      expect(restoreReceiptMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not reuse a cached verification for another enclave", async () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const { MemoryVerificationCache } = await import("../src/verification-cache");
+      const { SecureClient } = await import("../src/secure-client");
+      const cache = new MemoryVerificationCache();
+      const key = "tinfoil:verification:custom/repo@https://my-enclave.example.com#{}";
+      await cache.set(key, JSON.stringify(receipt()));
+
+      const client = new SecureClient({ enclaveURL: "https://my-enclave.example.com", configRepo: "custom/repo", verificationCache: cache });
+      await client.ready();
+
+      expect(restoreReceiptMock).not.toHaveBeenCalled();
+      expect(verifyMock).toHaveBeenCalledTimes(1);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining("Receipt is for cached-router.tinfoil.sh, not the configured enclave my-enclave.example.com"));
+      warn.mockRestore();
+    });
+
+    it("should invalidate the cached verification on key rotation", async () => {
+      const { MemoryVerificationCache } = await import("../src/verification-cache");
+      const { SecureClient } = await import("../src/secure-client");
+      const { KeyConfigMismatchError } = await import("ehbp");
+      const cache = new MemoryVerificationCache();
+      receiptMock.mockReturnValueOnce(receipt());
+      const client = new SecureClient({ verificationCache: cache });
+      await client.ready();
+
+      mockFetch
+        .mockRejectedValueOnce(new KeyConfigMismatchError("Key config mismatch"))
+        .mockResolvedValueOnce(new Response(JSON.stringify({ ok: true })));
+      await client.fetch("/test");
+
+      expect(restoreReceiptMock).not.toHaveBeenCalled();
+      expect(verifyMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("shared attestation", () => {
+    it("should not hand out session recovery tokens from a shared transport", async () => {
+      const { AttestationRegistry } = await import("../src/attestation-registry");
+      const { SecureClient } = await import("../src/secure-client");
+      const client = new SecureClient({ baseURL: "https://test.example.com/", sharedAttestation: new AttestationRegistry() });
+      await client.fetch("/test");
+
+      await expect(client.getSessionRecoveryToken()).rejects.toThrow(/not available with sharedAttestation/);
+      expect(mockGetSessionRecoveryToken).not.toHaveBeenCalled();
+    });
+
+    it("should share one verification and transport between alike clients", async () => {
+      const { AttestationRegistry } = await import("../src/attestation-registry");
+      const { SecureClient } = await import("../src/secure-client");
+      const registry = new AttestationRegistry();
+      const a = new SecureClient({ baseURL: "https://test.example.com/", sharedAttestation: registry });
+      const b = new SecureClient({ baseURL: "https://test.example.com/", sharedAttestation: registry });
+
+      await Promise.all([a.ready(), b.ready()]);
+
+      expect(verifyMock).toHaveBeenCalledTimes(1);
+      expect(createSecureFetchMock).toHaveBeenCalledTimes(1);
+      expect(b.getVerificationDocument()).toBe(a.getVerificationDocument());
+    });
+
+    it("should not share between clients with different policies", async () => {
+      const { AttestationRegistry } = await import("../src/attestation-registry");
+      const { SecureClient } = await import("../src/secure-client");
+      const registry = new AttestationRegistry();
+
+      await new SecureClient({ sharedAttestation: registry, policy: { vmpl: 0 } }).ready();
+      await new SecureClient({ sharedAttestation: registry, policy: { vmpl: 1 } }).ready();
+
+      expect(verifyMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("should re-attest once when shared clients see a key rotation", async () => {
+      const { AttestationRegistry } = await import("../src/attestation-registry");
+      const { SecureClient } = await import("../src/secure-client");
+      const { KeyConfigMismatchError } = await import("ehbp");
+      const registry = new AttestationRegistry();
+      const a = new SecureClient({ sharedAttestation: registry });
+      const b = new SecureClient({ sharedAttestation: registry });
+      await Promise.all([a.ready(), b.ready()]);
+
+      mockFetch
+        .mockRejectedValueOnce(new KeyConfigMismatchError("Key config mismatch"))
+        .mockRejectedValueOnce(new KeyConfigMismatchError("Key config mismatch"));
+      await Promise.all([a.fetch("/test"), b.fetch("/test")]);
+
+      expect(verifyMock).toHaveBeenCalledTimes(2);
+      expect(createSecureFetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe("URL resolution", () => {
     it("Case 1: no config — derives both URLs from bundle", async () => {
       const { SecureClient } = await import("../src/secure-client");
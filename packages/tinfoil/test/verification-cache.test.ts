@@ -0,0 +1,37 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { FileVerificationCache } from "../src/file-verification-cache";
+import { MemoryVerificationCache } from "../src/verification-cache";
+
+describe("verification caches", () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir) {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("stores, reads and deletes entries on disk", async () => {
+    dir = await mkdtemp(join(tmpdir(), "tinfoil-cache-"));
+    const cache = new FileVerificationCache(join(dir, "nested"));
+
+    expect(await cache.get("tinfoil:verification:repo@https://enclave")).toBeUndefined();
+    await cache.set("tinfoil:verification:repo@https://enclave", "{\"version\":1}");
+    expect(await new FileVerificationCache(join(dir, "nested")).get("tinfoil:verification:repo@https://enclave")).toBe("{\"version\":1}");
+
+    await cache.delete("tinfoil:verification:repo@https://enclave");
+    expect(await cache.get("tinfoil:verification:repo@https://enclave")).toBeUndefined();
+  });
+
+  it("keeps entries in memory", async () => {
+    const cache = new MemoryVerificationCache();
+
+    await cache.set("key", "value");
+    expect(await cache.get("key")).toBe("value");
+    await cache.delete("key");
+    expect(await cache.get("key")).toBeUndefined();
+  });
+});
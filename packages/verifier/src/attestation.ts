@@ -5,35 +5,153 @@ import { CertificateChain } from './sev/cert-chain.js';
 import { verifyAttestation as verifyAttestationInternal } from './sev/verify.js';
 import { bytesToHex } from './sev/utils.js';
 import { validateReport, defaultValidationOptions } from './sev/validation.js';
-import { AttestationError, wrapOrThrow } from './errors.js';
+import type { ValidationOptions, ValidationResult } from './sev/validation.js';
+import { TRUSTED_ROOTS } from './sev/certs.js';
+import { RevocationList, checkRevocation } from './sev/crl.js';
+import { parseCertTable } from './sev/cert-table.js';
+import type { AmdRootCerts } from './sev/certs.js';
+import { Quote } from './tdx/quote.js';
+import { PckCertificateChain } from './tdx/cert-chain.js';
+import { verifyQuote } from './tdx/verify.js';
+import { verifyCollateral } from './tdx/collateral.js';
+import type { TdxCollateral } from './tdx/collateral.js';
+import { validateQuote, defaultTdxValidationOptions } from './tdx/validation.js';
+import { AttestationError, wrapOrThrow, ErrorCode } from './errors.js';
+
+/**
+ * Platform-specific inputs to attestation verification.
+ */
+export interface AttestationVerificationOptions {
+  /** Intel PCS collateral, required to verify TDX quotes */
+  tdxCollateral?: TdxCollateral;
+  /** SEV-SNP validation policy. Defaults to {@link defaultValidationOptions} */
+  policy?: ValidationOptions;
+  /** AMD trust anchors keyed by product name, merged over the bundled anchors */
+  amdTrustedRoots?: Record<string, AmdRootCerts>;
+  /** PEM-encoded ASVK certificate for VLEK-signed reports, e.g. from the AMD KDS VLEK chain */
+  asvk?: string;
+  /** Base64-encoded AMD CRL (DER format) for the report's processor family, checked whenever present */
+  amdCrl?: string;
+  /** Fetches the base64-encoded AMD CRL when none is supplied and the policy requires a revocation check */
+  fetchAmdCrl?: (product: string, keyName: string) => Promise<string>;
+  /** Base64-encoded SNP extended-report certificate table returned with the report */
+  certTable?: string;
+  /** Instant at which certificates, CRLs and collateral must be valid. Defaults to now */
+  verificationTime?: Date;
+}
 
 /**
  * Checks the attestation document against its trust root
  * and returns the inner measurements.
  *
  * @param doc - The attestation document to verify
- * @param vcekBase64 - VCEK certificate in base64-encoded DER format
+ * @param vcekBase64 - VCEK or VLEK certificate in base64-encoded DER format, matching the report's signing key (unused for TDX)
+ * @param options - Platform-specific verification inputs
  * @returns The verification result
  * @throws Error if verification fails or format is unsupported
  */
-export async function verifyAttestation(doc: AttestationDocument, vcekBase64: string): Promise<AttestationResponse> {
+export async function verifyAttestation(
+  doc: AttestationDocument,
+  vcekBase64: string,
+  options: AttestationVerificationOptions = {},
+): Promise<AttestationResponse> {
   if (doc.format === PredicateType.SevGuestV2) {
-    return verifySevAttestationV2(doc.body, base64ToBytes(vcekBase64));
+    return verifySevAttestationV2(doc.body, base64ToBytes(vcekBase64), options);
+  } else if (doc.format === PredicateType.TdxGuestV2) {
+    if (!options.tdxCollateral) {
+      throw new AttestationError('Missing TDX collateral: Intel TCB info and QE identity are required to verify a TDX quote', { code: ErrorCode.MissingEvidence });
+    }
+    return verifyTdxAttestationV2(doc.body, options.tdxCollateral, options.verificationTime);
   } else {
-    throw new AttestationError(`Unsupported attestation document format: "${doc.format}". Only SEV-SNP Guest V2 format is supported`);
+    throw new AttestationError(`Unsupported attestation document format: "${doc.format}". Only SEV-SNP Guest V2 and TDX Guest V2 formats are supported`, { code: ErrorCode.MalformedEvidence });
   }
 }
 
+/**
+ * Verify TDX attestation document and return verification result.
+ *
+ * @param attestationDoc - Base64 encoded, gzip compressed TDX quote
+ * @param collateral - Intel PCS collateral for the quote's platform
+ * @param now - Instant at which certificates and collateral must be valid
+ * @returns Verification result with MRTD and RTMR0-3 registers
+ * @throws Error if verification fails
+ */
+async function verifyTdxAttestationV2(attestationDoc: string, collateral: TdxCollateral, now?: Date): Promise<AttestationResponse> {
+  const quote = await verifyTdxQuote(attestationDoc, collateral, now);
+
+  const measurement = {
+    type: PredicateType.TdxGuestV2,
+    registers: [bytesToHex(quote.mrTd), ...quote.rtmrHex],
+  };
+
+  const keys = quote.reportData;
+  const tlsKeyFp = bytesToHex(keys.slice(0, 32));
+  const hpkePublicKey = bytesToHex(keys.slice(32, 64));
+
+  return {
+    measurement,
+    tlsPublicKeyFingerprint: tlsKeyFp,
+    hpkePublicKey,
+  };
+}
+
+/**
+ * Verify a TDX quote and its collateral.
+ *
+ * @param attestationDoc - Base64 encoded, gzip compressed TDX quote
+ * @param collateral - Intel PCS collateral for the quote's platform
+ * @param now - Instant at which certificates and collateral must be valid
+ * @returns The parsed and verified quote
+ * @throws Error if verification fails
+ */
+async function verifyTdxQuote(attestationDoc: string, collateral: TdxCollateral, now: Date = new Date()): Promise<Quote> {
+  let quoteBytes: Uint8Array;
+  try {
+    quoteBytes = await decompressGzip(base64ToBytes(attestationDoc));
+  } catch (e) {
+    throw new AttestationError('Failed to decode TDX attestation document: Invalid base64 or gzip encoding', { cause: e as Error, code: ErrorCode.MalformedEvidence });
+  }
+
+  let quote: Quote;
+  let chain: PckCertificateChain;
+  try {
+    quote = new Quote(quoteBytes);
+    chain = PckCertificateChain.fromPem(quote.pckCertChain);
+  } catch (e) {
+    wrapOrThrow(e, AttestationError, 'Failed to parse TDX quote', ErrorCode.MalformedEvidence);
+  }
+
+  try {
+    await verifyQuote(chain, quote, now);
+  } catch (e) {
+    wrapOrThrow(e, AttestationError, 'TDX quote cryptographic verification failed');
+  }
+
+  try {
+    const verifiedCollateral = await verifyCollateral(collateral, now);
+    validateQuote(quote, chain.extension, verifiedCollateral, defaultTdxValidationOptions);
+  } catch (e) {
+    wrapOrThrow(e, AttestationError, 'TDX quote policy validation failed', ErrorCode.PolicyViolation);
+  }
+
+  return quote;
+}
+
 /**
  * Verify SEV attestation document and return verification result.
  *
  * @param attestationDoc - Base64 encoded attestation document
- * @param vcekDer - Optional pre-fetched VCEK certificate in DER format
+ * @param vcekDer - Pre-fetched VCEK or VLEK certificate in DER format
+ * @param options - SEV-SNP validation policy and trust anchors
  * @returns Verification result
  * @throws Error if verification fails
  */
-async function verifySevAttestationV2(attestationDoc: string, vcekDer: Uint8Array): Promise<AttestationResponse> {
-  const report = await verifySevReport(attestationDoc, true, vcekDer);
+async function verifySevAttestationV2(
+  attestationDoc: string,
+  vcekDer: Uint8Array,
+  options: AttestationVerificationOptions,
+): Promise<AttestationResponse> {
+  const { report, provisionalFirmware } = await verifySevReport(attestationDoc, true, vcekDer, options);
 
   const measurement = {
     type: PredicateType.SevGuestV2,
@@ -48,6 +166,7 @@ async function verifySevAttestationV2(attestationDoc: string, vcekDer: Uint8Arra
     measurement,
     tlsPublicKeyFingerprint: tlsKeyFp,
     hpkePublicKey,
+    provisionalFirmware,
   };
 }
 
@@ -56,16 +175,22 @@ async function verifySevAttestationV2(attestationDoc: string, vcekDer: Uint8Arra
  *
  * @param attestationDoc - Base64 encoded attestation document
  * @param isCompressed - Whether the document is gzip compressed
- * @param vcekDer - Optional pre-fetched VCEK certificate in DER format
- * @returns The parsed and verified report
+ * @param vcekDer - Pre-fetched VCEK or VLEK certificate in DER format
+ * @param options - SEV-SNP validation policy and trust anchors
+ * @returns The parsed and verified report, and whether it came from provisional firmware
  * @throws Error if verification fails
  */
-async function verifySevReport(attestationDoc: string, isCompressed: boolean, vcekDer: Uint8Array): Promise<Report> {
+async function verifySevReport(
+  attestationDoc: string,
+  isCompressed: boolean,
+  vcekDer: Uint8Array,
+  options: AttestationVerificationOptions,
+): Promise<{ report: Report; provisionalFirmware: boolean }> {
   let attDocBytes: Uint8Array;
   try {
     attDocBytes = base64ToBytes(attestationDoc);
   } catch (e) {
-    throw new AttestationError('Failed to decode attestation document: Invalid base64 encoding', { cause: e as Error });
+    throw new AttestationError('Failed to decode attestation document: Invalid base64 encoding', { cause: e as Error, code: ErrorCode.MalformedEvidence });
   }
 
   if (isCompressed) {
@@ -76,29 +201,49 @@ async function verifySevReport(attestationDoc: string, isCompressed: boolean, vc
   try {
     report = new Report(attDocBytes);
   } catch (e) {
-    throw new AttestationError('Failed to parse SEV-SNP attestation report', { cause: e as Error });
+    throw new AttestationError('Failed to parse SEV-SNP attestation report', { cause: e as Error, code: ErrorCode.MalformedEvidence });
   }
 
-  const chain = await CertificateChain.fromReport(report, vcekDer);
+  const chain = await CertificateChain.fromReport(report, vcekDer, { ...TRUSTED_ROOTS, ...options.amdTrustedRoots }, options.asvk);
 
   let res: boolean;
   try {
-    res = await verifyAttestationInternal(chain, report);
+    res = await verifyAttestationInternal(chain, report, options.verificationTime);
   } catch (e) {
     wrapOrThrow(e, AttestationError, 'Attestation cryptographic verification failed');
   }
 
   if (!res) {
-    throw new AttestationError('Attestation verification failed: Report signature or certificate chain is invalid');
+    throw new AttestationError('Attestation verification failed: Report signature or certificate chain is invalid', { code: ErrorCode.SignatureInvalid });
+  }
+
+  const policy = options.policy ?? defaultValidationOptions;
+
+  // Check a supplied CRL, or fetch one when the policy requires a revocation check
+  let crl = options.amdCrl;
+  if (!crl && policy.checkRevocations) {
+    if (!options.fetchAmdCrl) {
+      throw new AttestationError('Missing AMD CRL: The validation policy requires a revocation check but no CRL was supplied', { code: ErrorCode.MissingEvidence });
+    }
+    crl = await options.fetchAmdCrl(chain.productName, chain.keyName);
+  }
+  if (crl) {
+    try {
+      await checkRevocation(chain, new RevocationList(base64ToBytes(crl)), options.verificationTime);
+    } catch (e) {
+      wrapOrThrow(e, AttestationError, 'AMD certificate revocation check failed');
+    }
   }
 
+  let result: ValidationResult;
   try {
-    validateReport(report, chain, defaultValidationOptions);
+    const certTable = options.certTable ? parseCertTable(base64ToBytes(options.certTable)) : undefined;
+    result = await validateReport(report, chain, policy, certTable);
   } catch (e) {
-    wrapOrThrow(e, AttestationError, 'Attestation policy validation failed');
+    wrapOrThrow(e, AttestationError, 'Attestation policy validation failed', ErrorCode.PolicyViolation);
   }
 
-  return report;
+  return { report, provisionalFirmware: result.provisionalFirmware };
 }
 
 export function base64ToBytes(base64: string): Uint8Array {
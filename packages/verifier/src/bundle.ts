@@ -5,71 +5,170 @@
 
 import { base64ToBytes, decompressGzip } from './attestation.js';
 import { Report } from './sev/report.js';
-import { tcbFromInt, bytesToHex } from './sev/utils.js';
-import { AttestationError, FetchError, wrapOrThrow } from './errors.js';
+import { tcbFromInt, vcekHwid, bytesToHex } from './sev/utils.js';
+import { ReportSigner } from './sev/constants.js';
+import { parseCertTable, CertTableGuid } from './sev/cert-table.js';
+import { fromDER } from '@freedomofpress/crypto-browser';
+import { Quote } from './tdx/quote.js';
+import { PckCertificateChain } from './tdx/cert-chain.js';
+import { rawJsonMember, type TdxCollateral } from './tdx/collateral.js';
+import { AttestationError, FetchError, wrapOrThrow, ErrorCode, throwIfAborted, toAbortError } from './errors.js';
+import { DEFAULT_HARDWARE_REPO } from './hardware.js';
 import { PredicateType } from './types.js';
 import type { AttestationBundle, AttestationDocument } from './types.js';
+import { selectSigstoreBundle } from './sigstore.js';
+import type { SigstoreIdentityPolicy } from './sigstore.js';
+import type { TrustedRoot } from '@freedomofpress/sigstore-browser';
 
 const GITHUB_PROXY = 'https://github-proxy.tinfoil.sh';
 const KDS = 'https://kds-proxy.tinfoil.sh';
+const INTEL_PCS = 'https://pcs-proxy.tinfoil.sh';
+
+/**
+ * Options for assembling an attestation bundle.
+ */
+export interface AssembleBundleOptions {
+  /** Release of configRepo to fetch the digest for. Defaults to the latest release */
+  releaseTag?: string;
+  /** Certificate identity configRepo's attestation must be signed with */
+  identityPolicy?: SigstoreIdentityPolicy;
+  /** Sigstore trusted root for verifying attestations; defaults to the bundled snapshot */
+  trustedRoot?: TrustedRoot;
+  /** Fetch the AMD CRL into the bundle, for policies that check revocations */
+  checkRevocations?: boolean;
+  /** Cancels the fetches, including retries, with an AbortError */
+  signal?: AbortSignal;
+}
 
 /**
  * Assemble a complete attestation bundle by fetching all components
  * directly from the enclave and public infrastructure.
  * Each network call is retried up to 2 times on transient failure.
  *
+ * A release digest may have several GitHub attestations (e.g. SBOM or SLSA
+ * provenance besides the measurements); each is verified and the first one
+ * with a supported measurement predicate is used. The others are reported in
+ * `rejectedAttestations`.
+ *
  * @throws FetchError on I/O failure (after retries)
- * @throws AttestationError if the attestation report cannot be parsed
+ * @throws AttestationError if the attestation report cannot be parsed or no attestation is usable
+ * @throws AbortError if `options.signal` is aborted
  */
 export async function assembleAttestationBundle(
   enclaveHost: string,
   configRepo: string,
+  hardwareRepo: string = DEFAULT_HARDWARE_REPO,
+  options: AssembleBundleOptions = {},
 ): Promise<AttestationBundle> {
+  const { signal } = options;
 
   // 1. Fetch independent resources in parallel
-  const [attestation, digest, enclaveCert] = await Promise.all([
-    withRetry(async (): Promise<AttestationDocument> => {
-      const doc = await fetchJson(`https://${enclaveHost}/.well-known/tinfoil-attestation`);
-      return { format: doc.format as PredicateType, body: doc.body };
-    }),
+  const [{ attestation, vlek, certTable }, digest, enclaveCert] = await Promise.all([
     withRetry(async () => {
-      const { tag_name } = await fetchJson(`${GITHUB_PROXY}/repos/${configRepo}/releases/latest`);
-      return (await fetchText(`${GITHUB_PROXY}/${configRepo}/releases/download/${tag_name}/tinfoil.hash`)).trim();
-    }),
+      const doc = await fetchJson(`https://${enclaveHost}/.well-known/tinfoil-attestation`, signal);
+      // The AMD KDS only issues per-chip VCEKs, so hosts with VLEK-signed
+      // reports serve their provider's VLEK alongside the report. SEV-SNP hosts
+      // may also return the extended report's certificate table.
+      const attestation: AttestationDocument = { format: doc.format as PredicateType, body: doc.body };
+      return { attestation, vlek: doc.vlek as string | undefined, certTable: doc.certTable as string | undefined };
+    }, signal),
+    fetchReleaseDigest(configRepo, options.releaseTag, signal),
     withRetry(async () => {
-      const data = await fetchJson(`https://${enclaveHost}/.well-known/tinfoil-certificate`);
+      const data = await fetchJson(`https://${enclaveHost}/.well-known/tinfoil-certificate`, signal);
       return data.certificate as string;
-    }),
+    }, signal),
   ]);
 
-  // 2. Fetch Sigstore bundle (needs digest)
-  const sigstoreBundle = await withRetry(async () => {
-    const data = await fetchJson(`${GITHUB_PROXY}/repos/${configRepo}/attestations/sha256:${digest}`);
-    if (!data.attestations?.[0]?.bundle) {
-      throw new FetchError(`No Sigstore bundle for ${configRepo} at digest ${digest}`);
-    }
-    return data.attestations[0].bundle;
-  });
+  // 2. Fetch and select the Sigstore bundle (needs digest)
+  const { bundle: sigstoreBundle, rejected } = await fetchSigstoreBundle(
+    configRepo, digest, [PredicateType.SnpTdxMultiplatformV1], options.trustedRoot, options.identityPolicy, signal,
+  );
+
+  if (attestation.format === PredicateType.TdxGuestV2) {
+    // TDX: fetch Intel PCS collateral instead of a VCEK (needs the quote's PCK certificate),
+    // and the hardware measurements registry for the platform's firmware
+    const [tdxCollateral, hardware] = await Promise.all([
+      fetchTdxCollateral(attestation, signal),
+      (async () => {
+        const hardwareDigest = await fetchReleaseDigest(hardwareRepo, undefined, signal);
+        const { bundle, rejected } = await fetchSigstoreBundle(
+          hardwareRepo, hardwareDigest, [PredicateType.HardwareMeasurementsV1], options.trustedRoot, undefined, signal,
+        );
+        return { hardwareDigest, hardwareSigstoreBundle: bundle, rejected };
+      })(),
+    ]);
+    return {
+      domain: enclaveHost,
+      enclaveAttestationReport: attestation,
+      digest,
+      sigstoreBundle,
+      vcek: '',
+      tdxCollateral,
+      hardwareDigest: hardware.hardwareDigest,
+      hardwareSigstoreBundle: hardware.hardwareSigstoreBundle,
+      enclaveCert,
+      rejectedAttestations: [...rejected, ...hardware.rejected],
+    };
+  }
 
   // 3. Parse attestation report
   let report: Report;
   try {
     report = new Report(await decompressGzip(base64ToBytes(attestation.body)));
   } catch (e) {
-    wrapOrThrow(e, AttestationError, 'Failed to parse attestation report');
+    wrapOrThrow(e, AttestationError, 'Failed to parse attestation report', ErrorCode.MalformedEvidence);
   }
 
-  // 4. Fetch VCEK certificate from AMD KDS (needs parsed report)
-  const vcek = await withRetry(async () => {
-    const tcb = tcbFromInt(report.reportedTcb);
-    const chip = bytesToHex(report.chipId);
-    const der = await fetchBinary(
-      `${KDS}/vcek/v1/${report.productName}/${chip}?blSPL=${tcb.blSpl}&teeSPL=${tcb.teeSpl}&snpSPL=${tcb.snpSpl}&ucodeSPL=${tcb.ucodeSpl}`,
-    );
-    let bin = '';
-    for (let i = 0; i < der.length; i++) bin += String.fromCharCode(der[i]);
-    return btoa(bin);
-  });
+  // The AMD CRL is only fetched for policies that check revocations
+  const fetchCrl = (keyName: string) =>
+    options.checkRevocations ? fetchAmdCrl(report.productName, keyName, signal) : Promise.resolve(undefined);
+
+  // 4. Parse the certificate table; its certificates are used in place of KDS
+  // requests, and are verified against the trust anchors like fetched ones
+  let table: Map<string, Uint8Array> | undefined;
+  if (certTable) {
+    try {
+      table = parseCertTable(base64ToBytes(certTable));
+    } catch (e) {
+      wrapOrThrow(e, AttestationError, 'Failed to parse certificate table', ErrorCode.MalformedEvidence);
+    }
+  }
+
+  // 5. VLEK-signed reports: fetch the ASVK that issued the VLEK, and CRL if required, from AMD KDS
+  if (report.signerInfoParsed.signingKey === ReportSigner.VlekReportSigner) {
+    const tableVlek = table?.get(CertTableGuid.VLEK);
+    const vlekCert = tableVlek ? bytesToBase64(tableVlek) : vlek;
+    if (!vlekCert) {
+      throw new AttestationError('Missing VLEK certificate: The enclave returned a VLEK-signed report without its VLEK certificate', { code: ErrorCode.MissingEvidence });
+    }
+    const tableAsvk = table?.get(CertTableGuid.ASK);
+    const [asvk, amdCrl] = await Promise.all([
+      tableAsvk ? fromDER(tableAsvk) : withRetry(() => fetchAsvk(report.productName, signal), signal),
+      fetchCrl('VLEK'),
+    ]);
+    return {
+      domain: enclaveHost,
+      enclaveAttestationReport: attestation,
+      digest,
+      sigstoreBundle,
+      vcek: '',
+      vlek: vlekCert,
+      asvk,
+      amdCrl,
+      certTable,
+      enclaveCert,
+      rejectedAttestations: rejected,
+    };
+  }
+
+  // 6. Fetch VCEK certificate, and CRL if required, from AMD KDS (needs parsed report)
+  const tableVcek = table?.get(CertTableGuid.VCEK);
+  const [vcek, amdCrl] = await Promise.all([
+    tableVcek ? bytesToBase64(tableVcek) : withRetry(async () => {
+      return bytesToBase64(await fetchBinary(vcekUrl(report), signal));
+    }, signal),
+    fetchCrl('VCEK'),
+  ]);
 
   return {
     domain: enclaveHost,
@@ -77,51 +176,226 @@ export async function assembleAttestationBundle(
     digest,
     sigstoreBundle,
     vcek,
+    amdCrl,
+    certTable,
     enclaveCert,
+    rejectedAttestations: rejected,
+  };
+}
+
+/**
+ * AMD KDS URL of the VCEK for a report's chip and reported TCB.
+ * Turin VCEKs are keyed by an 8-byte hardware ID and also take the FMC SPL.
+ *
+ * @param report - Parsed attestation report
+ * @returns The KDS URL of the VCEK certificate
+ */
+export function vcekUrl(report: Report): string {
+  const tcb = tcbFromInt(report.reportedTcb, report.productName);
+  const hwid = bytesToHex(vcekHwid(report.chipId, report.productName));
+  const fmc = tcb.fmcSpl === undefined ? '' : `fmcSPL=${tcb.fmcSpl}&`;
+  return `${KDS}/vcek/v1/${report.productName}/${hwid}?${fmc}blSPL=${tcb.blSpl}&teeSPL=${tcb.teeSpl}&snpSPL=${tcb.snpSpl}&ucodeSPL=${tcb.ucodeSpl}`;
+}
+
+/**
+ * Fetch the AMD KDS CRL for a processor family and endorsement key type.
+ * The CRL is returned unverified; it is checked against the ARK during
+ * verification. It is not cached, so a bad response cannot outlive the
+ * verification it was fetched for.
+ *
+ * @param product - Processor family, e.g. "Genoa"
+ * @param keyName - "VCEK" or "VLEK"
+ * @param signal - Cancels the fetch with an AbortError
+ * @returns The base64-encoded CRL (DER format)
+ * @throws FetchError on I/O failure (after retries)
+ */
+export async function fetchAmdCrl(product: string, keyName: string, signal?: AbortSignal): Promise<string> {
+  const url = `${KDS}/${keyName.toLowerCase()}/v1/${product}/crl`;
+  return bytesToBase64(await withRetry(() => fetchBinary(url, signal), signal));
+}
+
+/**
+ * Fetch the digest published with a release of a repo.
+ *
+ * @param repo - GitHub repo, e.g. "tinfoilsh/confidential-model-router"
+ * @param tag - Release tag. Defaults to the latest release
+ * @param signal - Cancels the fetch with an AbortError
+ * @returns The release's tinfoil.hash digest
+ * @throws FetchError on I/O failure (after retries)
+ */
+export async function fetchReleaseDigest(repo: string, tag?: string, signal?: AbortSignal): Promise<string> {
+  return withRetry(async () => {
+    const tagName = tag ?? (await fetchJson(`${GITHUB_PROXY}/repos/${repo}/releases/latest`, signal)).tag_name;
+    return (await fetchText(`${GITHUB_PROXY}/${repo}/releases/download/${tagName}/tinfoil.hash`, signal)).trim();
+  }, signal);
+}
+
+/**
+ * Fetch all Sigstore bundles attesting to a release digest and select the
+ * one carrying a supported predicate (see {@link selectSigstoreBundle}).
+ */
+async function fetchSigstoreBundle(
+  repo: string,
+  digest: string,
+  predicateTypes: string[],
+  trustedRoot?: TrustedRoot,
+  identityPolicy?: SigstoreIdentityPolicy,
+  signal?: AbortSignal,
+): ReturnType<typeof selectSigstoreBundle> {
+  const data = await withRetry(() => fetchJson(`${GITHUB_PROXY}/repos/${repo}/attestations/sha256:${digest}`, signal), signal);
+  const bundles = ((data.attestations ?? []) as { bundle?: unknown }[]).map(a => a.bundle).filter(b => b !== undefined);
+  if (bundles.length === 0) {
+    throw new FetchError(`No Sigstore bundle for ${repo} at digest ${digest}`);
+  }
+  return selectSigstoreBundle(bundles, digest, repo, predicateTypes, trustedRoot, identityPolicy);
+}
+
+/**
+ * Fetch the ASVK for a processor family. AMD KDS serves the VLEK chain as
+ * concatenated PEM certificates, ASVK first and ARK last; the ARK is not
+ * taken from here, the bundled trust anchor is used instead.
+ */
+async function fetchAsvk(product: string, signal?: AbortSignal): Promise<string> {
+  const url = `${KDS}/vlek/v1/${product}/cert_chain`;
+  const pem = (await fetchText(url, signal)).match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/);
+  if (!pem) {
+    throw new FetchError(`Invalid response from ${url}: Missing ASVK certificate`, { code: ErrorCode.InvalidResponse });
+  }
+  return pem[0];
+}
+
+/**
+ * Fetch the TCB info and QE identity for the platform that produced a TDX quote.
+ */
+async function fetchTdxCollateral(attestation: AttestationDocument, signal?: AbortSignal): Promise<TdxCollateral> {
+  let fmspc: string;
+  try {
+    const quote = new Quote(await decompressGzip(base64ToBytes(attestation.body)));
+    fmspc = bytesToHex(PckCertificateChain.fromPem(quote.pckCertChain).extension.fmspc);
+  } catch (e) {
+    wrapOrThrow(e, AttestationError, 'Failed to parse TDX quote', ErrorCode.MalformedEvidence);
+  }
+
+  const [tcbInfo, qeIdentity] = await Promise.all([
+    withRetry(() => fetchSignedCollateral(
+      `${INTEL_PCS}/tdx/certification/v4/tcb?fmspc=${fmspc}`, 'tcbInfo', 'TCB-Info-Issuer-Chain', signal,
+    ), signal),
+    withRetry(() => fetchSignedCollateral(
+      `${INTEL_PCS}/tdx/certification/v4/qe/identity`, 'enclaveIdentity', 'SGX-Enclave-Identity-Issuer-Chain', signal,
+    ), signal),
+  ]);
+
+  return {
+    tcbInfo: tcbInfo.body,
+    tcbInfoSignature: tcbInfo.signature,
+    tcbInfoIssuerChain: tcbInfo.issuerChain,
+    qeIdentity: qeIdentity.body,
+    qeIdentitySignature: qeIdentity.signature,
+    qeIdentityIssuerChain: qeIdentity.issuerChain,
   };
 }
 
+/**
+ * Fetch a signed Intel PCS document. Intel signs the inner object's text as
+ * served, so it is cut out of the response body rather than re-serialized.
+ * The signing chain is returned URL-encoded in a response header.
+ */
+async function fetchSignedCollateral(
+  url: string,
+  key: string,
+  issuerChainHeader: string,
+  signal?: AbortSignal,
+): Promise<{ body: string; signature: string; issuerChain: string }> {
+  try {
+    const response = await fetchOk(url, signal);
+    const issuerChain = response.headers.get(issuerChainHeader);
+    if (!issuerChain) {
+      throw new FetchError(`Missing ${issuerChainHeader} header: ${url}`, { code: ErrorCode.InvalidResponse });
+    }
+    const text = await response.text();
+    const data = JSON.parse(text);
+    const body = data[key] ? rawJsonMember(text, key) : undefined;
+    if (!body || typeof data.signature !== 'string') {
+      throw new FetchError(`Invalid response from ${url}: Missing ${key} or signature`, { code: ErrorCode.InvalidResponse });
+    }
+    return {
+      body,
+      signature: data.signature,
+      issuerChain: decodeURIComponent(issuerChain),
+    };
+  } catch (e) {
+    wrapOrThrow(e, FetchError, `Invalid response from ${url}`, ErrorCode.InvalidResponse);
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Retry and typed fetch helpers
 // ---------------------------------------------------------------------------
 
 const MAX_RETRIES = 2;
 
-/** Retry on transient FetchError with exponential backoff (0.5s, 1s, 2s). */
-async function withRetry<T>(fn: () => Promise<T>): Promise<T> {
+/**
+ * Retry on transient FetchError with exponential backoff (0.5s, 1s, 2s).
+ * Once the signal is aborted, any failure is reported as its AbortError.
+ */
+async function withRetry<T>(fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
   for (let i = 0; i <= MAX_RETRIES; i++) {
     try { return await fn(); }
-    catch (e) { if (i === MAX_RETRIES || !(e instanceof FetchError)) throw e; }
-    await new Promise(r => setTimeout(r, 500 * Math.pow(2, i)));
+    catch (e) {
+      throwIfAborted(signal);
+      if (i === MAX_RETRIES || !(e instanceof FetchError)) throw e;
+    }
+    await delay(500 * Math.pow(2, i), signal);
   }
   throw new Error('unreachable');
 }
 
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(toAbortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
 /** Fetch a URL, throwing FetchError on non-OK or network failure. */
-async function fetchOk(url: string): Promise<Response> {
+async function fetchOk(url: string, signal?: AbortSignal): Promise<Response> {
   let response: Response;
   try {
-    response = await fetch(url);
+    response = await (signal ? fetch(url, { signal }) : fetch(url));
   } catch (e) {
-    throw new FetchError(`Network error: ${url}`, { cause: e as Error });
+    throwIfAborted(signal);
+    throw new FetchError(`Network error: ${url}`, { cause: e as Error, code: ErrorCode.NetworkError });
   }
   if (!response.ok) {
-    throw new FetchError(`HTTP ${response.status}: ${url}`);
+    throw new FetchError(`HTTP ${response.status}: ${url}`, { code: ErrorCode.HttpError });
   }
   return response;
 }
 
-async function fetchJson<T = any>(url: string): Promise<T> {
-  try { return await (await fetchOk(url)).json(); }
-  catch (e) { wrapOrThrow(e, FetchError, `Invalid response from ${url}`); }
+async function fetchJson<T = any>(url: string, signal?: AbortSignal): Promise<T> {
+  try { return await (await fetchOk(url, signal)).json(); }
+  catch (e) { throwIfAborted(signal); wrapOrThrow(e, FetchError, `Invalid response from ${url}`, ErrorCode.InvalidResponse); }
+}
+
+async function fetchText(url: string, signal?: AbortSignal): Promise<string> {
+  try { return await (await fetchOk(url, signal)).text(); }
+  catch (e) { throwIfAborted(signal); wrapOrThrow(e, FetchError, `Invalid response from ${url}`, ErrorCode.InvalidResponse); }
 }
 
-async function fetchText(url: string): Promise<string> {
-  try { return await (await fetchOk(url)).text(); }
-  catch (e) { wrapOrThrow(e, FetchError, `Invalid response from ${url}`); }
+async function fetchBinary(url: string, signal?: AbortSignal): Promise<Uint8Array> {
+  try { return new Uint8Array(await (await fetchOk(url, signal)).arrayBuffer()); }
+  catch (e) { throwIfAborted(signal); wrapOrThrow(e, FetchError, `Invalid response from ${url}`, ErrorCode.InvalidResponse); }
 }
 
-async function fetchBinary(url: string): Promise<Uint8Array> {
-  try { return new Uint8Array(await (await fetchOk(url)).arrayBuffer()); }
-  catch (e) { wrapOrThrow(e, FetchError, `Invalid response from ${url}`); }
+function bytesToBase64(bytes: Uint8Array): string {
+  let bin = '';
+  for (let i = 0; i < bytes.length; i++) bin += String.fromCharCode(bytes[i]);
+  return btoa(bin);
 }
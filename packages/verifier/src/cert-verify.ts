@@ -12,7 +12,7 @@ import { ASN1Obj } from '@freedomofpress/crypto-browser';
 import { decodeDomains, bytesToHex } from './dcode.js';
 import { hashAttestationDocument } from './types.js';
 import type { AttestationDocument } from './types.js';
-import { AttestationError } from './errors.js';
+import { AttestationError, ErrorCode } from './errors.js';
 
 /**
  * Extract DNS names from Subject Alternative Name extension
@@ -87,6 +87,7 @@ export interface CertVerificationResult {
  * @param expectedDomain - Expected domain name
  * @param attestationDoc - Attestation document to verify hash against
  * @param expectedHpkeKey - Expected HPKE public key (hex)
+ * @param verificationTime - If set, the certificate must be valid at this instant
  * @returns Verification result with extracted values
  * @throws AttestationError if certificate parsing or decoding fails
  * @throws AttestationError if certificate values don't match expected values
@@ -95,7 +96,8 @@ export async function verifyCertificate(
   certPem: string,
   expectedDomain: string,
   attestationDoc: AttestationDocument,
-  expectedHpkeKey: string
+  expectedHpkeKey: string,
+  verificationTime?: Date
 ): Promise<CertVerificationResult> {
   // 1. Parse PEM certificate
   let cert: X509Certificate;
@@ -104,27 +106,37 @@ export async function verifyCertificate(
   } catch (error) {
     throw new AttestationError(
       `Failed to parse enclave TLS certificate: ${(error as Error).message}`,
-      { cause: error as Error }
+      { cause: error as Error, code: ErrorCode.EnclaveCertificateInvalid }
+    );
+  }
+
+  // Live verification does not check the validity period: the certificate
+  // only carries the attested keys, which the attestation report binds
+  if (verificationTime && !cert.validForDate(verificationTime)) {
+    throw new AttestationError(
+      `Enclave TLS certificate was not valid at ${verificationTime.toISOString()} (valid ${cert.notBefore.toISOString()} to ${cert.notAfter.toISOString()})`,
+      { code: ErrorCode.EnclaveCertificateInvalid }
     );
   }
 
   // 2. Extract SANs
   const sans = extractSANs(cert);
   if (sans.length === 0) {
-    throw new AttestationError('Invalid enclave certificate: No Subject Alternative Names found');
+    throw new AttestationError('Invalid enclave certificate: No Subject Alternative Names found', { code: ErrorCode.EnclaveCertificateInvalid });
   }
 
   // 3. Verify domain
   if (!domainMatchesSans(sans, expectedDomain)) {
     throw new AttestationError(
-      `Certificate domain mismatch: Certificate is not valid for "${expectedDomain}"`
+      `Certificate domain mismatch: Certificate is not valid for "${expectedDomain}"`,
+      { code: ErrorCode.EnclaveCertificateInvalid }
     );
   }
 
   // 4. Extract and verify HPKE key
   const hpkeSans = sans.filter(s => s.includes('.hpke.'));
   if (hpkeSans.length === 0) {
-    throw new AttestationError('Invalid enclave certificate: No HPKE key embedded in Subject Alternative Names');
+    throw new AttestationError('Invalid enclave certificate: No HPKE key embedded in Subject Alternative Names', { code: ErrorCode.EnclaveCertificateInvalid });
   }
   
   let hpkeKeyBytes: Uint8Array;
@@ -133,21 +145,22 @@ export async function verifyCertificate(
   } catch (error) {
     throw new AttestationError(
       `Failed to extract HPKE key from certificate: ${(error as Error).message}`,
-      { cause: error as Error }
+      { cause: error as Error, code: ErrorCode.EnclaveCertificateInvalid }
     );
   }
   
   const hpkePublicKey = bytesToHex(hpkeKeyBytes);
   if (hpkePublicKey !== expectedHpkeKey) {
     throw new AttestationError(
-      'HPKE key mismatch: The encryption key in the certificate does not match the attested key'
+      'HPKE key mismatch: The encryption key in the certificate does not match the attested key',
+      { code: ErrorCode.HpkeKeyMismatch }
     );
   }
 
   // 5. Extract and verify attestation hash
   const hattSans = sans.filter(s => s.includes('.hatt.'));
   if (hattSans.length === 0) {
-    throw new AttestationError('Invalid enclave certificate: No attestation hash embedded in Subject Alternative Names');
+    throw new AttestationError('Invalid enclave certificate: No attestation hash embedded in Subject Alternative Names', { code: ErrorCode.EnclaveCertificateInvalid });
   }
   
   let hashBytes: Uint8Array;
@@ -156,7 +169,7 @@ export async function verifyCertificate(
   } catch (error) {
     throw new AttestationError(
       `Failed to extract attestation hash from certificate: ${(error as Error).message}`,
-      { cause: error as Error }
+      { cause: error as Error, code: ErrorCode.EnclaveCertificateInvalid }
     );
   }
   
@@ -166,7 +179,8 @@ export async function verifyCertificate(
   
   if (certAttestationHash !== computedHash) {
     throw new AttestationError(
-      'Attestation hash mismatch: The hash in the certificate does not match the attestation document'
+      'Attestation hash mismatch: The hash in the certificate does not match the attestation document',
+      { code: ErrorCode.EnclaveCertificateInvalid }
     );
   }
 
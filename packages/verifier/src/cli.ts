@@ -0,0 +1,223 @@
+/**
+ * tinfoil-verify — command-line verification of attestation bundles, for CI
+ * and operational runbooks. Node.js only; not part of the browser entry point.
+ */
+
+import { readFile } from 'fs/promises';
+import { parseArgs } from 'util';
+import { Verifier } from './client.js';
+import { assembleAttestationBundle } from './bundle.js';
+import { hexToBytes } from './sev/utils.js';
+import type { ValidationOptions } from './sev/validation.js';
+import type { AttestationBundle, VerificationDocument } from './types.js';
+import { AttestationError, ConfigurationError, FetchError, wrapOrThrow, ErrorCode } from './errors.js';
+
+const DEFAULT_CONFIG_REPO = 'tinfoilsh/confidential-model-router';
+const DEFAULT_ATC_URL = 'https://atc.tinfoil.sh';
+
+/**
+ * Process exit codes, distinguishing why verification did not succeed.
+ */
+export const ExitCode = {
+  Verified: 0,
+  AttestationFailed: 1,
+  ConfigurationError: 2,
+  FetchFailed: 3,
+  UnexpectedError: 4,
+} as const;
+
+const USAGE = `Usage: tinfoil-verify [options] [bundle.json]
+
+Verify an attestation bundle read from a file, fetched from the attestation
+service (--atc), or assembled directly from an enclave (--enclave).
+
+Options:
+  --enclave <host>   Enclave hostname; assembles the bundle unless --atc is set
+  --atc              Fetch the bundle from the attestation service
+  --atc-url <url>    Attestation service URL (default: ${DEFAULT_ATC_URL})
+  --repo <repo>      GitHub repo of the enclave's code (default: ${DEFAULT_CONFIG_REPO})
+  --policy <file>    JSON file with SEV-SNP validation policy overrides
+  --at <time>        Check certificate validity at this ISO 8601 time, not now
+  --json             Print the verification document as JSON
+  -h, --help         Show this help
+
+Exit codes: 0 verified, 1 attestation failed, 2 configuration error,
+3 fetch failed, 4 unexpected error`;
+
+// Policy fields holding raw bytes, given as hex strings in policy files
+const BYTE_FIELDS = ['reportData', 'hostData', 'imageId', 'familyId', 'reportId', 'reportIdMa', 'measurement', 'chipId'] as const;
+const BYTE_LIST_FIELDS = ['trustedAuthorKeyHashes', 'trustedIdKeyHashes'] as const;
+
+/**
+ * Run the CLI.
+ *
+ * @param args - Command-line arguments, excluding the node binary and script
+ * @returns The process exit code (see {@link ExitCode})
+ */
+export async function main(args: string[]): Promise<number> {
+  let document: VerificationDocument | undefined;
+  let json = false;
+
+  try {
+    const { values, positionals } = parseCliArgs(args);
+    json = values.json;
+    if (values.help) {
+      console.log(USAGE);
+      return ExitCode.Verified;
+    }
+
+    const configRepo = values.repo ?? DEFAULT_CONFIG_REPO;
+    const sources = [positionals.length > 0, values.atc, !!values.enclave && !values.atc].filter(Boolean).length;
+    if (sources !== 1 || positionals.length > 1) {
+      throw new ConfigurationError('Specify exactly one bundle source: a bundle file, --atc or --enclave');
+    }
+
+    const verificationTime = values.at !== undefined ? parseTime(values.at) : undefined;
+    const verifier = new Verifier({
+      configRepo,
+      policy: values.policy ? await readPolicy(values.policy) : undefined,
+    });
+
+    let bundle: AttestationBundle;
+    if (positionals.length > 0) {
+      bundle = await readJson(positionals[0], 'bundle');
+    } else if (values.atc) {
+      bundle = await fetchAtcBundle(values['atc-url'] ?? DEFAULT_ATC_URL, configRepo, values.enclave);
+    } else {
+      bundle = await assembleAttestationBundle(values.enclave!, configRepo);
+    }
+
+    try {
+      await verifier.verifyBundle(bundle, { verificationTime });
+    } finally {
+      document = verifier.getVerificationDocument();
+    }
+    print(document!, json);
+    return ExitCode.Verified;
+  } catch (e) {
+    if (document) {
+      print(document, json);
+    }
+    console.error(`tinfoil-verify: ${(e as Error).message}`);
+    return exitCodeFor(e);
+  }
+}
+
+function parseCliArgs(args: string[]) {
+  try {
+    return parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        enclave: { type: 'string' },
+        atc: { type: 'boolean', default: false },
+        'atc-url': { type: 'string' },
+        repo: { type: 'string' },
+        policy: { type: 'string' },
+        at: { type: 'string' },
+        json: { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+  } catch (e) {
+    throw new ConfigurationError(`${(e as Error).message}\n\n${USAGE}`);
+  }
+}
+
+function parseTime(value: string): Date {
+  const time = new Date(value);
+  if (isNaN(time.getTime())) {
+    throw new ConfigurationError(`Invalid --at time "${value}": Expected an ISO 8601 date`);
+  }
+  return time;
+}
+
+function exitCodeFor(e: unknown): number {
+  if (e instanceof AttestationError) return ExitCode.AttestationFailed;
+  if (e instanceof ConfigurationError) return ExitCode.ConfigurationError;
+  if (e instanceof FetchError) return ExitCode.FetchFailed;
+  return ExitCode.UnexpectedError;
+}
+
+async function readJson<T>(path: string, what: string): Promise<T> {
+  try {
+    return JSON.parse(await readFile(path, 'utf8'));
+  } catch (e) {
+    wrapOrThrow(e, ConfigurationError, `Failed to read ${what} file ${path}`);
+  }
+}
+
+/**
+ * Read a policy file, decoding hex-encoded byte fields.
+ */
+async function readPolicy(path: string): Promise<Partial<ValidationOptions>> {
+  const policy = await readJson<Record<string, unknown>>(path, 'policy');
+  try {
+    for (const field of BYTE_FIELDS) {
+      if (typeof policy[field] === 'string') policy[field] = hexToBytes(policy[field] as string);
+    }
+    for (const field of BYTE_LIST_FIELDS) {
+      if (Array.isArray(policy[field])) policy[field] = (policy[field] as string[]).map(hexToBytes);
+    }
+  } catch (e) {
+    wrapOrThrow(e, ConfigurationError, `Invalid policy file ${path}`);
+  }
+  return policy as Partial<ValidationOptions>;
+}
+
+/**
+ * Fetch a bundle from the attestation service, for a specific enclave or repo
+ * when given and for the default router otherwise.
+ */
+async function fetchAtcBundle(atcUrl: string, configRepo: string, enclave?: string): Promise<AttestationBundle> {
+  const url = `${atcUrl.replace(/\/$/, '')}/attestation`;
+  const custom = !!enclave || configRepo !== DEFAULT_CONFIG_REPO;
+
+  let response: Response;
+  try {
+    response = custom
+      ? await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ enclaveUrl: enclave && `https://${enclave}`, repo: configRepo }),
+        })
+      : await fetch(url);
+  } catch (e) {
+    throw new FetchError(`Network error: ${url}`, { cause: e as Error, code: ErrorCode.NetworkError });
+  }
+  if (!response.ok) {
+    throw new FetchError(`Failed to fetch attestation bundle from ${atcUrl}: HTTP ${response.status} ${response.statusText}`, { code: ErrorCode.HttpError });
+  }
+  try {
+    return await response.json();
+  } catch (e) {
+    throw new FetchError(`Invalid response from ${atcUrl}`, { cause: e as Error, code: ErrorCode.InvalidResponse });
+  }
+}
+
+function print(document: VerificationDocument, json: boolean): void {
+  if (json) {
+    console.log(JSON.stringify(document, null, 2));
+    return;
+  }
+
+  const rows = Object.entries(document.steps)
+    .filter(([, step]) => step)
+    .map(([name, step]) => [name, step!.status, step!.error ?? '']);
+  const width = Math.max(4, ...rows.map(([name]) => name.length));
+  const statusWidth = Math.max(6, ...rows.map(([, status]) => status.length));
+
+  console.log(`Enclave:  ${document.enclaveHost}`);
+  console.log(`Repo:     ${document.configRepo}`);
+  if (document.releaseDigest) {
+    const tag = document.provenance?.releaseTag;
+    console.log(`Release:  ${document.releaseDigest}${tag ? ` (${tag})` : ''}`);
+  }
+  console.log('');
+  console.log(`${'STEP'.padEnd(width)}  ${'STATUS'.padEnd(statusWidth)}  DETAIL`);
+  for (const [name, status, error] of rows) {
+    console.log(`${name.padEnd(width)}  ${status.padEnd(statusWidth)}  ${error}`.trimEnd());
+  }
+  console.log('');
+  console.log(document.securityVerified ? 'Verified' : 'Verification FAILED');
+}
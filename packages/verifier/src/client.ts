@@ -1,44 +1,136 @@
 import { verifyAttestation as verifyAmdAttestation } from './attestation.js';
-import { verifySigstoreBundle } from './sigstore.js';
-import { assembleAttestationBundle } from './bundle.js';
+import { verifySigstoreBundle, defaultSigstoreIdentityPolicy } from './sigstore.js';
+import type { SigstoreIdentityPolicy } from './sigstore.js';
+import { loadSigstoreTrustedRoot } from './sigstore-trust.js';
+import type { SigstoreTrustOptions } from './sigstore-trust.js';
+import { assembleAttestationBundle, fetchAmdCrl, fetchReleaseDigest } from './bundle.js';
 import { verifyCertificate } from './cert-verify.js';
-import { compareMeasurements, measurementFingerprint } from './types.js';
-import type { AttestationResponse, VerificationDocument, AttestationBundle } from './types.js';
-import { ConfigurationError } from './errors.js';
+import { DEFAULT_HARDWARE_REPO, verifyHardwareBundle, verifyHardware } from './hardware.js';
+import { compareMeasurements, measurementFingerprint, PredicateType } from './types.js';
+import type {
+  AttestationResponse, VerificationDocument, VerificationStep, VerificationStepEvent, VerificationStepState, AttestationBundle, HardwareMeasurement,
+} from './types.js';
+import { defaultValidationOptions } from './sev/validation.js';
+import type { ValidationOptions } from './sev/validation.js';
+import type { AmdRootCerts } from './sev/certs.js';
+import { RECEIPT_VERSION, parseReceipt, serializeReceipt, sameReceiptOptions } from './receipt.js';
+import type { ReceiptOptions, VerificationReceipt } from './receipt.js';
+import { AttestationError, ConfigurationError, ErrorCode, TinfoilError, throwIfAborted } from './errors.js';
 
 export interface VerifierOptions {
   /** Server URL for fetching attestation. Required when using verify(), optional when using verifyBundle(). */
   serverURL?: string;
   configRepo: string;
+  /** GitHub repo publishing the signed hardware measurements registry. Defaults to tinfoilsh/hardware-measurements. */
+  hardwareRepo?: string;
+  /**
+   * SEV-SNP validation policy. Fields set here replace the corresponding
+   * fields of the default policy; fields explicitly set to undefined are not checked.
+   */
+  policy?: Partial<ValidationOptions>;
+  /**
+   * Sigstore certificate identity required of configRepo releases, merged over
+   * the default policy (tagged releases built on GitHub Actions).
+   */
+  identityPolicy?: Partial<SigstoreIdentityPolicy>;
+  /** AMD ARK/ASK certificates keyed by product name (e.g. "Milan", "Turin"), merged over the bundled anchors */
+  amdTrustedRoots?: Record<string, AmdRootCerts>;
+  /** Refresh the Sigstore trusted root via TUF instead of using the bundled snapshot */
+  sigstoreTrust?: SigstoreTrustOptions;
+  /** Release tag of configRepo to verify against instead of the latest release */
+  releaseTag?: string;
+  /** Release digests the enclave may run; verification fails for any other digest */
+  approvedDigests?: string[];
+  /** Code measurement fingerprints the enclave may run; verification fails for any other measurement */
+  approvedMeasurements?: string[];
+  /** Called as each verification step starts and finishes, e.g. to show progress */
+  onStep?: (event: VerificationStepEvent) => void;
 }
 
 export class Verifier {
   private serverURL?: string;
   private configRepo: string;
+  private hardwareRepo: string;
+  private policy: ValidationOptions;
+  private identityPolicy: SigstoreIdentityPolicy;
+  private amdTrustedRoots?: Record<string, AmdRootCerts>;
+  private sigstoreTrust?: SigstoreTrustOptions;
+  private releaseTag?: string;
+  private approvedDigests?: string[];
+  private approvedMeasurements?: string[];
+  private onStep?: (event: VerificationStepEvent) => void;
   private verificationDocument?: VerificationDocument;
+  private verificationReceipt?: VerificationReceipt;
 
   constructor(options: VerifierOptions) {
     if (!options.configRepo) {
       throw new ConfigurationError("configRepo is required for Verifier");
     }
+    if (options.approvedDigests?.length === 0 || options.approvedMeasurements?.length === 0) {
+      throw new ConfigurationError("approvedDigests and approvedMeasurements must not be empty when set");
+    }
     this.serverURL = options.serverURL;
     this.configRepo = options.configRepo;
+    this.hardwareRepo = options.hardwareRepo ?? DEFAULT_HARDWARE_REPO;
+    this.policy = { ...defaultValidationOptions, ...options.policy };
+    this.identityPolicy = { ...defaultSigstoreIdentityPolicy, ...options.identityPolicy };
+    this.amdTrustedRoots = options.amdTrustedRoots;
+    this.sigstoreTrust = options.sigstoreTrust;
+    this.releaseTag = options.releaseTag;
+    this.approvedDigests = options.approvedDigests?.map(d => d.toLowerCase());
+    this.approvedMeasurements = options.approvedMeasurements?.map(m => m.toLowerCase());
+    this.onStep = options.onStep;
   }
 
-  async verify(): Promise<AttestationResponse> {
+  /**
+   * Assemble an attestation bundle from serverURL and verify it.
+   *
+   * @param options.signal - Cancels fetching and verification with an AbortError
+   */
+  async verify(options: { signal?: AbortSignal } = {}): Promise<AttestationResponse> {
     if (!this.serverURL) {
       throw new ConfigurationError("serverURL is required for verify(). Use verifyBundle() with an attestation bundle instead.");
     }
+    const { signal } = options;
     const domain = new URL(this.serverURL).hostname;
-    const bundle = await assembleAttestationBundle(domain, this.configRepo);
-    return this.verifyBundle(bundle);
+    const trustedRoot = await loadSigstoreTrustedRoot(this.sigstoreTrust);
+    throwIfAborted(signal);
+    const bundle = await assembleAttestationBundle(domain, this.configRepo, this.hardwareRepo, {
+      releaseTag: this.releaseTag,
+      identityPolicy: this.identityPolicy,
+      trustedRoot,
+      checkRevocations: this.policy.checkRevocations,
+      signal,
+    });
+    return this.verifyBundle(bundle, { signal });
   }
 
-  async verifyBundle(bundle: AttestationBundle): Promise<AttestationResponse> {
-    const { enclaveAttestationReport: attestationDoc, vcek, digest, sigstoreBundle, domain, enclaveCert } = bundle;
+  /**
+   * Verify an attestation bundle.
+   *
+   * @param bundle - The attestation bundle to verify
+   * @param options.verificationTime - Instant at which to evaluate every
+   *   certificate validity window (AMD and Intel chains, CRLs, Sigstore and the
+   *   enclave TLS certificate), for auditing a past verification. Defaults to now
+   * @param options.signal - Cancels verification with an AbortError, failing
+   *   the step in progress; fetches of a release digest or CRL are aborted
+   * @param options.offline - Fail instead of fetching an AMD CRL the bundle does not carry
+   * @returns The verified enclave attestation
+   */
+  async verifyBundle(
+    bundle: AttestationBundle,
+    options: { verificationTime?: Date; signal?: AbortSignal; offline?: boolean } = {}
+  ): Promise<AttestationResponse> {
+    const {
+      enclaveAttestationReport: attestationDoc, vcek, vlek, asvk, amdCrl, certTable, tdxCollateral, digest, sigstoreBundle, domain, enclaveCert,
+      hardwareDigest, hardwareSigstoreBundle, rejectedAttestations,
+    } = bundle;
+    const { verificationTime, signal, offline } = options;
+    const verifiedAt = verificationTime ?? new Date();
+    this.verificationReceipt = undefined;
 
     const steps: VerificationDocument['steps'] = {
-      fetchDigest: { status: 'success' }, // Already fetched by caller
+      fetchDigest: { status: 'pending' }, // Fetched by caller; checked against the approved releases
       verifyCode: { status: 'pending' },
       verifyEnclave: { status: 'pending' },
       compareMeasurements: { status: 'pending' },
@@ -46,68 +138,91 @@ export class Verifier {
     };
 
     try {
+      // Check the release digest before verifying anything that depends on it
+      await this.runStep(steps, 'fetchDigest', domain, signal, () => this.checkReleaseDigest(digest, signal));
+
       // Step 1: Verify enclave attestation
-      let amdVerification: AttestationResponse;
-      try {
-        amdVerification = await verifyAmdAttestation(attestationDoc, vcek);
-        steps.verifyEnclave = { status: 'success' };
-      } catch (error) {
-        steps.verifyEnclave = { status: 'failed', error: (error as Error).message };
-        this.saveFailedVerificationDocument(steps, domain);
-        throw error;
-      }
+      const amdVerification = await this.runStep(steps, 'verifyEnclave', domain, signal, () =>
+        verifyAmdAttestation(attestationDoc, vlek ?? vcek, {
+          tdxCollateral,
+          asvk,
+          amdCrl,
+          fetchAmdCrl: offline ? undefined : (product, keyName) => fetchAmdCrl(product, keyName, signal),
+          certTable,
+          policy: this.policy,
+          amdTrustedRoots: this.amdTrustedRoots,
+          verificationTime,
+        })
+      );
 
       // Step 2: Verify code provenance (Sigstore bundle)
-      let codeMeasurements;
-      try {
-        codeMeasurements = await verifySigstoreBundle(sigstoreBundle, digest, this.configRepo);
-        steps.verifyCode = { status: 'success' };
-      } catch (error) {
-        steps.verifyCode = { status: 'failed', error: (error as Error).message };
-        this.saveFailedVerificationDocument(steps, domain);
-        throw error;
-      }
+      const trustedRoot = await loadSigstoreTrustedRoot(this.sigstoreTrust);
+      const { measurement: codeMeasurements, provenance } = await this.runStep(steps, 'verifyCode', domain, signal, () =>
+        verifySigstoreBundle(sigstoreBundle, digest, this.configRepo, trustedRoot, this.identityPolicy, verificationTime)
+      );
 
       // Step 3: Compare measurements
-      try {
+      const codeFingerprint = await this.runStep(steps, 'compareMeasurements', domain, signal, async () => {
         compareMeasurements(codeMeasurements, amdVerification.measurement);
-        steps.compareMeasurements = { status: 'success' };
-      } catch (error) {
-        steps.compareMeasurements = { status: 'failed', error: (error as Error).message };
-        this.saveFailedVerificationDocument(steps, domain);
-        throw error;
+        const fingerprint = await measurementFingerprint(codeMeasurements);
+        if (this.approvedMeasurements && !this.approvedMeasurements.includes(fingerprint)) {
+          throw new AttestationError(`Measurement not approved: Code fingerprint ${fingerprint} is not in approvedMeasurements`, { code: ErrorCode.MeasurementNotApproved });
+        }
+        return fingerprint;
+      });
+
+      // Step 4: Verify hardware measurements (TDX only)
+      let hardwareMeasurement: HardwareMeasurement | undefined;
+      if (amdVerification.measurement.type === PredicateType.TdxGuestV2) {
+        hardwareMeasurement = await this.runStep(steps, 'verifyHardware', domain, signal, async () => {
+          if (!hardwareDigest || !hardwareSigstoreBundle) {
+            throw new AttestationError('Missing hardware measurements: TDX attestation requires the hardware measurements release digest and Sigstore bundle', { code: ErrorCode.MissingEvidence });
+          }
+          const measurements = await verifyHardwareBundle(hardwareSigstoreBundle, hardwareDigest, this.hardwareRepo, trustedRoot, verificationTime);
+          return verifyHardware(measurements, amdVerification.measurement);
+        });
       }
 
-      // Step 4: Verify certificate
-      try {
-        await verifyCertificate(
+      // Step 5: Verify certificate
+      await this.runStep(steps, 'verifyCertificate', domain, signal, () =>
+        verifyCertificate(
           enclaveCert,
           domain,
           attestationDoc,
-          amdVerification.hpkePublicKey || ''
-        );
-        steps.verifyCertificate = { status: 'success' };
-      } catch (error) {
-        steps.verifyCertificate = { status: 'failed', error: (error as Error).message };
-        this.saveFailedVerificationDocument(steps, domain);
-        throw error;
-      }
+          amdVerification.hpkePublicKey || '',
+          verificationTime
+        )
+      );
 
       // Build successful verification document
       this.verificationDocument = {
         configRepo: this.configRepo,
         enclaveHost: domain,
         releaseDigest: digest,
+        provenance,
+        rejectedAttestations,
         codeMeasurement: codeMeasurements,
         enclaveMeasurement: amdVerification,
         tlsPublicKey: amdVerification.tlsPublicKeyFingerprint || '',
         hpkePublicKey: amdVerification.hpkePublicKey || '',
-        codeFingerprint: await measurementFingerprint(codeMeasurements),
+        hardwareMeasurement,
+        policy: this.policy,
+        identityPolicy: this.identityPolicy,
+        provisionalFirmware: amdVerification.provisionalFirmware,
+        codeFingerprint,
         enclaveFingerprint: await measurementFingerprint(amdVerification.measurement),
         selectedRouterEndpoint: domain,
+        verificationTime: verificationTime?.toISOString(),
         securityVerified: true,
         steps
       };
+      this.verificationReceipt = {
+        version: RECEIPT_VERSION,
+        verifiedAt: verifiedAt.toISOString(),
+        options: this.receiptOptions(),
+        bundle,
+        document: this.verificationDocument,
+      };
 
       return amdVerification;
     } catch (error) {
@@ -118,6 +233,66 @@ export class Verifier {
     }
   }
 
+  /**
+   * Check a release digest against the pinned release tag and approved digests.
+   *
+   * @throws AttestationError if the digest is not approved
+   * @throws FetchError if the pinned release's digest cannot be fetched
+   */
+  private async checkReleaseDigest(digest: string, signal?: AbortSignal): Promise<void> {
+    if (this.releaseTag) {
+      const pinned = await fetchReleaseDigest(this.configRepo, this.releaseTag, signal);
+      if (digest.toLowerCase() !== pinned.toLowerCase()) {
+        throw new AttestationError(`Release not approved: Digest ${digest} does not match release ${this.releaseTag} of ${this.configRepo} (${pinned})`, { code: ErrorCode.ReleaseNotApproved });
+      }
+    }
+    if (this.approvedDigests && !this.approvedDigests.includes(digest.toLowerCase())) {
+      throw new AttestationError(`Release not approved: Digest ${digest} is not in approvedDigests`, { code: ErrorCode.ReleaseNotApproved });
+    }
+  }
+
+  /**
+   * Run one verification step, recording its outcome in `steps` and reporting
+   * its start and finish to the onStep listener. A failed step saves the
+   * failed verification document before the error propagates. The step fails
+   * with an AbortError if the signal was aborted before or during it.
+   */
+  private async runStep<T>(
+    steps: VerificationDocument['steps'],
+    step: VerificationStep,
+    domain: string,
+    signal: AbortSignal | undefined,
+    fn: () => Promise<T>
+  ): Promise<T> {
+    const startedAt = Date.now();
+    this.onStep?.({ step, state: { status: 'pending' } });
+    try {
+      throwIfAborted(signal);
+      const result = await fn();
+      throwIfAborted(signal);
+      steps[step] = { status: 'success' };
+      return result;
+    } catch (error) {
+      steps[step] = failedStep(error);
+      this.saveFailedVerificationDocument(steps, domain);
+      throw error;
+    } finally {
+      this.onStep?.({ step, state: steps[step]!, durationMs: Date.now() - startedAt });
+    }
+  }
+
+  private receiptOptions(): ReceiptOptions {
+    return {
+      configRepo: this.configRepo,
+      hardwareRepo: this.hardwareRepo,
+      policy: this.policy,
+      identityPolicy: this.identityPolicy,
+      amdTrustedRoots: this.amdTrustedRoots,
+      approvedDigests: this.approvedDigests,
+      approvedMeasurements: this.approvedMeasurements,
+    };
+  }
+
   private saveFailedVerificationDocument(steps: VerificationDocument['steps'], domain: string): void {
     this.verificationDocument = {
       configRepo: this.configRepo,
@@ -127,6 +302,8 @@ export class Verifier {
       enclaveMeasurement: { measurement: { type: '', registers: [] } },
       tlsPublicKey: '',
       hpkePublicKey: '',
+      policy: this.policy,
+      identityPolicy: this.identityPolicy,
       codeFingerprint: '',
       enclaveFingerprint: '',
       selectedRouterEndpoint: domain,
@@ -138,4 +315,87 @@ export class Verifier {
   getVerificationDocument(): VerificationDocument | undefined {
     return this.verificationDocument;
   }
+
+  /**
+   * Get a receipt of the last successful verification, for persisting as
+   * evidence and re-checking later with {@link verifyReceipt}.
+   */
+  getVerificationReceipt(): VerificationReceipt | undefined {
+    return this.verificationReceipt;
+  }
+
+  /**
+   * Adopt the result of an earlier verification without re-running it, e.g.
+   * from a cache that survives restarts. Only cheap checks are made: the
+   * receipt must record a successful verification made with this verifier's
+   * configuration, and its enclave certificate must still be valid and bind
+   * the recorded keys. Use {@link verifyReceipt} to re-check the evidence.
+   *
+   * @param receipt - The receipt, or its JSON serialization
+   * @returns The enclave attestation recorded in the receipt
+   * @throws ConfigurationError if the receipt cannot be parsed
+   * @throws AttestationError if the receipt does not match this verifier or its certificate is no longer valid
+   */
+  async restoreReceipt(receipt: VerificationReceipt | string): Promise<AttestationResponse> {
+    const parsed = typeof receipt === 'string' ? parseReceipt(receipt) : receipt;
+    const { options, bundle, document } = parsed;
+
+    if (!document.securityVerified || document.verificationTime) {
+      throw new AttestationError('Receipt mismatch: Receipt does not record a successful verification made at the time', { code: ErrorCode.ReceiptMismatch });
+    }
+    if (!sameReceiptOptions(options, this.receiptOptions())) {
+      throw new AttestationError('Receipt mismatch: Receipt was verified with a different configuration', { code: ErrorCode.ReceiptMismatch });
+    }
+    if (this.releaseTag && document.provenance?.releaseTag !== this.releaseTag) {
+      throw new AttestationError(`Receipt mismatch: Receipt is for release ${document.provenance?.releaseTag}, not ${this.releaseTag}`, { code: ErrorCode.ReceiptMismatch });
+    }
+    await verifyCertificate(bundle.enclaveCert, bundle.domain, bundle.enclaveAttestationReport, document.hpkePublicKey, new Date());
+
+    this.verificationDocument = document;
+    this.verificationReceipt = parsed;
+    return document.enclaveMeasurement;
+  }
+}
+
+function failedStep(error: unknown): VerificationStepState {
+  return {
+    status: 'failed',
+    error: (error as Error).message,
+    code: error instanceof TinfoilError ? error.code : undefined,
+  };
+}
+
+// Document fields that identify what was trusted; a re-verified receipt must reproduce them
+const RECEIPT_DOCUMENT_FIELDS = ['releaseDigest', 'codeFingerprint', 'enclaveFingerprint', 'tlsPublicKey', 'hpkePublicKey'] as const;
+
+/**
+ * Re-run the full verification recorded in a receipt, without network access.
+ * The bundle is verified against the receipt's verifier configuration, and the
+ * result must match the document recorded in the receipt.
+ *
+ * @param receipt - The receipt, or its JSON serialization
+ * @param options.verificationTime - Instant to check certificates at, e.g.
+ *   `new Date(receipt.verifiedAt)` to re-check the original verification. Defaults to now
+ * @returns The verification document produced by re-verification
+ * @throws ConfigurationError if the receipt cannot be parsed or serialized
+ * @throws AttestationError if the bundle fails verification, lacks a CRL the
+ *   policy requires, or the result differs from the receipt
+ */
+export async function verifyReceipt(
+  receipt: VerificationReceipt | string,
+  { verificationTime }: { verificationTime?: Date } = {}
+): Promise<VerificationDocument> {
+  // Round-trip receipt objects so they are checked exactly as they would be recorded
+  const { options, bundle, document } = parseReceipt(typeof receipt === 'string' ? receipt : serializeReceipt(receipt));
+
+  const verifier = new Verifier(options);
+  await verifier.verifyBundle(bundle, { verificationTime, offline: true });
+  const verified = verifier.getVerificationDocument()!;
+
+  for (const field of RECEIPT_DOCUMENT_FIELDS) {
+    if (verified[field] !== document[field]) {
+      throw new AttestationError(`Receipt mismatch: Recorded ${field} "${document[field]}" does not match re-verified "${verified[field]}"`, { code: ErrorCode.ReceiptMismatch });
+    }
+  }
+  return verified;
 }
@@ -6,18 +6,80 @@
  * TinfoilError (base)
  * ├── ConfigurationError   - Client misconfigured or used incorrectly
  * ├── FetchError           - Couldn't fetch attestation materials
- * └── AttestationError     - Attestation failed (security issue)
+ * ├── AttestationError     - Attestation failed (security issue)
+ * ├── TransportError       - Encrypted or pinned transport failed
+ * │   ├── DecryptionError  - Response could not be decrypted
+ * │   ├── KeyRotationError - Enclave rotated its key; re-attest and retry
+ * │   └── PinMismatchError - TLS certificate does not match the attested key
+ * └── AbortError           - Cancelled through an AbortSignal or timed out
  * ```
+ *
+ * Every error carries a stable {@link ErrorCode} in `code`. Match on codes
+ * rather than messages, which may change between releases.
  */
 
+/**
+ * Machine-readable error codes.
+ */
+export enum ErrorCode {
+  // ConfigurationError
+  InvalidConfiguration = 'INVALID_CONFIGURATION',
+  InsecureConnection = 'INSECURE_CONNECTION',
+  InvalidReceipt = 'INVALID_RECEIPT',
+
+  // FetchError
+  FetchFailed = 'FETCH_FAILED',
+  NetworkError = 'NETWORK_ERROR',
+  HttpError = 'HTTP_ERROR',
+  InvalidResponse = 'INVALID_RESPONSE',
+
+  // AttestationError
+  AttestationFailed = 'ATTESTATION_FAILED',
+  MalformedEvidence = 'MALFORMED_EVIDENCE',
+  MissingEvidence = 'MISSING_EVIDENCE',
+  CertificateChainInvalid = 'CERTIFICATE_CHAIN_INVALID',
+  CertificateRevoked = 'CERTIFICATE_REVOKED',
+  CollateralInvalid = 'COLLATERAL_INVALID',
+  SignatureInvalid = 'SIGNATURE_INVALID',
+  TcbMismatch = 'TCB_MISMATCH',
+  TcbOutOfDate = 'TCB_OUT_OF_DATE',
+  PolicyViolation = 'POLICY_VIOLATION',
+  SigstoreVerificationFailed = 'SIGSTORE_VERIFICATION_FAILED',
+  ReleaseDigestMismatch = 'RELEASE_DIGEST_MISMATCH',
+  ReleaseNotApproved = 'RELEASE_NOT_APPROVED',
+  MeasurementMismatch = 'MEASUREMENT_MISMATCH',
+  MeasurementNotApproved = 'MEASUREMENT_NOT_APPROVED',
+  HardwareMeasurementMismatch = 'HARDWARE_MEASUREMENT_MISMATCH',
+  EnclaveCertificateInvalid = 'ENCLAVE_CERTIFICATE_INVALID',
+  HpkeKeyMismatch = 'HPKE_KEY_MISMATCH',
+  ReceiptMismatch = 'RECEIPT_MISMATCH',
+
+  // TransportError
+  DecryptionFailed = 'DECRYPTION_FAILED',
+  KeyRotated = 'KEY_ROTATED',
+  PinMismatch = 'PIN_MISMATCH',
+
+  // AbortError
+  Aborted = 'ABORTED',
+  TimedOut = 'TIMED_OUT',
+}
+
+export interface TinfoilErrorOptions {
+  cause?: Error;
+  /** Overrides the error class's default code */
+  code?: ErrorCode;
+}
+
 /**
  * Base error class for all Tinfoil SDK errors.
  */
 export class TinfoilError extends Error {
   declare cause?: Error;
-  constructor(message: string, options?: { cause?: Error }) {
+  readonly code: ErrorCode;
+  constructor(message: string, options?: TinfoilErrorOptions) {
     super(message);
     this.name = 'TinfoilError';
+    this.code = options?.code ?? ErrorCode.AttestationFailed;
     if (options?.cause) {
       this.cause = options.cause;
     }
@@ -36,8 +98,8 @@ export class TinfoilError extends Error {
  * Action: Fix your code
  */
 export class ConfigurationError extends TinfoilError {
-  constructor(message: string, options?: { cause?: Error }) {
-    super(message, options);
+  constructor(message: string, options?: TinfoilErrorOptions) {
+    super(message, { ...options, code: options?.code ?? ErrorCode.InvalidConfiguration });
     this.name = 'ConfigurationError';
   }
 }
@@ -54,8 +116,8 @@ export class ConfigurationError extends TinfoilError {
  * Action: Retry, check network connectivity
  */
 export class FetchError extends TinfoilError {
-  constructor(message: string, options?: { cause?: Error }) {
-    super(message, options);
+  constructor(message: string, options?: TinfoilErrorOptions) {
+    super(message, { ...options, code: options?.code ?? ErrorCode.FetchFailed });
     this.name = 'FetchError';
   }
 }
@@ -79,16 +141,106 @@ export class FetchError extends TinfoilError {
  * Action: Stop - security issue - you should retry the entire attestation protocol.
  */
 export class AttestationError extends TinfoilError {
-  constructor(message: string, options?: { cause?: Error }) {
-    super(message, options);
+  constructor(message: string, options?: TinfoilErrorOptions) {
+    super(message, { ...options, code: options?.code ?? ErrorCode.AttestationFailed });
     this.name = 'AttestationError';
   }
 }
 
+/**
+ * Thrown when the encrypted (EHBP) or TLS-pinned transport to a verified
+ * enclave fails after attestation succeeded.
+ */
+export class TransportError extends TinfoilError {
+  constructor(message: string, options: TinfoilErrorOptions & { code: ErrorCode }) {
+    super(message, options);
+    this.name = 'TransportError';
+  }
+}
+
+/**
+ * Thrown when a response from the enclave fails to decrypt or is malformed.
+ * The response may have been tampered with in transit.
+ *
+ * Action: Stop - do not trust any data received in the response.
+ */
+export class DecryptionError extends TransportError {
+  constructor(message: string, options?: { cause?: Error }) {
+    super(message, { ...options, code: ErrorCode.DecryptionFailed });
+    this.name = 'DecryptionError';
+  }
+}
+
+/**
+ * Thrown when the enclave rejected a request because its key has rotated.
+ * The request was never processed.
+ *
+ * Action: Re-attest and retry. `SecureClient` does this automatically once.
+ */
+export class KeyRotationError extends TransportError {
+  constructor(message: string, options?: { cause?: Error }) {
+    super(message, { ...options, code: ErrorCode.KeyRotated });
+    this.name = 'KeyRotationError';
+  }
+}
+
+/**
+ * Thrown when the server's TLS certificate does not carry the attested key.
+ *
+ * Action: Stop - security issue - the connection is not to the verified enclave.
+ */
+export class PinMismatchError extends TransportError {
+  constructor(message: string, options?: { cause?: Error }) {
+    super(message, { ...options, code: ErrorCode.PinMismatch });
+    this.name = 'PinMismatchError';
+  }
+}
+
+/**
+ * Thrown when an operation is cancelled through its AbortSignal, or its
+ * timeout elapses (code `TimedOut`). `reason` is the signal's abort reason.
+ *
+ * Action: None needed if you cancelled it; otherwise retry, perhaps with a longer timeout
+ */
+export class AbortError extends TinfoilError {
+  readonly reason: unknown;
+  constructor(message: string, options?: TinfoilErrorOptions & { reason?: unknown }) {
+    super(message, { ...options, code: options?.code ?? ErrorCode.Aborted });
+    this.name = 'AbortError';
+    this.reason = options?.reason;
+  }
+}
+
+/**
+ * Convert an aborted signal's reason to an {@link AbortError}.
+ * `AbortSignal.timeout()` reasons become `TimedOut` errors.
+ */
+export function toAbortError(signal: AbortSignal): AbortError {
+  const reason: unknown = signal.reason;
+  if (reason instanceof AbortError) {
+    return reason;
+  }
+  const timedOut = reason instanceof Error && reason.name === 'TimeoutError';
+  return new AbortError(timedOut ? 'Operation timed out' : 'Operation aborted', {
+    cause: reason instanceof Error ? reason : undefined,
+    code: timedOut ? ErrorCode.TimedOut : ErrorCode.Aborted,
+    reason,
+  });
+}
+
+/**
+ * Throw an {@link AbortError} if the signal has been aborted.
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw toAbortError(signal);
+  }
+}
+
 /**
  * Helper to handle errors in catch blocks.
  * - If the error is already a TinfoilError, rethrow it as-is
- * - Otherwise, wrap it in the specified error class
+ * - Otherwise, wrap it in the specified error class, with the given code or the class default
  * 
  * @example
  * ```typescript
@@ -102,11 +254,12 @@ export class AttestationError extends TinfoilError {
 export function wrapOrThrow(
   e: unknown,
   ErrorClass: typeof AttestationError | typeof FetchError | typeof ConfigurationError,
-  message: string
+  message: string,
+  code?: ErrorCode
 ): never {
   if (e instanceof TinfoilError) {
     throw e;
   }
-  throw new ErrorClass(message, { cause: e as Error });
+  throw new ErrorClass(message, { cause: e as Error, code });
 }
 
@@ -0,0 +1,84 @@
+import type { TrustedRoot } from '@freedomofpress/sigstore-browser';
+import { isJsonObject, verifySigstorePayload } from './sigstore.js';
+import { PredicateType } from './types.js';
+import type { AttestationMeasurement, HardwareMeasurement } from './types.js';
+import { AttestationError, wrapOrThrow, ErrorCode } from './errors.js';
+
+/** Default GitHub repo publishing the signed registry of known hardware platforms */
+export const DEFAULT_HARDWARE_REPO = 'tinfoilsh/hardware-measurements';
+
+/**
+ * Verifies a Sigstore bundle for a hardware measurements release and returns
+ * the registry entries it contains.
+ *
+ * The predicate maps platform names to their firmware-level measurements:
+ * `{ "<platform>": { "mrtd": "...", "rtmr0": "..." } }`.
+ * Each entry is identified as `<platform>@<digest>`.
+ *
+ * @param bundleJson - The Sigstore bundle JSON data
+ * @param digest - The expected hex-encoded SHA256 digest of the DSSE payload
+ * @param repo - The hardware measurements repository name
+ * @param trustedRoot - Sigstore trusted root; defaults to the bundled snapshot
+ * @param verificationTime - If set, the bundle must have been logged in Rekor by this instant
+ * @returns The verified hardware measurements
+ * @throws AttestationError if verification fails or the predicate is malformed
+ */
+export async function verifyHardwareBundle(
+  bundleJson: unknown,
+  digest: string,
+  repo: string,
+  trustedRoot?: TrustedRoot,
+  verificationTime?: Date
+): Promise<HardwareMeasurement[]> {
+  try {
+    const { predicateType, predicate } = await verifySigstorePayload(bundleJson, digest, repo, trustedRoot, undefined, verificationTime);
+
+    if (predicateType !== PredicateType.HardwareMeasurementsV1) {
+      throw new AttestationError(`Unsupported hardware predicate type: "${predicateType}". Only hardware measurements V1 is supported`, { code: ErrorCode.SigstoreVerificationFailed });
+    }
+
+    const measurements: HardwareMeasurement[] = [];
+    for (const [platform, entry] of Object.entries(predicate)) {
+      const { mrtd, rtmr0 } = isJsonObject(entry) ? entry : {};
+      if (typeof mrtd !== 'string' || typeof rtmr0 !== 'string' || !mrtd || !rtmr0) {
+        throw new AttestationError(`Invalid hardware measurements: Platform "${platform}" is missing the mrtd or rtmr0 field`, { code: ErrorCode.SigstoreVerificationFailed });
+      }
+      measurements.push({
+        ID: `${platform}@${digest}`,
+        MRTD: mrtd,
+        RTMR0: rtmr0,
+      });
+    }
+    return measurements;
+  } catch (e) {
+    wrapOrThrow(e, AttestationError, 'Sigstore hardware bundle verification failed', ErrorCode.SigstoreVerificationFailed);
+  }
+}
+
+/**
+ * Finds the registry entry matching the enclave's firmware-level measurements.
+ * TDX enclaves are matched on MRTD (register 0) and RTMR0 (register 1).
+ *
+ * @param measurements - Verified hardware measurements
+ * @param enclave - Measurement from the verified attestation
+ * @returns The matching hardware measurement
+ * @throws AttestationError if the enclave is not TDX or no entry matches
+ */
+export function verifyHardware(
+  measurements: HardwareMeasurement[],
+  enclave: AttestationMeasurement
+): HardwareMeasurement {
+  if (enclave.type !== PredicateType.TdxGuestV2) {
+    throw new AttestationError(`Hardware measurements are only supported for TDX enclaves, got "${enclave.type}"`, { code: ErrorCode.HardwareMeasurementMismatch });
+  }
+  if (enclave.registers.length < 2) {
+    throw new AttestationError('Invalid measurement data: Missing measurement registers', { code: ErrorCode.MalformedEvidence });
+  }
+
+  const [mrtd, rtmr0] = enclave.registers;
+  const match = measurements.find(m => m.MRTD === mrtd && m.RTMR0 === rtmr0);
+  if (!match) {
+    throw new AttestationError(`Hardware measurement mismatch: No known platform matches MRTD ${mrtd} and RTMR0 ${rtmr0}`, { code: ErrorCode.HardwareMeasurementMismatch });
+  }
+  return match;
+}
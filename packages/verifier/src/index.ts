@@ -1,16 +1,43 @@
 // Error classes
 export {
+  ErrorCode,
   TinfoilError,
   ConfigurationError,
   FetchError,
   AttestationError,
+  TransportError,
+  DecryptionError,
+  KeyRotationError,
+  PinMismatchError,
+  AbortError,
+  toAbortError,
+  throwIfAborted,
 } from './errors.js';
+export type { TinfoilErrorOptions } from './errors.js';
 
 // Verification
 export { verifyAttestation } from './attestation.js';
-export { assembleAttestationBundle } from './bundle.js';
-export { Verifier } from './client.js';
+export type { AttestationVerificationOptions } from './attestation.js';
+export { assembleAttestationBundle, fetchAmdCrl } from './bundle.js';
+export type { AssembleBundleOptions } from './bundle.js';
+export { Verifier, verifyReceipt } from './client.js';
+export { serializeReceipt, parseReceipt, RECEIPT_VERSION } from './receipt.js';
+export type { VerificationReceipt, ReceiptOptions } from './receipt.js';
 export { PredicateType, compareMeasurements, measurementFingerprint, hashAttestationDocument } from './types.js';
-export type { AttestationDocument, AttestationMeasurement, AttestationResponse, AttestationBundle, VerificationDocument, VerificationStepState, HardwareMeasurement } from './types.js';
+export type { AttestationDocument, AttestationMeasurement, AttestationResponse, AttestationBundle, VerificationDocument, VerificationStep, VerificationStepEvent, VerificationStepState, HardwareMeasurement, ReleaseProvenance, RejectedAttestation } from './types.js';
 export type { VerifierOptions } from './client.js';
+export { verifyHardwareBundle, verifyHardware, DEFAULT_HARDWARE_REPO } from './hardware.js';
+export { loadSigstoreTrustedRoot, MemoryStore, IndexedDBStore, FileSystemStore } from './sigstore-trust.js';
+export type { SigstoreTrustOptions, TrustedRootStore } from './sigstore-trust.js';
+export { defaultSigstoreIdentityPolicy, selectSigstoreBundle } from './sigstore.js';
+export type { SigstoreIdentityPolicy } from './sigstore.js';
 export { verifyCertificate, type CertVerificationResult } from './cert-verify.js';
+export type { TdxCollateral } from './tdx/collateral.js';
+export { defaultValidationOptions } from './sev/validation.js';
+export type { ValidationOptions, ValidationResult } from './sev/validation.js';
+export type { TCBParts, SnpPolicy, SnpPlatformInfo } from './sev/types.js';
+export { amdPublicKeyDigest } from './sev/utils.js';
+export { TRUSTED_ROOTS } from './sev/certs.js';
+export { parseCertTable, CertTableGuid, CertEntryKind } from './sev/cert-table.js';
+export type { CertEntryOption } from './sev/cert-table.js';
+export type { AmdRootCerts } from './sev/certs.js';
@@ -0,0 +1,117 @@
+/**
+ * Verification receipts — the evidence behind a verification (the raw bundle,
+ * the verifier configuration and the resulting document), serialized as
+ * canonical JSON so it can be stored and re-verified offline later.
+ */
+
+import { X509Certificate } from '@freedomofpress/sigstore-browser';
+import type { VerifierOptions } from './client.js';
+import type { AttestationBundle, VerificationDocument } from './types.js';
+import { bytesToHex, hexToBytes } from './sev/utils.js';
+import { ConfigurationError, wrapOrThrow, ErrorCode } from './errors.js';
+
+export const RECEIPT_VERSION = 1;
+
+/**
+ * Verifier configuration recorded in a receipt. Options that need the network
+ * to re-check (`releaseTag`, `sigstoreTrust`) are not recorded; the digest a
+ * release tag resolved to is in the receipt's document. Neither are listeners.
+ */
+export type ReceiptOptions = Omit<VerifierOptions, 'serverURL' | 'sigstoreTrust' | 'releaseTag' | 'onStep'>;
+
+export interface VerificationReceipt {
+  version: typeof RECEIPT_VERSION;
+  /** When the bundle was verified, or the verification time it was checked at (ISO 8601) */
+  verifiedAt: string;
+  /** Verifier configuration the bundle was checked against */
+  options: ReceiptOptions;
+  /** The attestation bundle that was verified */
+  bundle: AttestationBundle;
+  /** The verification document the verification produced */
+  document: VerificationDocument;
+}
+
+/**
+ * Serialize a receipt as canonical JSON: object keys sorted, no whitespace,
+ * undefined values omitted. Byte arrays and certificates in the policy are
+ * encoded as hex.
+ *
+ * @param receipt - The receipt to serialize
+ * @returns The canonical JSON encoding
+ * @throws ConfigurationError if the receipt holds values that cannot be
+ *   recorded, e.g. certificate table validator functions
+ */
+export function serializeReceipt(receipt: VerificationReceipt): string {
+  return JSON.stringify(canonicalize(receipt));
+}
+
+/**
+ * Parse a receipt produced by {@link serializeReceipt}.
+ *
+ * @param json - The receipt JSON
+ * @returns The receipt, with byte arrays and certificates restored
+ * @throws ConfigurationError if the JSON is not a supported receipt
+ */
+export function parseReceipt(json: string): VerificationReceipt {
+  let receipt: VerificationReceipt;
+  try {
+    receipt = JSON.parse(json, (_key, value) => {
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        if (typeof value.$bytes === 'string') return hexToBytes(value.$bytes);
+        if (typeof value.$x509 === 'string') return X509Certificate.parse(hexToBytes(value.$x509));
+      }
+      return value;
+    });
+  } catch (e) {
+    wrapOrThrow(e, ConfigurationError, 'Invalid verification receipt: Failed to parse JSON', ErrorCode.InvalidReceipt);
+  }
+  if (receipt?.version !== RECEIPT_VERSION) {
+    throw new ConfigurationError(`Invalid verification receipt: Unsupported version ${receipt?.version}`, { code: ErrorCode.InvalidReceipt });
+  }
+  return receipt;
+}
+
+/**
+ * Whether two receipt configurations are the same once canonicalized.
+ *
+ * @throws ConfigurationError if either holds values that cannot be recorded
+ */
+export function sameReceiptOptions(a: ReceiptOptions, b: ReceiptOptions): boolean {
+  return JSON.stringify(canonicalize(a)) === JSON.stringify(canonicalize(b));
+}
+
+/**
+ * Rejects values a parsed receipt could not reproduce: functions and class
+ * instances other than byte arrays and certificates.
+ */
+function canonicalize(value: unknown, path = 'receipt'): unknown {
+  if (value instanceof Uint8Array) {
+    return { $bytes: bytesToHex(value) };
+  }
+  if (value instanceof X509Certificate) {
+    return { $x509: bytesToHex(value.root.toDER()) };
+  }
+  if (Array.isArray(value)) {
+    return value.map((v, i) => canonicalize(v, `${path}[${i}]`) ?? null);
+  }
+  if (value && typeof value === 'object') {
+    const proto = Object.getPrototypeOf(value);
+    if (proto !== Object.prototype && proto !== null) {
+      throw notSerializable(path);
+    }
+    const out: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      const v = canonicalize((value as Record<string, unknown>)[key], `${path}.${key}`);
+      if (v !== undefined) out[key] = v;
+    }
+    return out;
+  }
+  if (typeof value === 'function' || typeof value === 'bigint' || typeof value === 'symbol') {
+    throw notSerializable(path);
+  }
+  return value;
+}
+
+function notSerializable(path: string): ConfigurationError {
+  return new ConfigurationError(`Invalid verification receipt: ${path} cannot be serialized`, { code: ErrorCode.InvalidReceipt });
+}
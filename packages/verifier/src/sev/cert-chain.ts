@@ -1,10 +1,12 @@
 import type { Report } from './report.js';
 import type { TCBParts } from './types.js';
 import { ReportSigner } from './constants.js';
-import { ARK_CERT, ASK_CERT } from './certs.js';
+import { TRUSTED_ROOTS } from './certs.js';
+import type { AmdRootCerts } from './certs.js';
+import { vcekHwid } from './utils.js';
 import { X509Certificate } from '@freedomofpress/sigstore-browser';
 import { ASN1Obj, uint8ArrayEqual } from '@freedomofpress/crypto-browser';
-import { AttestationError, wrapOrThrow } from '../errors.js';
+import { AttestationError, wrapOrThrow, ErrorCode } from '../errors.js';
 
 // SEV-SNP VCEK OID definitions
 const SnpOid = {
@@ -18,6 +20,7 @@ const SnpOid = {
   SPL6: '1.3.6.1.4.1.3704.1.3.6',
   SPL7: '1.3.6.1.4.1.3704.1.3.7',
   UCODE: '1.3.6.1.4.1.3704.1.3.8',
+  FMC_SPL: '1.3.6.1.4.1.3704.1.3.9',
   HWID: '1.3.6.1.4.1.3704.1.4',
   CSP_ID: '1.3.6.1.4.1.3704.1.5',
   // Aliases for compatibility
@@ -31,67 +34,123 @@ const OID_RSASSA_PSS = '1.2.840.113549.1.1.10';
 const OID_EC_PUBLIC_KEY = '1.2.840.10045.2.1';
 const OID_SECP384R1 = '1.3.132.0.34';
 
+// Processor families this verifier can build a certificate chain for
+const SUPPORTED_PRODUCTS = ['Milan', 'Genoa', 'Turin'];
+
+/**
+ * AMD certificate chain endorsing an attestation report's signing key.
+ *
+ * For VCEK-signed reports the chain is ARK > ASK > VCEK. For VLEK-signed
+ * reports the intermediate is the ASVK and the leaf is the VLEK; `ask` and
+ * `vcek` then hold those certificates, and `signer` records which chain this is.
+ */
 export class CertificateChain {
   constructor(
     public ark: X509Certificate,
     public ask: X509Certificate,
-    public vcek: X509Certificate
+    public vcek: X509Certificate,
+    public productName: string = 'Genoa',
+    public signer: ReportSigner = ReportSigner.VcekReportSigner
   ) {}
 
-  static async fromReport(report: Report, vcekDer: Uint8Array): Promise<CertificateChain> {
-    if (report.productName !== 'Genoa') {
-      throw new AttestationError(`Unsupported processor: ${report.productName}. This verifier only supports AMD EPYC Genoa processors`);
+  /**
+   * Build the certificate chain for a report, selecting the AMD trust anchors
+   * for the report's processor family and the intermediate for its signing key.
+   *
+   * @param report - The attestation report
+   * @param endorsementKeyDer - VCEK or VLEK certificate in DER format, matching the report's signing key
+   * @param trustedRoots - AMD root certificates keyed by product name
+   * @param asvkPem - ASVK certificate for VLEK-signed reports, overriding the trust anchor's ASVK
+   * @throws AttestationError if the processor family or signing key is unsupported or has no trust anchors
+   */
+  static async fromReport(
+    report: Report,
+    endorsementKeyDer: Uint8Array,
+    trustedRoots: Readonly<Record<string, AmdRootCerts>> = TRUSTED_ROOTS,
+    asvkPem?: string
+  ): Promise<CertificateChain> {
+    const product = report.productName;
+    if (!SUPPORTED_PRODUCTS.includes(product)) {
+      throw new AttestationError(`Unsupported processor: ${product}. This verifier only supports AMD EPYC ${SUPPORTED_PRODUCTS.join(', ')} processors`, { code: ErrorCode.MalformedEvidence });
+    }
+
+    const signer = report.signerInfoParsed.signingKey;
+    if (signer !== ReportSigner.VcekReportSigner && signer !== ReportSigner.VlekReportSigner) {
+      throw new AttestationError('Unsupported signing key: This verifier only supports VCEK- and VLEK-signed attestation reports', { code: ErrorCode.MalformedEvidence });
+    }
+
+    const roots = trustedRoots[product];
+    if (!roots) {
+      throw new AttestationError(`Missing AMD trust anchors: No ARK/ASK certificates are configured for ${product} processors`, { code: ErrorCode.MissingEvidence });
+    }
+
+    let intermediate = roots.ask;
+    if (signer === ReportSigner.VlekReportSigner) {
+      const asvk = asvkPem ?? roots.asvk;
+      if (!asvk) {
+        throw new AttestationError(`Missing AMD trust anchors: No ASVK certificate is available to verify a VLEK-signed report on ${product} processors`, { code: ErrorCode.MissingEvidence });
+      }
+      intermediate = asvk;
     }
 
-    if (report.signerInfoParsed.signingKey !== ReportSigner.VcekReportSigner) {
-      throw new AttestationError('Unsupported signing key: This verifier only supports VCEK-signed attestation reports');
-    }
+    const ark = X509Certificate.parse(roots.ark);
+    const ask = X509Certificate.parse(intermediate);
+    const leaf = X509Certificate.parse(endorsementKeyDer);
 
-    const ark = X509Certificate.parse(ARK_CERT);
-    const ask = X509Certificate.parse(ASK_CERT);
-    const vcekCert = X509Certificate.parse(vcekDer);
+    return new CertificateChain(ark, ask, leaf, product, signer);
+  }
+
+  /** Name of the report signing key endorsed by this chain ("VCEK" or "VLEK") */
+  get keyName(): string {
+    return this.signer === ReportSigner.VlekReportSigner ? 'VLEK' : 'VCEK';
+  }
 
-    return new CertificateChain(ark, ask, vcekCert);
+  /** Name of the intermediate certificate in this chain ("ASK" or "ASVK") */
+  get intermediateName(): string {
+    return this.signer === ReportSigner.VlekReportSigner ? 'ASVK' : 'ASK';
   }
 
-  async verifyChain(): Promise<boolean> {
+  async verifyChain(now: Date = new Date()): Promise<boolean> {
     try {
       // Validate certificate formats
       this.validateArkFormat();
       this.validateAskFormat();
-      this.validateVcekFormat();
+      if (this.signer === ReportSigner.VlekReportSigner) {
+        this.validateVlekFormat();
+      } else {
+        this.validateVcekFormat();
+      }
 
       // Validate certificate validity periods
-      const now = new Date();
       if (!this.ark.validForDate(now)) {
-        throw new AttestationError('AMD Root Key (ARK) certificate has expired or is not yet valid');
+        throw new AttestationError('AMD Root Key (ARK) certificate has expired or is not yet valid', { code: ErrorCode.CertificateChainInvalid });
       }
       if (!this.ask.validForDate(now)) {
-        throw new AttestationError('AMD SEV Key (ASK) certificate has expired or is not yet valid');
+        throw new AttestationError(`${this.intermediateName} certificate has expired or is not yet valid`, { code: ErrorCode.CertificateChainInvalid });
       }
       if (!this.vcek.validForDate(now)) {
-        throw new AttestationError('VCEK certificate has expired or is not yet valid');
+        throw new AttestationError(`${this.keyName} certificate has expired or is not yet valid`, { code: ErrorCode.CertificateChainInvalid });
       }
 
-      // Verify signature chain: ARK self-signed, ARK signs ASK, ASK signs VCEK
+      // Verify signature chain: ARK self-signed, ARK signs ASK (or ASVK), which signs the VCEK (or VLEK)
       const arkSelfSigned = await this.ark.verify();
       if (!arkSelfSigned) {
-        throw new AttestationError('AMD Root Key (ARK) certificate signature verification failed: Not properly self-signed');
+        throw new AttestationError('AMD Root Key (ARK) certificate signature verification failed: Not properly self-signed', { code: ErrorCode.CertificateChainInvalid });
       }
 
       const askSignedByArk = await this.ask.verify(this.ark);
       if (!askSignedByArk) {
-        throw new AttestationError('AMD SEV Key (ASK) certificate signature verification failed: Not signed by ARK');
+        throw new AttestationError(`${this.intermediateName} certificate signature verification failed: Not signed by ARK`, { code: ErrorCode.CertificateChainInvalid });
       }
 
       const vcekSignedByAsk = await this.vcek.verify(this.ask);
       if (!vcekSignedByAsk) {
-        throw new AttestationError('VCEK certificate signature verification failed: Not signed by ASK');
+        throw new AttestationError(`${this.keyName} certificate signature verification failed: Not signed by ${this.intermediateName}`, { code: ErrorCode.CertificateChainInvalid });
       }
 
       return true;
     } catch (e) {
-      wrapOrThrow(e, AttestationError, 'AMD certificate chain verification failed');
+      wrapOrThrow(e, AttestationError, 'AMD certificate chain verification failed', ErrorCode.CertificateChainInvalid);
     }
   }
 
@@ -99,154 +158,194 @@ export class CertificateChain {
     // Validate BL_SPL
     const blSplExt = this.vcek.extension(SnpOid.BL_SPL);
     if (!blSplExt) {
-      throw new AttestationError('Invalid VCEK certificate: Missing bootloader security patch level (BL_SPL) extension');
+      throw new AttestationError(`Invalid ${this.keyName} certificate: Missing bootloader security patch level (BL_SPL) extension`, { code: ErrorCode.CertificateChainInvalid });
     }
     const blSpl = this.decodeExtensionInteger(blSplExt.value);
     if (blSpl !== tcb.blSpl) {
-      throw new AttestationError(`VCEK TCB mismatch: Bootloader SPL in certificate (${blSpl}) does not match report (${tcb.blSpl})`);
+      throw new AttestationError(`${this.keyName} TCB mismatch: Bootloader SPL in certificate (${blSpl}) does not match report (${tcb.blSpl})`, { code: ErrorCode.TcbMismatch });
     }
 
     // Validate TEE_SPL
     const teeSplExt = this.vcek.extension(SnpOid.TEE_SPL);
     if (!teeSplExt) {
-      throw new AttestationError('Invalid VCEK certificate: Missing TEE security patch level (TEE_SPL) extension');
+      throw new AttestationError(`Invalid ${this.keyName} certificate: Missing TEE security patch level (TEE_SPL) extension`, { code: ErrorCode.CertificateChainInvalid });
     }
     const teeSpl = this.decodeExtensionInteger(teeSplExt.value);
     if (teeSpl !== tcb.teeSpl) {
-      throw new AttestationError(`VCEK TCB mismatch: TEE SPL in certificate (${teeSpl}) does not match report (${tcb.teeSpl})`);
+      throw new AttestationError(`${this.keyName} TCB mismatch: TEE SPL in certificate (${teeSpl}) does not match report (${tcb.teeSpl})`, { code: ErrorCode.TcbMismatch });
     }
 
     // Validate SNP_SPL
     const snpSplExt = this.vcek.extension(SnpOid.SNP_SPL);
     if (!snpSplExt) {
-      throw new AttestationError('Invalid VCEK certificate: Missing SNP security patch level (SNP_SPL) extension');
+      throw new AttestationError(`Invalid ${this.keyName} certificate: Missing SNP security patch level (SNP_SPL) extension`, { code: ErrorCode.CertificateChainInvalid });
     }
     const snpSpl = this.decodeExtensionInteger(snpSplExt.value);
     if (snpSpl !== tcb.snpSpl) {
-      throw new AttestationError(`VCEK TCB mismatch: SNP SPL in certificate (${snpSpl}) does not match report (${tcb.snpSpl})`);
+      throw new AttestationError(`${this.keyName} TCB mismatch: SNP SPL in certificate (${snpSpl}) does not match report (${tcb.snpSpl})`, { code: ErrorCode.TcbMismatch });
     }
 
     // Validate UCODE
     const ucodeExt = this.vcek.extension(SnpOid.UCODE);
     if (!ucodeExt) {
-      throw new AttestationError('Invalid VCEK certificate: Missing microcode security patch level (UCODE) extension');
+      throw new AttestationError(`Invalid ${this.keyName} certificate: Missing microcode security patch level (UCODE) extension`, { code: ErrorCode.CertificateChainInvalid });
     }
     const ucodeSpl = this.decodeExtensionInteger(ucodeExt.value);
     if (ucodeSpl !== tcb.ucodeSpl) {
-      throw new AttestationError(`VCEK TCB mismatch: Microcode SPL in certificate (${ucodeSpl}) does not match report (${tcb.ucodeSpl})`);
+      throw new AttestationError(`${this.keyName} TCB mismatch: Microcode SPL in certificate (${ucodeSpl}) does not match report (${tcb.ucodeSpl})`, { code: ErrorCode.TcbMismatch });
+    }
+
+    // Validate FMC_SPL (Turin and later)
+    if (tcb.fmcSpl !== undefined) {
+      const fmcSplExt = this.vcek.extension(SnpOid.FMC_SPL);
+      if (!fmcSplExt) {
+        throw new AttestationError(`Invalid ${this.keyName} certificate: Missing FMC security patch level (FMC_SPL) extension`, { code: ErrorCode.CertificateChainInvalid });
+      }
+      const fmcSpl = this.decodeExtensionInteger(fmcSplExt.value);
+      if (fmcSpl !== tcb.fmcSpl) {
+        throw new AttestationError(`${this.keyName} TCB mismatch: FMC SPL in certificate (${fmcSpl}) does not match report (${tcb.fmcSpl})`, { code: ErrorCode.TcbMismatch });
+      }
     }
   }
 
   validateVcekHwid(chipId: Uint8Array): void {
     const hwidExt = this.vcek.extension(SnpOid.HWID);
     if (!hwidExt) {
-      throw new AttestationError('Invalid VCEK certificate: Missing hardware ID (HWID) extension');
+      throw new AttestationError('Invalid VCEK certificate: Missing hardware ID (HWID) extension', { code: ErrorCode.CertificateChainInvalid });
     }
 
-    // The HWID extension value is the raw chip ID bytes
-    if (!uint8ArrayEqual(hwidExt.value, chipId)) {
-      throw new AttestationError('VCEK hardware ID mismatch: Certificate HWID does not match the chip ID in the attestation report');
+    // The HWID extension value is the raw chip ID bytes, truncated on Turin
+    if (!uint8ArrayEqual(hwidExt.value, vcekHwid(chipId, this.productName))) {
+      throw new AttestationError('VCEK hardware ID mismatch: Certificate HWID does not match the chip ID in the attestation report', { code: ErrorCode.CertificateChainInvalid });
     }
   }
 
   private validateArkFormat(): void {
     // Validate certificate version (must be v3)
     if (this.ark.version !== 'v3') {
-      throw new AttestationError(`Invalid ARK certificate: Expected X.509 version v3, got ${this.ark.version}`);
+      throw new AttestationError(`Invalid ARK certificate: Expected X.509 version v3, got ${this.ark.version}`, { code: ErrorCode.CertificateChainInvalid });
     }
 
     // Validate AMD location for issuer and subject
     if (!this.validateAmdLocation(this.ark.issuerDN)) {
-      throw new AttestationError('Invalid ARK certificate: Issuer is not a valid AMD organization');
+      throw new AttestationError('Invalid ARK certificate: Issuer is not a valid AMD organization', { code: ErrorCode.CertificateChainInvalid });
     }
     if (!this.validateAmdLocation(this.ark.subjectDN)) {
-      throw new AttestationError('Invalid ARK certificate: Subject is not a valid AMD organization');
+      throw new AttestationError('Invalid ARK certificate: Subject is not a valid AMD organization', { code: ErrorCode.CertificateChainInvalid });
     }
 
     // Check common name
     const cn = this.ark.subjectDN.get('CN');
-    if (cn !== 'ARK-Genoa') {
-      throw new AttestationError(`Invalid ARK certificate: Expected common name "ARK-Genoa", got "${cn}"`);
+    if (cn !== `ARK-${this.productName}`) {
+      throw new AttestationError(`Invalid ARK certificate: Expected common name "ARK-${this.productName}", got "${cn}"`, { code: ErrorCode.CertificateChainInvalid });
     }
   }
 
   private validateAskFormat(): void {
     // Validate certificate version (must be v3)
     if (this.ask.version !== 'v3') {
-      throw new AttestationError(`Invalid ASK certificate: Expected X.509 version v3, got ${this.ask.version}`);
+      throw new AttestationError(`Invalid ${this.intermediateName} certificate: Expected X.509 version v3, got ${this.ask.version}`, { code: ErrorCode.CertificateChainInvalid });
     }
 
     // Validate AMD location
     if (!this.validateAmdLocation(this.ask.issuerDN)) {
-      throw new AttestationError('Invalid ASK certificate: Issuer is not a valid AMD organization');
+      throw new AttestationError(`Invalid ${this.intermediateName} certificate: Issuer is not a valid AMD organization`, { code: ErrorCode.CertificateChainInvalid });
     }
     if (!this.validateAmdLocation(this.ask.subjectDN)) {
-      throw new AttestationError('Invalid ASK certificate: Subject is not a valid AMD organization');
+      throw new AttestationError(`Invalid ${this.intermediateName} certificate: Subject is not a valid AMD organization`, { code: ErrorCode.CertificateChainInvalid });
     }
 
-    // Check common name is exactly "SEV-Genoa" (ASK cert uses SEV-Genoa)
+    // Check common name is exactly "SEV-<product>" (e.g. SEV-Genoa),
+    // or "SEV-VLEK-<product>" for the ASVK
+    const expected = this.signer === ReportSigner.VlekReportSigner ? `SEV-VLEK-${this.productName}` : `SEV-${this.productName}`;
     const cn = this.ask.subjectDN.get('CN');
-    if (cn !== 'SEV-Genoa') {
-      throw new AttestationError(`Invalid ASK certificate: Expected common name "SEV-Genoa", got "${cn}"`);
+    if (cn !== expected) {
+      throw new AttestationError(`Invalid ${this.intermediateName} certificate: Expected common name "${expected}", got "${cn}"`, { code: ErrorCode.CertificateChainInvalid });
     }
   }
 
   private validateVcekFormat(): void {
+    this.validateEndorsementKeyFormat();
+
+    // CSP_ID must NOT be present (critical for VCEK vs VLEK distinction)
+    const cspIdExt = this.vcek.extension(SnpOid.CSP_ID);
+    if (cspIdExt) {
+      throw new AttestationError('Invalid VCEK certificate: CSP_ID extension should not be present (this looks like a VLEK certificate)', { code: ErrorCode.CertificateChainInvalid });
+    }
+
+    // HWID must be present and correct length
+    const hwidExt = this.vcek.extension(SnpOid.HWID);
+    if (!hwidExt || hwidExt.value.length !== (this.productName === 'Turin' ? 8 : 64)) {
+      throw new AttestationError('Invalid VCEK certificate: Missing or malformed hardware ID (HWID) extension', { code: ErrorCode.CertificateChainInvalid });
+    }
+  }
+
+  private validateVlekFormat(): void {
+    this.validateEndorsementKeyFormat();
+
+    // A VLEK is issued to a cloud service provider rather than a chip, so it
+    // names the provider in CSP_ID and carries no hardware ID
+    const cspIdExt = this.vcek.extension(SnpOid.CSP_ID);
+    if (!cspIdExt || !this.decodeExtensionString(cspIdExt.value)) {
+      throw new AttestationError('Invalid VLEK certificate: Missing or malformed cloud service provider ID (CSP_ID) extension', { code: ErrorCode.CertificateChainInvalid });
+    }
+
+    const hwidExt = this.vcek.extension(SnpOid.HWID);
+    if (hwidExt) {
+      throw new AttestationError('Invalid VLEK certificate: HWID extension should not be present (this looks like a VCEK certificate)', { code: ErrorCode.CertificateChainInvalid });
+    }
+  }
+
+  /**
+   * Checks shared by VCEK and VLEK certificates.
+   */
+  private validateEndorsementKeyFormat(): void {
+    const name = this.keyName;
+
     // Validate certificate version (must be v3)
     if (this.vcek.version !== 'v3') {
-      throw new AttestationError(`Invalid VCEK certificate: Expected X.509 version v3, got ${this.vcek.version}`);
+      throw new AttestationError(`Invalid ${name} certificate: Expected X.509 version v3, got ${this.vcek.version}`, { code: ErrorCode.CertificateChainInvalid });
     }
 
     // Validate AMD location
     if (!this.validateAmdLocation(this.vcek.issuerDN)) {
-      throw new AttestationError('Invalid VCEK certificate: Issuer is not a valid AMD organization');
+      throw new AttestationError(`Invalid ${name} certificate: Issuer is not a valid AMD organization`, { code: ErrorCode.CertificateChainInvalid });
     }
     if (!this.validateAmdLocation(this.vcek.subjectDN)) {
-      throw new AttestationError('Invalid VCEK certificate: Subject is not a valid AMD organization');
+      throw new AttestationError(`Invalid ${name} certificate: Subject is not a valid AMD organization`, { code: ErrorCode.CertificateChainInvalid });
     }
 
     // Validate common name
     const cn = this.vcek.subjectDN.get('CN');
-    if (cn !== 'SEV-VCEK') {
-      throw new AttestationError(`Invalid VCEK certificate: Expected common name "SEV-VCEK", got "${cn}"`);
+    if (cn !== `SEV-${name}`) {
+      throw new AttestationError(`Invalid ${name} certificate: Expected common name "SEV-${name}", got "${cn}"`, { code: ErrorCode.CertificateChainInvalid });
     }
 
-    // Validate signature algorithm (must be RSASSA-PSS for VCEK signed by ASK)
+    // Validate signature algorithm (must be RSASSA-PSS, signed by the ASK or ASVK)
     const sigAlgOid = this.getSignatureAlgorithmOid(this.vcek);
     if (sigAlgOid !== OID_RSASSA_PSS) {
-      throw new AttestationError('Invalid VCEK certificate: Signature algorithm must be RSASSA-PSS');
+      throw new AttestationError(`Invalid ${name} certificate: Signature algorithm must be RSASSA-PSS`, { code: ErrorCode.CertificateChainInvalid });
     }
 
     // Validate public key algorithm and curve
     const { algorithm, curve } = this.getPublicKeyInfo(this.vcek);
     if (algorithm !== OID_EC_PUBLIC_KEY) {
-      throw new AttestationError('Invalid VCEK certificate: Public key must be ECDSA');
+      throw new AttestationError(`Invalid ${name} certificate: Public key must be ECDSA`, { code: ErrorCode.CertificateChainInvalid });
     }
     if (curve !== OID_SECP384R1) {
-      throw new AttestationError('Invalid VCEK certificate: Public key curve must be secp384r1 (P-384)');
-    }
-
-    // CSP_ID must NOT be present (critical for VCEK vs VLEK distinction)
-    const cspIdExt = this.vcek.extension(SnpOid.CSP_ID);
-    if (cspIdExt) {
-      throw new AttestationError('Invalid VCEK certificate: CSP_ID extension should not be present (this looks like a VLEK certificate)');
-    }
-
-    // HWID must be present and correct length
-    const hwidExt = this.vcek.extension(SnpOid.HWID);
-    if (!hwidExt || hwidExt.value.length !== 64) {
-      throw new AttestationError('Invalid VCEK certificate: Missing or malformed hardware ID (HWID) extension');
+      throw new AttestationError(`Invalid ${name} certificate: Public key curve must be secp384r1 (P-384)`, { code: ErrorCode.CertificateChainInvalid });
     }
 
     // Product name validation
     const productNameExt = this.vcek.extension(SnpOid.PRODUCT_NAME);
     if (!productNameExt) {
-      throw new AttestationError('Invalid VCEK certificate: Missing product name extension');
+      throw new AttestationError(`Invalid ${name} certificate: Missing product name extension`, { code: ErrorCode.CertificateChainInvalid });
     }
-    // The extension value should be DER-encoded IA5String: tag 0x16, length 0x05, value "Genoa"
-    const expectedProductName = new Uint8Array([0x16, 0x05, 0x47, 0x65, 0x6e, 0x6f, 0x61]);
-    if (!uint8ArrayEqual(productNameExt.value, expectedProductName)) {
-      throw new AttestationError('Invalid VCEK certificate: Product name must be "Genoa"');
+    // The extension value should be a DER-encoded IA5String (tag 0x16) naming the
+    // product, optionally followed by the stepping (e.g. "Genoa" or "Milan-B0")
+    const productName = this.decodeExtensionString(productNameExt.value);
+    if (productName !== this.productName && !productName?.startsWith(`${this.productName}-`)) {
+      throw new AttestationError(`Invalid ${name} certificate: Product name must be "${this.productName}", got "${productName}"`, { code: ErrorCode.CertificateChainInvalid });
     }
   }
 
@@ -290,6 +389,14 @@ export class CertificateChain {
     return Number(asn1.toInteger());
   }
 
+  private decodeExtensionString(value: Uint8Array): string | undefined {
+    const asn1 = ASN1Obj.parseBuffer(value);
+    if (asn1.tag.number !== 0x16) {
+      return undefined;
+    }
+    return new TextDecoder().decode(asn1.value);
+  }
+
   get vcekPublicKey(): Promise<CryptoKey> {
     return this.vcek.publicKeyObj;
   }
@@ -0,0 +1,108 @@
+import type { Report } from './report.js';
+import { bytesToHex } from './utils.js';
+import { AttestationError, ErrorCode } from '../errors.js';
+
+/**
+ * GUIDs identifying the certificates an SNP host may return alongside an
+ * extended attestation report (GHCB specification, section 4.1.8.1).
+ * The ASK entry holds the ASVK when the report is VLEK-signed.
+ */
+export const CertTableGuid = {
+  ARK: 'c0b406a4-a803-4952-9743-3fb6014cd0ae',
+  ASK: '4ab7b379-bbac-4fe4-a02f-05aef327c782',
+  VCEK: '63da758d-e664-4564-adc5-f4b93be8accd',
+  VLEK: 'a8074bc2-a25a-483e-aae6-39c045a0b8a1',
+} as const;
+
+// Each table entry is a 16-byte GUID followed by a uint32 offset and length
+const ENTRY_SIZE = 24;
+
+/**
+ * Parse an SNP extended-report certificate table.
+ *
+ * The table is a list of entries terminated by an all-zero entry, followed by
+ * the certificate data the entries point into. Offsets are relative to the
+ * start of the table.
+ *
+ * @param data - Raw bytes of the certificate table
+ * @returns Certificate blobs keyed by lowercase GUID
+ * @throws AttestationError if the table is malformed
+ */
+export function parseCertTable(data: Uint8Array): Map<string, Uint8Array> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const entries = new Map<string, Uint8Array>();
+
+  for (let off = 0; ; off += ENTRY_SIZE) {
+    if (off + ENTRY_SIZE > data.length) {
+      throw new AttestationError('Invalid certificate table: Missing terminating entry', { code: ErrorCode.MalformedEvidence });
+    }
+
+    const guidBytes = data.subarray(off, off + 16);
+    const offset = view.getUint32(off + 16, true);
+    const length = view.getUint32(off + 20, true);
+    if (guidBytes.every(b => b === 0) && offset === 0 && length === 0) {
+      return entries;
+    }
+
+    const guid = formatGuid(guidBytes);
+    if (offset + length > data.length) {
+      throw new AttestationError(`Invalid certificate table: Entry ${guid} exceeds the table size`, { code: ErrorCode.MalformedEvidence });
+    }
+    if (entries.has(guid)) {
+      throw new AttestationError(`Invalid certificate table: Duplicate entry ${guid}`, { code: ErrorCode.MalformedEvidence });
+    }
+    entries.set(guid, data.slice(offset, offset + length));
+  }
+}
+
+function formatGuid(bytes: Uint8Array): string {
+  const hex = bytesToHex(bytes);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Whether a certificate table entry must be present.
+ */
+export enum CertEntryKind {
+  AllowMissing = 'allow-missing',
+  Require = 'require',
+}
+
+/**
+ * Validation rule for one certificate table entry.
+ */
+export interface CertEntryOption {
+  kind: CertEntryKind;
+  /** Checks the entry's contents against the report; throw to reject */
+  validate?: (report: Report, blob: Uint8Array) => void | Promise<void>;
+}
+
+/**
+ * Apply per-entry validation rules to a report's certificate table.
+ *
+ * @param report - The attestation report the table was returned with
+ * @param table - Parsed certificate table, or undefined if none was returned
+ * @param options - Validation rules keyed by GUID
+ * @throws AttestationError if a required entry is missing or an entry fails validation
+ */
+export async function validateCertTable(
+  report: Report,
+  table: Map<string, Uint8Array> | undefined,
+  options: Record<string, CertEntryOption>
+): Promise<void> {
+  for (const [guid, option] of Object.entries(options)) {
+    const blob = table?.get(guid.toLowerCase());
+    if (!blob) {
+      if (option.kind === CertEntryKind.Require) {
+        throw new AttestationError(`Missing certificate table entry: ${guid} is required`, { code: ErrorCode.MissingEvidence });
+      }
+      continue;
+    }
+
+    try {
+      await option.validate?.(report, blob);
+    } catch (e) {
+      throw new AttestationError(`Certificate table entry ${guid} failed validation: ${(e as Error).message}`, { cause: e as Error });
+    }
+  }
+}
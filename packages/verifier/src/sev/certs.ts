@@ -75,3 +75,18 @@ Z027vDWv3811vMoxYxhuTRaokvNWCSzmJ2EWrPYHcHOtkjSFKN7ot0Rc70fIRZEY
 c2rb3ywLSicEq3JQCnnz6iCZ1tMfplzcrJ2LnW2F1C8yRV+okylyORlsaxOLKYOW
 jaDTSFaq1NIwodHp7X9fOG48uRuJWS8GmifD969sC4Ut2FJFoklceBVUNCHR
 -----END CERTIFICATE-----`;
+
+/**
+ * PEM-encoded AMD root certificates for one processor family.
+ */
+export interface AmdRootCerts {
+  ark: string;  // AMD Root Key, CN=ARK-<product>
+  ask: string;  // AMD SEV Key, CN=SEV-<product>
+  asvk?: string;  // AMD SEV VLEK Key, CN=SEV-VLEK-<product>; required to verify VLEK-signed reports
+}
+
+// Bundled trust anchors, keyed by product name. Callers verifying Milan or
+// Turin reports supply those families' anchors via `amdTrustedRoots`.
+export const TRUSTED_ROOTS: Readonly<Record<string, AmdRootCerts>> = {
+  Genoa: { ark: ARK_CERT, ask: ASK_CERT },
+};
@@ -0,0 +1,119 @@
+import type { CertificateChain } from './cert-chain.js';
+import { bytesToHex } from './utils.js';
+import type { X509Certificate } from '@freedomofpress/sigstore-browser';
+import { ASN1Obj } from '@freedomofpress/crypto-browser';
+import { AttestationError, wrapOrThrow, ErrorCode } from '../errors.js';
+
+const OID_RSASSA_PSS = '1.2.840.113549.1.1.10';
+
+/**
+ * AMD certificate revocation list, as served by the AMD KDS for a processor
+ * family. Signed by the family's ARK and lists the serial numbers of revoked
+ * certificates the ARK issued, i.e. ASKs and ASVKs.
+ */
+export class RevocationList {
+  tbsCertList: Uint8Array;
+  signatureAlgorithm: string;
+  signature: Uint8Array;
+  thisUpdate: Date;
+  nextUpdate?: Date;
+  revokedSerials: Set<bigint>;
+
+  /**
+   * Parse a DER-encoded X.509 CRL (RFC 5280, section 5.1).
+   *
+   * @param der - The DER-encoded CRL
+   * @throws AttestationError if the CRL is malformed
+   */
+  constructor(der: Uint8Array) {
+    try {
+      const [tbs, sigAlg, sigValue] = ASN1Obj.parseBuffer(der).subs;
+      this.tbsCertList = tbs.toDER();
+      this.signatureAlgorithm = sigAlg.subs[0].toOID();
+      // BIT STRING value starts with the number of unused bits
+      this.signature = sigValue.value.slice(1);
+
+      // version is optional; the remaining fields are positional
+      const fields = tbs.subs[0].tag.isInteger() ? tbs.subs.slice(1) : tbs.subs;
+      const [, , thisUpdate, ...rest] = fields;
+      this.thisUpdate = thisUpdate.toDate();
+
+      let next = rest.shift();
+      if (next && (next.tag.isUTCTime() || next.tag.isGeneralizedTime())) {
+        this.nextUpdate = next.toDate();
+        next = rest.shift();
+      }
+
+      this.revokedSerials = new Set();
+      if (next && next.tag.isUniversal() && next.tag.constructed) {
+        for (const entry of next.subs) {
+          this.revokedSerials.add(entry.subs[0].toInteger());
+        }
+      }
+    } catch (e) {
+      throw new AttestationError('Invalid AMD CRL: Failed to parse certificate revocation list', { cause: e as Error, code: ErrorCode.CollateralInvalid });
+    }
+  }
+
+  /**
+   * Verify the CRL was issued by the ARK and is current.
+   *
+   * @param ark - The AMD Root Key certificate for the CRL's processor family
+   * @param now - Instant at which the CRL must be current
+   * @throws AttestationError if the signature is invalid or the CRL is out of date
+   */
+  async verify(ark: X509Certificate, now: Date = new Date()): Promise<void> {
+    if (this.signatureAlgorithm !== OID_RSASSA_PSS) {
+      throw new AttestationError('Invalid AMD CRL: Signature algorithm must be RSASSA-PSS', { code: ErrorCode.CollateralInvalid });
+    }
+
+    let valid: boolean;
+    try {
+      valid = await crypto.subtle.verify(
+        { name: 'RSA-PSS', saltLength: 48 },
+        await ark.getPublicKeyObj('sha384', true),
+        this.signature.slice(),
+        this.tbsCertList.slice(),
+      );
+    } catch (e) {
+      wrapOrThrow(e, AttestationError, 'Failed to verify AMD CRL signature', ErrorCode.CollateralInvalid);
+    }
+    if (!valid) {
+      throw new AttestationError('Invalid AMD CRL: Not signed by ARK', { code: ErrorCode.CollateralInvalid });
+    }
+
+    if (now < this.thisUpdate) {
+      throw new AttestationError(`Invalid AMD CRL: Issued at ${this.thisUpdate.toISOString()}, which is in the future`, { code: ErrorCode.CollateralInvalid });
+    }
+    if (this.nextUpdate && now > this.nextUpdate) {
+      throw new AttestationError(`Invalid AMD CRL: Expired at ${this.nextUpdate.toISOString()}`, { code: ErrorCode.CollateralInvalid });
+    }
+  }
+
+  isRevoked(cert: X509Certificate): boolean {
+    return this.revokedSerials.has(BigInt(`0x${bytesToHex(cert.serialNumber)}`));
+  }
+}
+
+/**
+ * Check a verified certificate chain against the AMD CRL for its processor family.
+ * Only the ASK (or ASVK) is looked up: the CRL covers certificates issued by
+ * the ARK, and AMD issues every VCEK and VLEK with serial number 0, so revoking
+ * an intermediate is how AMD revokes the endorsement keys beneath it.
+ *
+ * @param chain - The certificate chain (ARK > ASK > VCEK, or ARK > ASVK > VLEK)
+ * @param crl - The CRL for the chain's processor family
+ * @param now - Instant at which the CRL must be current
+ * @throws AttestationError if the CRL cannot be trusted or lists a certificate in the chain
+ */
+export async function checkRevocation(
+  chain: CertificateChain,
+  crl: RevocationList,
+  now: Date = new Date()
+): Promise<void> {
+  await crl.verify(chain.ark, now);
+
+  if (crl.isRevoked(chain.ask)) {
+    throw new AttestationError(`Certificate revoked: The ${chain.intermediateName} certificate for ${chain.productName} is listed in the AMD CRL`, { code: ErrorCode.CertificateRevoked });
+  }
+}
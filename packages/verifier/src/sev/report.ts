@@ -12,7 +12,7 @@ import {
   ReportSigner
 } from './constants.js';
 import { policyFromInt, platformInfoFromInt } from './utils.js';
-import { AttestationError } from '../errors.js';
+import { AttestationError, ErrorCode } from '../errors.js';
 
 /**
  * SEV-SNP attestation report
@@ -64,7 +64,7 @@ export class Report {
    */
   constructor(data: Uint8Array) {
     if (data.length < REPORT_SIZE) {
-      throw new AttestationError(`Invalid attestation report: Data size (${data.length} bytes) is smaller than expected SEV-SNP report size (${REPORT_SIZE} bytes)`);
+      throw new AttestationError(`Invalid attestation report: Data size (${data.length} bytes) is smaller than expected SEV-SNP report size (${REPORT_SIZE} bytes)`, { code: ErrorCode.MalformedEvidence });
     }
 
     // Parse all fields using little-endian byte order
@@ -76,12 +76,12 @@ export class Report {
 
     // Check reserved bit must be 1
     if (!(this.policy & (1n << BigInt(POLICY_RESERVED_1_BIT)))) {
-      throw new AttestationError('Invalid attestation report: Policy field has invalid reserved bit (must be 1)');
+      throw new AttestationError('Invalid attestation report: Policy field has invalid reserved bit (must be 1)', { code: ErrorCode.MalformedEvidence });
     }
 
     // Check bits 63-26 must be zero
     if (this.policy >> 26n) {
-      throw new AttestationError('Invalid attestation report: Policy field has non-zero reserved bits');
+      throw new AttestationError('Invalid attestation report: Policy field has non-zero reserved bits', { code: ErrorCode.MalformedEvidence });
     }
 
     this.familyId = data.slice(0x10, 0x20);  // 16 bytes
@@ -90,12 +90,6 @@ export class Report {
     this.signatureAlgo = view.getUint32(0x34, true);
     this.currentTcb = view.getBigUint64(0x38, true);
 
-    try {
-      mbz64(this.currentTcb, 'current_tcb', 47, 16);
-    } catch (e) {
-      throw new AttestationError('Invalid attestation report: TCB (Trusted Computing Base) version field is malformed', { cause: e as Error });
-    }
-
     this.platformInfo = view.getBigUint64(0x40, true);
     // Decode additional helper structures for easier consumption later.
     this.policyParsed = policyFromInt(this.policy);
@@ -105,12 +99,12 @@ export class Report {
     try {
       mbz64(BigInt(this.signerInfo), 'signer_info', 31, 5);
     } catch (e) {
-      throw new AttestationError('Invalid attestation report: Signer info field is malformed', { cause: e as Error });
+      throw new AttestationError('Invalid attestation report: Signer info field is malformed', { cause: e as Error, code: ErrorCode.MalformedEvidence });
     }
 
     const signingKey = (this.signerInfo >> 2) & 7;
-    if (signingKey !== ReportSigner.VcekReportSigner) {
-      throw new AttestationError(`Unsupported signing key type: This verifier only supports VCEK-signed attestation reports (got signing key type ${signingKey})`);
+    if (signingKey !== ReportSigner.VcekReportSigner && signingKey !== ReportSigner.VlekReportSigner) {
+      throw new AttestationError(`Unsupported signing key type: This verifier only supports VCEK- and VLEK-signed attestation reports (got signing key type ${signingKey})`, { code: ErrorCode.MalformedEvidence });
     }
 
     this.signerInfoParsed = {
@@ -122,7 +116,7 @@ export class Report {
     try {
       mbz(data, 0x4c, 0x50);
     } catch (e) {
-      throw new AttestationError('Invalid attestation report: Reserved bytes at offset 0x4C are not zeroed', { cause: e as Error });
+      throw new AttestationError('Invalid attestation report: Reserved bytes at offset 0x4C are not zeroed', { cause: e as Error, code: ErrorCode.MalformedEvidence });
     }
 
     // 0x4C-0x50 is MBZ (Must Be Zero)
@@ -135,12 +129,6 @@ export class Report {
     this.reportIdMa = data.slice(0x160, 0x180);    // 32 bytes
     this.reportedTcb = view.getBigUint64(0x180, true);
 
-    try {
-      mbz64(this.reportedTcb, 'reported_tcb', 47, 16);
-    } catch (e) {
-      throw new AttestationError('Invalid attestation report: Reported TCB field is malformed', { cause: e as Error });
-    }
-
     let mbzLo = 0x188;
     // Version specific parsing
     if (this.version >= 3) {  // Report Version 3
@@ -155,22 +143,35 @@ export class Report {
       this.stepping = 0x01;
       this.productName = 'Genoa';
     } else {
-      throw new AttestationError(`Unsupported attestation report version: ${this.version}. Only version 2 (revision 1.55) and version 3+ are supported`);
+      throw new AttestationError(`Unsupported attestation report version: ${this.version}. Only version 2 (revision 1.55) and version 3+ are supported`, { code: ErrorCode.MalformedEvidence });
     }
 
     try {
       mbz(data, mbzLo, 0x1a0);
     } catch (e) {
-      throw new AttestationError('Invalid attestation report: Reserved bytes in version section are not zeroed', { cause: e as Error });
+      throw new AttestationError('Invalid attestation report: Reserved bytes in version section are not zeroed', { cause: e as Error, code: ErrorCode.MalformedEvidence });
+    }
+
+    // The TCB reserved bits depend on the product's TCB_VERSION layout
+    try {
+      this.mbzTcb(this.currentTcb, 'current_tcb');
+    } catch (e) {
+      throw new AttestationError('Invalid attestation report: TCB (Trusted Computing Base) version field is malformed', { cause: e as Error, code: ErrorCode.MalformedEvidence });
+    }
+
+    try {
+      this.mbzTcb(this.reportedTcb, 'reported_tcb');
+    } catch (e) {
+      throw new AttestationError('Invalid attestation report: Reported TCB field is malformed', { cause: e as Error, code: ErrorCode.MalformedEvidence });
     }
 
     this.chipId = data.slice(0x1a0, 0x1e0);        // 64 bytes
     this.committedTcb = view.getBigUint64(0x1e0, true);
 
     try {
-      mbz64(this.committedTcb, 'committed_tcb', 47, 16);
+      this.mbzTcb(this.committedTcb, 'committed_tcb');
     } catch (e) {
-      throw new AttestationError('Invalid attestation report: Committed TCB field is malformed', { cause: e as Error });
+      throw new AttestationError('Invalid attestation report: Committed TCB field is malformed', { cause: e as Error, code: ErrorCode.MalformedEvidence });
     }
 
     // Version fields
@@ -181,7 +182,7 @@ export class Report {
     try {
       mbz(data, 0x1eb, 0x1ec);
     } catch (e) {
-      throw new AttestationError('Invalid attestation report: Reserved bytes after current version are not zeroed', { cause: e as Error });
+      throw new AttestationError('Invalid attestation report: Reserved bytes after current version are not zeroed', { cause: e as Error, code: ErrorCode.MalformedEvidence });
     }
 
     this.committedBuild = view.getUint8(0x1ec);
@@ -191,15 +192,15 @@ export class Report {
     try {
       mbz(data, 0x1ef, 0x1f0);
     } catch (e) {
-      throw new AttestationError('Invalid attestation report: Reserved bytes after committed version are not zeroed', { cause: e as Error });
+      throw new AttestationError('Invalid attestation report: Reserved bytes after committed version are not zeroed', { cause: e as Error, code: ErrorCode.MalformedEvidence });
     }
 
     this.launchTcb = view.getBigUint64(0x1f0, true);
 
     try {
-      mbz64(this.launchTcb, 'launch_tcb', 47, 16);
+      this.mbzTcb(this.launchTcb, 'launch_tcb');
     } catch (e) {
-      throw new AttestationError('Invalid attestation report: Launch TCB field is malformed', { cause: e as Error });
+      throw new AttestationError('Invalid attestation report: Launch TCB field is malformed', { cause: e as Error, code: ErrorCode.MalformedEvidence });
     }
 
     // 0x1F8-0x200: launch_mit_vector (valid field in v5+)
@@ -210,14 +211,14 @@ export class Report {
     try {
       mbz(data, mbzBeforeSig, SIGNATURE_OFFSET);
     } catch (e) {
-      throw new AttestationError('Invalid attestation report: Reserved bytes before signature are not zeroed', { cause: e as Error });
+      throw new AttestationError('Invalid attestation report: Reserved bytes before signature are not zeroed', { cause: e as Error, code: ErrorCode.MalformedEvidence });
     }
 
     if (this.signatureAlgo === 1) {  // ECDSA P-384 SHA-384
       try {
         mbz(data, SIGNATURE_OFFSET + ECDSA_P384_SHA384_SIGNATURE_SIZE, REPORT_SIZE);
       } catch (e) {
-        throw new AttestationError('Invalid attestation report: Reserved bytes after signature are not zeroed', { cause: e as Error });
+        throw new AttestationError('Invalid attestation report: Reserved bytes after signature are not zeroed', { cause: e as Error, code: ErrorCode.MalformedEvidence });
       }
     }
 
@@ -225,6 +226,17 @@ export class Report {
     this.signature = data.slice(SIGNATURE_OFFSET, REPORT_SIZE);
   }
 
+  /**
+   * Checks the reserved bits of a TCB_VERSION: bytes 2-5, or bytes 4-6 on Turin.
+   */
+  private mbzTcb(tcb: bigint, base: string): void {
+    if (this.productName === 'Turin') {
+      mbz64(tcb, base, 55, 32);
+    } else {
+      mbz64(tcb, base, 47, 16);
+    }
+  }
+
   private initProductName(): string {
     if (this.family === ZEN3ZEN4_FAMILY) {
       if (this.model === MILAN_MODEL) return 'Milan';
@@ -265,7 +277,7 @@ function mbz(data: Uint8Array, lo: number, hi: number): void {
     const hexStr = Array.from(data.slice(lo, hi))
       .map(b => b.toString(16).padStart(2, '0'))
       .join('');
-    throw new AttestationError(`reserved bytes at offset 0x${lo.toString(16)}-0x${hi.toString(16)} contain non-zero data: ${hexStr}`);
+    throw new AttestationError(`reserved bytes at offset 0x${lo.toString(16)}-0x${hi.toString(16)} contain non-zero data: ${hexStr}`, { code: ErrorCode.MalformedEvidence });
   }
 }
 
@@ -284,6 +296,6 @@ function mbz64(data: bigint, base: string, hi: number, lo: number): void {
   // Extract and check the bits
   const bits = (data >> BigInt(lo)) & mask;
   if (bits !== 0n) {
-    throw new AttestationError(`Reserved bits in ${base} field contain non-zero data: 0x${data.toString(16)}`);
+    throw new AttestationError(`Reserved bits in ${base} field contain non-zero data: 0x${data.toString(16)}`, { code: ErrorCode.MalformedEvidence });
   }
 }
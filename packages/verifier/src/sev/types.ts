@@ -11,6 +11,7 @@ export interface TCBParts {
   snpSpl: number;
   teeSpl: number;
   blSpl: number;
+  fmcSpl?: number;  // Turin and later only
 }
 
 export interface SnpPlatformInfo {
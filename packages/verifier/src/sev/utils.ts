@@ -1,6 +1,21 @@
 import type { TCBParts, SnpPlatformInfo, SnpPolicy } from './types.js';
+import { ASN1Obj } from '@freedomofpress/crypto-browser';
 
-export function tcbFromInt(tcb: bigint): TCBParts {
+/**
+ * Decode a TCB_VERSION for the given product. Turin adds the FMC SPL in
+ * byte 0 and moves the bootloader, TEE and SNP SPLs up; Milan and Genoa
+ * share the original layout.
+ */
+export function tcbFromInt(tcb: bigint, productName?: string): TCBParts {
+  if (productName === 'Turin') {
+    return {
+      ucodeSpl: Number((tcb >> 56n) & 0xffn),
+      snpSpl: Number((tcb >> 24n) & 0xffn),
+      teeSpl: Number((tcb >> 16n) & 0xffn),
+      blSpl: Number((tcb >> 8n) & 0xffn),
+      fmcSpl: Number(tcb & 0xffn),
+    };
+  }
   return {
     ucodeSpl: Number((tcb >> 56n) & 0xffn),
     snpSpl: Number((tcb >> 48n) & 0xffn),
@@ -9,12 +24,21 @@ export function tcbFromInt(tcb: bigint): TCBParts {
   };
 }
 
+/**
+ * The hardware ID a VCEK is issued for: the full chip ID, or its first
+ * 8 bytes on Turin.
+ */
+export function vcekHwid(chipId: Uint8Array, productName?: string): Uint8Array {
+  return productName === 'Turin' ? chipId.slice(0, 8) : chipId;
+}
+
 export function tcbMeetsMinimum(tcb: TCBParts, minimum: TCBParts): boolean {
   return (
     tcb.blSpl >= minimum.blSpl &&
     tcb.teeSpl >= minimum.teeSpl &&
     tcb.snpSpl >= minimum.snpSpl &&
-    tcb.ucodeSpl >= minimum.ucodeSpl
+    tcb.ucodeSpl >= minimum.ucodeSpl &&
+    (minimum.fmcSpl === undefined || (tcb.fmcSpl ?? 0) >= minimum.fmcSpl)
   );
 }
 
@@ -52,7 +76,7 @@ export function bytesToHex(bytes: Uint8Array): string {
     .join('');
 }
 
-function hexToBytes(hex: string): Uint8Array {
+export function hexToBytes(hex: string): Uint8Array {
   if (hex.length % 2 !== 0) {
     throw new Error('Hex string must have even length');
   }
@@ -65,3 +89,41 @@ function hexToBytes(hex: string): Uint8Array {
   }
   return bytes;
 }
+
+// Object identifiers for ECDSA P-384 subject public keys
+const OID_EC_PUBLIC_KEY = '1.2.840.10045.2.1';
+const OID_SECP384R1 = '1.3.132.0.34';
+
+// AMD public key format (SEV-SNP ABI, "ECDSA Public Key Format")
+const AMD_PUBLIC_KEY_SIZE = 0x404;
+const AMD_CURVE_P384 = 2;
+const AMD_ECDSA_COORDINATE_SIZE = 72;
+
+/**
+ * Compute the digest the SEV-SNP firmware reports for an ID or author key:
+ * SHA-384 of the key in AMD's public key format (curve ID followed by the
+ * little-endian affine coordinates, zero-padded to 0x404 bytes).
+ *
+ * @param spki - DER-encoded SubjectPublicKeyInfo of an ECDSA P-384 key
+ * @returns The 48-byte SHA-384 key digest
+ * @throws Error if the key is not an ECDSA P-384 key
+ */
+export async function amdPublicKeyDigest(spki: Uint8Array): Promise<Uint8Array> {
+  const info = ASN1Obj.parseBuffer(spki);
+  const algorithm = info.subs[0];
+  if (algorithm.subs[0].toOID() !== OID_EC_PUBLIC_KEY || algorithm.subs[1]?.toOID() !== OID_SECP384R1) {
+    throw new Error('Only ECDSA P-384 keys are supported');
+  }
+
+  // BIT STRING: unused-bits byte, then the uncompressed point 0x04 || X || Y
+  const point = info.subs[1].value.subarray(1);
+  if (point.length !== 97 || point[0] !== 0x04) {
+    throw new Error('Public key is not an uncompressed P-384 point');
+  }
+
+  const key = new Uint8Array(AMD_PUBLIC_KEY_SIZE);
+  new DataView(key.buffer).setUint32(0, AMD_CURVE_P384, true);
+  key.set(point.slice(1, 49).reverse(), 4);
+  key.set(point.slice(49, 97).reverse(), 4 + AMD_ECDSA_COORDINATE_SIZE);
+  return new Uint8Array(await crypto.subtle.digest('SHA-384', key));
+}
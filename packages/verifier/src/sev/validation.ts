@@ -1,10 +1,13 @@
 import { Report } from './report.js';
 import { CertificateChain } from './cert-chain.js';
 import type { TCBParts, SnpPolicy, SnpPlatformInfo } from './types.js';
-import { tcbFromInt, tcbMeetsMinimum, bytesToHex } from './utils.js';
+import { tcbFromInt, tcbMeetsMinimum, bytesToHex, amdPublicKeyDigest } from './utils.js';
 import { ReportSigner } from './constants.js';
+import { validateCertTable } from './cert-table.js';
+import type { CertEntryOption } from './cert-table.js';
+import type { X509Certificate } from '@freedomofpress/sigstore-browser';
 import { uint8ArrayEqual } from '@freedomofpress/crypto-browser';
-import { AttestationError } from '../errors.js';
+import { AttestationError, ConfigurationError, wrapOrThrow, ErrorCode } from '../errors.js';
 
 /**
  * Verification options for an SEV-SNP attestation report.
@@ -19,8 +22,11 @@ export interface ValidationOptions {
 
   // TCB requirements
   minimumTcb?: TCBParts;
+  minimumCommittedTcb?: TCBParts;  // Overrides minimumTcb for the committed TCB
+  minimumCurrentTcb?: TCBParts;    // Overrides minimumTcb for the current TCB
+  minimumReportedTcb?: TCBParts;   // Defaults to the lower of the committed and current minimums
   minimumLaunchTcb?: TCBParts;
-  permitProvisionalFirmware: boolean;
+  permitProvisionalFirmware: boolean;  // Allow current firmware newer than committed firmware
 
   // Field equality checks (length is not enforced here; caller must ensure correctness)
   reportData?: Uint8Array;          // 64 bytes
@@ -36,16 +42,19 @@ export interface ValidationOptions {
   platformInfo?: SnpPlatformInfo;
   vmpl?: number;                    // Expected VMPL (0-3)
 
-  // TODO: ID-block / author key requirements
-  requireAuthorKey: boolean;
-  requireIdBlock: boolean;
-  // trustedAuthorKeys: x509.Certificate[]
-  // trustedAuthorKeyHashes: Uint8Array[]
-  // trustedIdKeys: x509.Certificate[]
-  // trustedIdKeyHashes: Uint8Array[]
-
-  // TODO: Extended certificate-table options
-  // certTableOptions: Map<string, CertEntryOption>
+  // ID-block / author key requirements
+  requireAuthorKey: boolean;        // Report must be launched with a trusted author key
+  requireIdBlock: boolean;          // Report must be launched with a trusted ID key (or trusted author key)
+  trustedAuthorKeys?: X509Certificate[];   // ECDSA P-384 author key certificates
+  trustedAuthorKeyHashes?: Uint8Array[];   // SHA-384 author key digests (48 bytes)
+  trustedIdKeys?: X509Certificate[];       // ECDSA P-384 ID key certificates
+  trustedIdKeyHashes?: Uint8Array[];       // SHA-384 ID key digests (48 bytes)
+
+  // Revocation
+  checkRevocations?: boolean;       // Require an AMD CRL check, fetching the CRL when none is supplied
+
+  // Extended report certificate table, keyed by entry GUID
+  certTableOptions?: Record<string, CertEntryOption>;
 }
 
 // Default validation options 
@@ -107,49 +116,49 @@ export const defaultValidationOptions: ValidationOptions = {
 function validatePolicy(reportPolicy: SnpPolicy, required: SnpPolicy) {
   // ABI version check - required version must not be greater than report version
   if (comparePolicyVersions(required, reportPolicy) > 0) {
-    throw new AttestationError(`Required ABI version (${required.abiMajor}.${required.abiMinor}) is greater than report's ABI version (${reportPolicy.abiMajor}.${reportPolicy.abiMinor})`);
+    throw new AttestationError(`Required ABI version (${required.abiMajor}.${required.abiMinor}) is greater than report's ABI version (${reportPolicy.abiMajor}.${reportPolicy.abiMinor})`, { code: ErrorCode.PolicyViolation });
   }
 
   // Unauthorized capabilities (report has them enabled, but required doesn't allow)
   if (!required.migrateMa && reportPolicy.migrateMa) {
-    throw new AttestationError('Security policy violation: Migration agent is enabled but not allowed');
+    throw new AttestationError('Security policy violation: Migration agent is enabled but not allowed', { code: ErrorCode.PolicyViolation });
   }
 
   if (!required.debug && reportPolicy.debug) {
-    throw new AttestationError('Security policy violation: Debug mode is enabled but not allowed. The enclave must have debug disabled for production use');
+    throw new AttestationError('Security policy violation: Debug mode is enabled but not allowed. The enclave must have debug disabled for production use', { code: ErrorCode.PolicyViolation });
   }
 
   if (!required.smt && reportPolicy.smt) {
-    throw new AttestationError('Security policy violation: Simultaneous multithreading (SMT) is enabled but not allowed');
+    throw new AttestationError('Security policy violation: Simultaneous multithreading (SMT) is enabled but not allowed', { code: ErrorCode.PolicyViolation });
   }
 
   if (!required.cxlAllowed && reportPolicy.cxlAllowed) {
-    throw new AttestationError('Security policy violation: CXL (Compute Express Link) is enabled but not allowed');
+    throw new AttestationError('Security policy violation: CXL (Compute Express Link) is enabled but not allowed', { code: ErrorCode.PolicyViolation });
   }
 
   if (!required.memAes256Xts && reportPolicy.memAes256Xts) {
-    throw new AttestationError('Security policy violation: AES-256-XTS memory encryption mode is enabled but not allowed');
+    throw new AttestationError('Security policy violation: AES-256-XTS memory encryption mode is enabled but not allowed', { code: ErrorCode.PolicyViolation });
   }
 
   // Required restrictions/features (report lacks what required mandates)
   if (required.singleSocket && !reportPolicy.singleSocket) {
-    throw new AttestationError('Security policy violation: Single socket mode is required but not enabled');
+    throw new AttestationError('Security policy violation: Single socket mode is required but not enabled', { code: ErrorCode.PolicyViolation });
   }
 
   if (required.memAes256Xts && !reportPolicy.memAes256Xts) {
-    throw new AttestationError('Security policy violation: AES-256-XTS memory encryption mode is required but not enabled');
+    throw new AttestationError('Security policy violation: AES-256-XTS memory encryption mode is required but not enabled', { code: ErrorCode.PolicyViolation });
   }
 
   if (required.raplDis && !reportPolicy.raplDis) {
-    throw new AttestationError('Security policy violation: RAPL (power monitoring) must be disabled but is enabled');
+    throw new AttestationError('Security policy violation: RAPL (power monitoring) must be disabled but is enabled', { code: ErrorCode.PolicyViolation });
   }
 
   if (required.ciphertextHidingDram && !reportPolicy.ciphertextHidingDram) {
-    throw new AttestationError('Security policy violation: DRAM ciphertext hiding is required but not enabled');
+    throw new AttestationError('Security policy violation: DRAM ciphertext hiding is required but not enabled', { code: ErrorCode.PolicyViolation });
   }
 
   if (required.pageSwapDisabled && !reportPolicy.pageSwapDisabled) {
-    throw new AttestationError('Security policy violation: Page swap must be disabled but is enabled');
+    throw new AttestationError('Security policy violation: Page swap must be disabled but is enabled', { code: ErrorCode.PolicyViolation });
   }
 }
 
@@ -173,7 +182,32 @@ function comparePolicyVersions(required: SnpPolicy, report: SnpPolicy): number {
 }
 
 function tcbPartsToString(tcb: TCBParts): string {
-  return `TCBParts(bootloader=${tcb.blSpl}, tee=${tcb.teeSpl}, snp=${tcb.snpSpl}, microcode=${tcb.ucodeSpl})`;
+  const fmc = tcb.fmcSpl === undefined ? '' : `fmc=${tcb.fmcSpl}, `;
+  return `TCBParts(${fmc}bootloader=${tcb.blSpl}, tee=${tcb.teeSpl}, snp=${tcb.snpSpl}, microcode=${tcb.ucodeSpl})`;
+}
+
+/**
+ * Component-wise lower of two TCB minimums, or undefined if either is unset.
+ */
+function lowerTcb(a?: TCBParts, b?: TCBParts): TCBParts | undefined {
+  if (!a || !b) {
+    return undefined;
+  }
+  return {
+    blSpl: Math.min(a.blSpl, b.blSpl),
+    teeSpl: Math.min(a.teeSpl, b.teeSpl),
+    snpSpl: Math.min(a.snpSpl, b.snpSpl),
+    ucodeSpl: Math.min(a.ucodeSpl, b.ucodeSpl),
+    ...(a.fmcSpl !== undefined && b.fmcSpl !== undefined ? { fmcSpl: Math.min(a.fmcSpl, b.fmcSpl) } : {}),
+  };
+}
+
+/**
+ * Outcome of a successful report validation.
+ */
+export interface ValidationResult {
+  // Current firmware differs from committed firmware (a firmware update is in progress)
+  provisionalFirmware: boolean;
 }
 
 /**
@@ -182,9 +216,16 @@ function tcbPartsToString(tcb: TCBParts): string {
  * @param report - The attestation report to validate
  * @param chain - The certificate chain
  * @param options - Validation options
+ * @param certTable - Certificate table returned with the report, keyed by GUID
+ * @returns Validation result
  * @throws Error if validation fails
  */
-export function validateReport(report: Report, chain: CertificateChain, options: ValidationOptions): void {
+export async function validateReport(
+  report: Report,
+  chain: CertificateChain,
+  options: ValidationOptions,
+  certTable?: Map<string, Uint8Array>
+): Promise<ValidationResult> {
   // Policy constraints
   if (options.guestPolicy) {
     validatePolicy(report.policyParsed, options.guestPolicy);
@@ -192,16 +233,16 @@ export function validateReport(report: Report, chain: CertificateChain, options:
 
   if (options.minimumGuestSvn !== undefined) {
     if (report.guestSvn < options.minimumGuestSvn) {
-      throw new AttestationError(`Guest SVN ${report.guestSvn} is less than minimum required ${options.minimumGuestSvn}`);
+      throw new AttestationError(`Guest SVN ${report.guestSvn} is less than minimum required ${options.minimumGuestSvn}`, { code: ErrorCode.PolicyViolation });
     }
   }
 
   if (options.minimumBuild !== undefined) {
     if (report.currentBuild < options.minimumBuild) {
-      throw new AttestationError(`Current SNP firmware build number ${report.currentBuild} is less than minimum required ${options.minimumBuild}`);
+      throw new AttestationError(`Current SNP firmware build number ${report.currentBuild} is less than minimum required ${options.minimumBuild}`, { code: ErrorCode.TcbOutOfDate });
     }
     if (report.committedBuild < options.minimumBuild) {
-      throw new AttestationError(`Committed SNP firmware build number ${report.committedBuild} is less than minimum required ${options.minimumBuild}`);
+      throw new AttestationError(`Committed SNP firmware build number ${report.committedBuild} is less than minimum required ${options.minimumBuild}`, { code: ErrorCode.TcbOutOfDate });
     }
   }
 
@@ -209,117 +250,119 @@ export function validateReport(report: Report, chain: CertificateChain, options:
     const currentVersion = (report.currentMajor << 8) | report.currentMinor;
     const committedVersion = (report.committedMajor << 8) | report.committedMinor;
     if (currentVersion < options.minimumVersion) {
-      throw new AttestationError(`Current SNP firmware version ${report.currentMajor}.${report.currentMinor} is less than minimum required ${options.minimumVersion >> 8}.${options.minimumVersion & 0xff}`);
+      throw new AttestationError(`Current SNP firmware version ${report.currentMajor}.${report.currentMinor} is less than minimum required ${options.minimumVersion >> 8}.${options.minimumVersion & 0xff}`, { code: ErrorCode.TcbOutOfDate });
     }
     if (committedVersion < options.minimumVersion) {
-      throw new AttestationError(`Committed SNP firmware version ${report.committedMajor}.${report.committedMinor} is less than minimum required ${options.minimumVersion >> 8}.${options.minimumVersion & 0xff}`);
+      throw new AttestationError(`Committed SNP firmware version ${report.committedMajor}.${report.committedMinor} is less than minimum required ${options.minimumVersion >> 8}.${options.minimumVersion & 0xff}`, { code: ErrorCode.TcbOutOfDate });
     }
   }
 
   // TCB requirements
-  if (options.minimumTcb) {
-    const currentTcbParts = tcbFromInt(report.currentTcb);
-    const committedTcbParts = tcbFromInt(report.committedTcb);
-    const reportedTcbParts = tcbFromInt(report.reportedTcb);
+  const currentTcbParts = tcbFromInt(report.currentTcb, report.productName);
+  const committedTcbParts = tcbFromInt(report.committedTcb, report.productName);
+  const reportedTcbParts = tcbFromInt(report.reportedTcb, report.productName);
 
-    if (!tcbMeetsMinimum(currentTcbParts, options.minimumTcb)) {
-      throw new AttestationError(`Current TCB ${tcbPartsToString(currentTcbParts)} does not meet minimum requirements ${tcbPartsToString(options.minimumTcb)}`);
-    }
-    if (!tcbMeetsMinimum(committedTcbParts, options.minimumTcb)) {
-      throw new AttestationError(`Committed TCB ${tcbPartsToString(committedTcbParts)} does not meet minimum requirements ${tcbPartsToString(options.minimumTcb)}`);
-    }
-    if (!tcbMeetsMinimum(reportedTcbParts, options.minimumTcb)) {
-      throw new AttestationError(`Reported TCB ${tcbPartsToString(reportedTcbParts)} does not meet minimum requirements ${tcbPartsToString(options.minimumTcb)}`);
-    }
+  const minimumCurrentTcb = options.minimumCurrentTcb ?? options.minimumTcb;
+  if (minimumCurrentTcb && !tcbMeetsMinimum(currentTcbParts, minimumCurrentTcb)) {
+    throw new AttestationError(`Current TCB ${tcbPartsToString(currentTcbParts)} does not meet minimum requirements ${tcbPartsToString(minimumCurrentTcb)}`, { code: ErrorCode.TcbOutOfDate });
+  }
+  const minimumCommittedTcb = options.minimumCommittedTcb ?? options.minimumTcb;
+  if (minimumCommittedTcb && !tcbMeetsMinimum(committedTcbParts, minimumCommittedTcb)) {
+    throw new AttestationError(`Committed TCB ${tcbPartsToString(committedTcbParts)} does not meet minimum requirements ${tcbPartsToString(minimumCommittedTcb)}`, { code: ErrorCode.TcbOutOfDate });
+  }
+  // The reported TCB usually equals the committed TCB, so it must not undo a relaxed committed or current minimum
+  const minimumReportedTcb = options.minimumReportedTcb ?? lowerTcb(minimumCommittedTcb, minimumCurrentTcb);
+  if (minimumReportedTcb && !tcbMeetsMinimum(reportedTcbParts, minimumReportedTcb)) {
+    throw new AttestationError(`Reported TCB ${tcbPartsToString(reportedTcbParts)} does not meet minimum requirements ${tcbPartsToString(minimumReportedTcb)}`, { code: ErrorCode.TcbOutOfDate });
   }
 
-  // VCEK-specific TCB check
-  chain.validateVcekTcb(tcbFromInt(report.reportedTcb));
+  // The VCEK (or VLEK) must be issued for the reported TCB
+  chain.validateVcekTcb(tcbFromInt(report.reportedTcb, report.productName));
 
   if (options.minimumLaunchTcb) {
-    const launchTcbParts = tcbFromInt(report.launchTcb);
+    const launchTcbParts = tcbFromInt(report.launchTcb, report.productName);
     if (!tcbMeetsMinimum(launchTcbParts, options.minimumLaunchTcb)) {
-      throw new AttestationError(`Launch TCB ${tcbPartsToString(launchTcbParts)} does not meet minimum requirements ${tcbPartsToString(options.minimumLaunchTcb)}`);
+      throw new AttestationError(`Launch TCB ${tcbPartsToString(launchTcbParts)} does not meet minimum requirements ${tcbPartsToString(options.minimumLaunchTcb)}`, { code: ErrorCode.TcbOutOfDate });
     }
   }
 
   // Field equality checks
   if (options.reportData) {
     if (report.reportData.length !== 64) {
-      throw new AttestationError(`Report data length is ${report.reportData.length}, expected 64 bytes`);
+      throw new AttestationError(`Report data length is ${report.reportData.length}, expected 64 bytes`, { code: ErrorCode.MalformedEvidence });
     }
     if (!uint8ArrayEqual(report.reportData, options.reportData)) {
-      throw new AttestationError(`Report data mismatch: got ${bytesToHex(report.reportData)}, expected ${bytesToHex(options.reportData)}`);
+      throw new AttestationError(`Report data mismatch: got ${bytesToHex(report.reportData)}, expected ${bytesToHex(options.reportData)}`, { code: ErrorCode.PolicyViolation });
     }
   }
 
   if (options.hostData) {
     if (report.hostData.length !== 32) {
-      throw new AttestationError(`Host data length is ${report.hostData.length}, expected 32 bytes`);
+      throw new AttestationError(`Host data length is ${report.hostData.length}, expected 32 bytes`, { code: ErrorCode.MalformedEvidence });
     }
     if (!uint8ArrayEqual(report.hostData, options.hostData)) {
-      throw new AttestationError(`Host data mismatch: got ${bytesToHex(report.hostData)}, expected ${bytesToHex(options.hostData)}`);
+      throw new AttestationError(`Host data mismatch: got ${bytesToHex(report.hostData)}, expected ${bytesToHex(options.hostData)}`, { code: ErrorCode.PolicyViolation });
     }
   }
 
   if (options.measurement) {
     if (report.measurement.length !== 48) {
-      throw new AttestationError(`Measurement length is ${report.measurement.length}, expected 48 bytes`);
+      throw new AttestationError(`Measurement length is ${report.measurement.length}, expected 48 bytes`, { code: ErrorCode.MalformedEvidence });
     }
     if (!uint8ArrayEqual(report.measurement, options.measurement)) {
-      throw new AttestationError(`Measurement mismatch: got ${bytesToHex(report.measurement)}, expected ${bytesToHex(options.measurement)}`);
+      throw new AttestationError(`Measurement mismatch: got ${bytesToHex(report.measurement)}, expected ${bytesToHex(options.measurement)}`, { code: ErrorCode.PolicyViolation });
     }
   }
 
   if (options.chipId) {
     if (report.chipId.length !== 64) {
-      throw new AttestationError(`Chip ID length is ${report.chipId.length}, expected 64 bytes`);
+      throw new AttestationError(`Chip ID length is ${report.chipId.length}, expected 64 bytes`, { code: ErrorCode.MalformedEvidence });
     }
     if (!uint8ArrayEqual(report.chipId, options.chipId)) {
-      throw new AttestationError(`Chip ID mismatch: got ${bytesToHex(report.chipId)}, expected ${bytesToHex(options.chipId)}`);
+      throw new AttestationError(`Chip ID mismatch: got ${bytesToHex(report.chipId)}, expected ${bytesToHex(options.chipId)}`, { code: ErrorCode.PolicyViolation });
     }
   }
 
   if (options.imageId) {
     if (report.imageId.length !== 16) {
-      throw new AttestationError(`Image ID length is ${report.imageId.length}, expected 16 bytes`);
+      throw new AttestationError(`Image ID length is ${report.imageId.length}, expected 16 bytes`, { code: ErrorCode.MalformedEvidence });
     }
     if (!uint8ArrayEqual(report.imageId, options.imageId)) {
-      throw new AttestationError(`Image ID mismatch: got ${bytesToHex(report.imageId)}, expected ${bytesToHex(options.imageId)}`);
+      throw new AttestationError(`Image ID mismatch: got ${bytesToHex(report.imageId)}, expected ${bytesToHex(options.imageId)}`, { code: ErrorCode.PolicyViolation });
     }
   }
 
   if (options.familyId) {
     if (report.familyId.length !== 16) {
-      throw new AttestationError(`Family ID length is ${report.familyId.length}, expected 16 bytes`);
+      throw new AttestationError(`Family ID length is ${report.familyId.length}, expected 16 bytes`, { code: ErrorCode.MalformedEvidence });
     }
     if (!uint8ArrayEqual(report.familyId, options.familyId)) {
-      throw new AttestationError(`Family ID mismatch: got ${bytesToHex(report.familyId)}, expected ${bytesToHex(options.familyId)}`);
+      throw new AttestationError(`Family ID mismatch: got ${bytesToHex(report.familyId)}, expected ${bytesToHex(options.familyId)}`, { code: ErrorCode.PolicyViolation });
     }
   }
 
   if (options.reportId) {
     if (report.reportId.length !== 32) {
-      throw new AttestationError(`Report ID length is ${report.reportId.length}, expected 32 bytes`);
+      throw new AttestationError(`Report ID length is ${report.reportId.length}, expected 32 bytes`, { code: ErrorCode.MalformedEvidence });
     }
     if (!uint8ArrayEqual(report.reportId, options.reportId)) {
-      throw new AttestationError(`Report ID mismatch: got ${bytesToHex(report.reportId)}, expected ${bytesToHex(options.reportId)}`);
+      throw new AttestationError(`Report ID mismatch: got ${bytesToHex(report.reportId)}, expected ${bytesToHex(options.reportId)}`, { code: ErrorCode.PolicyViolation });
     }
   }
 
   if (options.reportIdMa) {
     if (report.reportIdMa.length !== 32) {
-      throw new AttestationError(`Report ID MA length is ${report.reportIdMa.length}, expected 32 bytes`);
+      throw new AttestationError(`Report ID MA length is ${report.reportIdMa.length}, expected 32 bytes`, { code: ErrorCode.MalformedEvidence });
     }
     if (!uint8ArrayEqual(report.reportIdMa, options.reportIdMa)) {
-      throw new AttestationError(`Report ID MA mismatch: got ${bytesToHex(report.reportIdMa)}, expected ${bytesToHex(options.reportIdMa)}`);
+      throw new AttestationError(`Report ID MA mismatch: got ${bytesToHex(report.reportIdMa)}, expected ${bytesToHex(options.reportIdMa)}`, { code: ErrorCode.PolicyViolation });
     }
   }
 
   // VCEK-specific CHIP_ID ↔ HWID equality check
   if (report.signerInfoParsed.signingKey === ReportSigner.VcekReportSigner) {
     if (report.signerInfoParsed.maskChipKey && report.chipId.some(b => b !== 0)) {
-      throw new AttestationError('Invalid attestation report: chip ID masking is enabled but chip ID field is not zeroed');
+      throw new AttestationError('Invalid attestation report: chip ID masking is enabled but chip ID field is not zeroed', { code: ErrorCode.MalformedEvidence });
     }
     if (!report.signerInfoParsed.maskChipKey) {
       chain.validateVcekHwid(report.chipId);
@@ -334,36 +377,140 @@ export function validateReport(report: Report, chain: CertificateChain, options:
   // VMPL check
   if (options.vmpl !== undefined) {
     if (!(0 <= report.vmpl && report.vmpl <= 3)) {
-      throw new AttestationError(`VMPL ${report.vmpl} is not in valid range 0-3`);
+      throw new AttestationError(`VMPL ${report.vmpl} is not in valid range 0-3`, { code: ErrorCode.PolicyViolation });
     }
     if (report.vmpl !== options.vmpl) {
-      throw new AttestationError(`VMPL mismatch: got ${report.vmpl}, expected ${options.vmpl}`);
+      throw new AttestationError(`VMPL mismatch: got ${report.vmpl}, expected ${options.vmpl}`, { code: ErrorCode.PolicyViolation });
+    }
+  }
+
+  // Provisional firmware check
+  const provisionalFirmware = validateFirmwareVersions(report, options.permitProvisionalFirmware);
+
+  // ID-block / author key requirements
+  await validateKeys(report, options);
+
+  // Certificate table entry rules
+  if (options.certTableOptions) {
+    await validateCertTable(report, certTable, options.certTableOptions);
+  }
+
+  return { provisionalFirmware };
+}
+
+/**
+ * Compare the committed and current firmware versions.
+ *
+ * Logic:
+ * - Without provisional firmware, committed and current values must be equal
+ * - With provisional firmware, current values may be newer than committed
+ *   values, but never older
+ *
+ * @param report - The attestation report
+ * @param permitProvisional - Whether provisional firmware is acceptable
+ * @returns true if the report was produced by provisional firmware
+ * @throws Error if validation fails
+ */
+function validateFirmwareVersions(report: Report, permitProvisional: boolean): boolean {
+  const provisional =
+    report.committedBuild !== report.currentBuild ||
+    report.committedMinor !== report.currentMinor ||
+    report.committedMajor !== report.currentMajor ||
+    report.committedTcb !== report.currentTcb;
+
+  if (!permitProvisional) {
+    if (report.committedBuild !== report.currentBuild) {
+      throw new AttestationError(`Firmware version mismatch: Committed build (${report.committedBuild}) does not match current build (${report.currentBuild}). This may indicate provisional firmware`, { code: ErrorCode.PolicyViolation });
+    }
+    if (report.committedMinor !== report.currentMinor) {
+      throw new AttestationError(`Firmware version mismatch: Committed minor version (${report.committedMinor}) does not match current (${report.currentMinor})`, { code: ErrorCode.PolicyViolation });
+    }
+    if (report.committedMajor !== report.currentMajor) {
+      throw new AttestationError(`Firmware version mismatch: Committed major version (${report.committedMajor}) does not match current (${report.currentMajor})`, { code: ErrorCode.PolicyViolation });
+    }
+    if (report.committedTcb !== report.currentTcb) {
+      throw new AttestationError(`Firmware version mismatch: Committed TCB does not match current TCB. This may indicate provisional firmware`, { code: ErrorCode.PolicyViolation });
     }
+    return false;
   }
 
-  // Provisional firmware check - we only support permitProvisionalFirmware = false
-  if (options.permitProvisionalFirmware) {
-    throw new AttestationError('Unsupported option: Provisional firmware validation is not yet implemented');
+  const committedVersion = (report.committedMajor << 8) | report.committedMinor;
+  const currentVersion = (report.currentMajor << 8) | report.currentMinor;
+  if (currentVersion < committedVersion ||
+      (currentVersion === committedVersion && report.currentBuild < report.committedBuild)) {
+    throw new AttestationError(`Firmware version mismatch: Current firmware ${report.currentMajor}.${report.currentMinor} build ${report.currentBuild} is older than committed firmware ${report.committedMajor}.${report.committedMinor} build ${report.committedBuild}`, { code: ErrorCode.PolicyViolation });
   }
+  const currentTcbParts = tcbFromInt(report.currentTcb, report.productName);
+  const committedTcbParts = tcbFromInt(report.committedTcb, report.productName);
+  if (!tcbMeetsMinimum(currentTcbParts, committedTcbParts)) {
+    throw new AttestationError(`Firmware version mismatch: Current TCB ${tcbPartsToString(currentTcbParts)} is older than committed TCB ${tcbPartsToString(committedTcbParts)}`, { code: ErrorCode.PolicyViolation });
+  }
+  return provisional;
+}
 
-  // When permitProvisionalFirmware = false, committed and current values must be equal
-  if (report.committedBuild !== report.currentBuild) {
-    throw new AttestationError(`Firmware version mismatch: Committed build (${report.committedBuild}) does not match current build (${report.currentBuild}). This may indicate provisional firmware`);
+/**
+ * Validate the ID and author key digests against the trusted keys.
+ *
+ * Logic:
+ * - AUTHOR_KEY_EN must be set when an author key is required, and the
+ *   author key digest must be zero when it is not set
+ * - A trusted author key vouches for the ID key it signed
+ * - Otherwise a required ID block must be signed by a trusted ID key
+ *
+ * @param report - The attestation report
+ * @param options - Validation options
+ * @throws ConfigurationError if a key is required but no trusted keys are configured
+ * @throws AttestationError if validation fails
+ */
+async function validateKeys(report: Report, options: ValidationOptions): Promise<void> {
+  const trustedAuthorKeys = (options.trustedAuthorKeys?.length ?? 0) + (options.trustedAuthorKeyHashes?.length ?? 0);
+  const trustedIdKeys = (options.trustedIdKeys?.length ?? 0) + (options.trustedIdKeyHashes?.length ?? 0);
+  if (options.requireAuthorKey && trustedAuthorKeys === 0) {
+    throw new ConfigurationError('Invalid validation options: requireAuthorKey is set but no trusted author keys are configured');
   }
-  if (report.committedMinor !== report.currentMinor) {
-    throw new AttestationError(`Firmware version mismatch: Committed minor version (${report.committedMinor}) does not match current (${report.currentMinor})`);
+  if (options.requireIdBlock && trustedAuthorKeys === 0 && trustedIdKeys === 0) {
+    throw new ConfigurationError('Invalid validation options: requireIdBlock is set but no trusted ID or author keys are configured');
   }
-  if (report.committedMajor !== report.currentMajor) {
-    throw new AttestationError(`Firmware version mismatch: Committed major version (${report.committedMajor}) does not match current (${report.currentMajor})`);
+
+  const authorKeyEn = report.signerInfoParsed.authorKeyEn;
+  if (options.requireAuthorKey && !authorKeyEn) {
+    throw new AttestationError('Security policy violation: An author key is required but AUTHOR_KEY_EN is not set in the report', { code: ErrorCode.PolicyViolation });
   }
-  if (report.committedTcb !== report.currentTcb) {
-    throw new AttestationError(`Firmware version mismatch: Committed TCB does not match current TCB. This may indicate provisional firmware`);
+  if (!authorKeyEn && report.authorKeyDigest.some(b => b !== 0)) {
+    throw new AttestationError('Invalid attestation report: Author key digest is non-zero but AUTHOR_KEY_EN is not set', { code: ErrorCode.MalformedEvidence });
   }
 
-  // ID-block / author key requirements
-  if (options.requireAuthorKey || options.requireIdBlock) {
-    throw new AttestationError('Unsupported option: ID-block and author key validation is not yet implemented');
+  let authorKeyTrusted = false;
+  if (authorKeyEn) {
+    authorKeyTrusted = await isTrustedKey(report.authorKeyDigest, options.trustedAuthorKeys, options.trustedAuthorKeyHashes);
+    if (options.requireAuthorKey && !authorKeyTrusted) {
+      throw new AttestationError(`Security policy violation: Author key digest ${bytesToHex(report.authorKeyDigest)} does not match any trusted author key`, { code: ErrorCode.PolicyViolation });
+    }
+  }
+
+  if (options.requireIdBlock && !authorKeyTrusted) {
+    if (!(await isTrustedKey(report.idKeyDigest, options.trustedIdKeys, options.trustedIdKeyHashes))) {
+      throw new AttestationError(`Security policy violation: ID key digest ${bytesToHex(report.idKeyDigest)} does not match any trusted ID key`, { code: ErrorCode.PolicyViolation });
+    }
+  }
+}
+
+async function isTrustedKey(digest: Uint8Array, certs: X509Certificate[] = [], hashes: Uint8Array[] = []): Promise<boolean> {
+  if (hashes.some(hash => uint8ArrayEqual(hash, digest))) {
+    return true;
+  }
+  for (const cert of certs) {
+    let certDigest: Uint8Array;
+    try {
+      certDigest = await amdPublicKeyDigest(cert.publicKey);
+    } catch (e) {
+      wrapOrThrow(e, ConfigurationError, `Invalid trusted key certificate "${cert.subjectDN.get('CN')}"`);
+    }
+    if (uint8ArrayEqual(certDigest, digest)) {
+      return true;
+    }
   }
+  return false;
 }
 
 /**
@@ -380,31 +527,31 @@ export function validateReport(report: Report, chain: CertificateChain, options:
 function validatePlatformInfo(reportInfo: SnpPlatformInfo, required: SnpPlatformInfo) {
   // Unauthorized features (report has it enabled, but required doesn't allow it)
   if (reportInfo.smtEnabled && !required.smtEnabled) {
-    throw new AttestationError('Platform policy violation: SMT (simultaneous multithreading) is enabled but not allowed');
+    throw new AttestationError('Platform policy violation: SMT (simultaneous multithreading) is enabled but not allowed', { code: ErrorCode.PolicyViolation });
   }
 
   // Required features (report lacks something that required mandates)
   if (!reportInfo.eccEnabled && required.eccEnabled) {
-    throw new AttestationError('Platform policy violation: ECC memory is required but not enabled');
+    throw new AttestationError('Platform policy violation: ECC memory is required but not enabled', { code: ErrorCode.PolicyViolation });
   }
 
   if (!reportInfo.tsmeEnabled && required.tsmeEnabled) {
-    throw new AttestationError('Platform policy violation: TSME (transparent SME) is required but not enabled');
+    throw new AttestationError('Platform policy violation: TSME (transparent SME) is required but not enabled', { code: ErrorCode.PolicyViolation });
   }
 
   if (!reportInfo.raplDisabled && required.raplDisabled) {
-    throw new AttestationError('Platform policy violation: RAPL (power monitoring) must be disabled but is enabled');
+    throw new AttestationError('Platform policy violation: RAPL (power monitoring) must be disabled but is enabled', { code: ErrorCode.PolicyViolation });
   }
 
   if (!reportInfo.ciphertextHidingDramEnabled && required.ciphertextHidingDramEnabled) {
-    throw new AttestationError('Platform policy violation: DRAM ciphertext hiding is required but not enabled');
+    throw new AttestationError('Platform policy violation: DRAM ciphertext hiding is required but not enabled', { code: ErrorCode.PolicyViolation });
   }
 
   if (!reportInfo.aliasCheckComplete && required.aliasCheckComplete) {
-    throw new AttestationError('Platform policy violation: Memory alias check is required but has not completed');
+    throw new AttestationError('Platform policy violation: Memory alias check is required but has not completed', { code: ErrorCode.PolicyViolation });
   }
 
   if (!reportInfo.tioEnabled && required.tioEnabled) {
-    throw new AttestationError('Platform policy violation: TIO (trusted I/O) is required but not enabled');
+    throw new AttestationError('Platform policy violation: TIO (trusted I/O) is required but not enabled', { code: ErrorCode.PolicyViolation });
   }
 }
\ No newline at end of file
@@ -2,12 +2,12 @@ import type { Report } from './report.js';
 import type { CertificateChain } from './cert-chain.js';
 import { POLICY_RESERVED_1_BIT } from './constants.js';
 import { KeyTypes, HashAlgorithms } from '@freedomofpress/crypto-browser';
-import { AttestationError, wrapOrThrow } from '../errors.js';
+import { AttestationError, wrapOrThrow, ErrorCode } from '../errors.js';
 
 /**
- * Verify the attestation report signature using VCEK's public key.
+ * Verify the attestation report signature using the VCEK's (or VLEK's) public key.
  *
- * @param vcekPublicKey - The VCEK public key
+ * @param vcekPublicKey - The VCEK or VLEK public key
  * @param report - The attestation report
  * @returns True if signature is valid
  * @throws Error if validation fails
@@ -18,22 +18,22 @@ async function verifyReportSignature(
 ): Promise<boolean> {
   // Validate Report Format
   if (report.version < 2) {
-    throw new AttestationError(`Unsupported attestation report version ${report.version}. Minimum required version is 2`);
+    throw new AttestationError(`Unsupported attestation report version ${report.version}. Minimum required version is 2`, { code: ErrorCode.MalformedEvidence });
   }
 
   // Check reserved bit must be 1
   if (!(report.policy & (1n << BigInt(POLICY_RESERVED_1_BIT)))) {
-    throw new AttestationError('Invalid attestation report: Policy field has invalid reserved bit');
+    throw new AttestationError('Invalid attestation report: Policy field has invalid reserved bit', { code: ErrorCode.MalformedEvidence });
   }
 
   // Check policy bits 63-26 must be zero
   if (report.policy >> 26n) {
-    throw new AttestationError('Invalid attestation report: Policy field has non-zero reserved bits');
+    throw new AttestationError('Invalid attestation report: Policy field has non-zero reserved bits', { code: ErrorCode.MalformedEvidence });
   }  
 
   // Check signature algorithm must be ECDSA
   if (report.signatureAlgo !== 1) { // 1 = SignEcdsaP384Sha384
-    throw new AttestationError(`Unsupported signature algorithm (${report.signatureAlgo}). Only ECDSA P-384 with SHA-384 (algorithm 1) is supported`);
+    throw new AttestationError(`Unsupported signature algorithm (${report.signatureAlgo}). Only ECDSA P-384 with SHA-384 (algorithm 1) is supported`, { code: ErrorCode.MalformedEvidence });
   }
 
   // Convert the signature from AMD's little-endian format to WebCrypto raw format
@@ -74,33 +74,35 @@ async function verifyReportSignature(
 
     return isValid;
   } catch (e) {
-    wrapOrThrow(e, AttestationError, 'Failed to verify attestation report signature using VCEK public key');
+    wrapOrThrow(e, AttestationError, 'Failed to verify attestation report signature using the endorsement key', ErrorCode.SignatureInvalid);
   }
 }
 
 /**
  * Verify attestation report with the certificate chain.
  *
- * @param chain - The certificate chain (ARK > ASK > VCEK)
+ * @param chain - The certificate chain (ARK > ASK > VCEK, or ARK > ASVK > VLEK)
  * @param report - The attestation report
+ * @param now - Instant at which the certificates must be valid
  * @returns True if verification succeeds
  */
 export async function verifyAttestation(
   chain: CertificateChain,
-  report: Report
+  report: Report,
+  now: Date = new Date()
 ): Promise<boolean> {
   // Verify certificate chain
-  const isChainValid = await chain.verifyChain();
+  const isChainValid = await chain.verifyChain(now);
   if (!isChainValid) {
-    throw new AttestationError('AMD certificate chain verification failed: The chain from ARK to ASK to VCEK could not be verified');
+    throw new AttestationError(`AMD certificate chain verification failed: The chain from ARK to ${chain.intermediateName} to ${chain.keyName} could not be verified`, { code: ErrorCode.CertificateChainInvalid });
   }
 
-  // Get the CryptoKey from VCEK certificate
-  // (EC P-384 key type is validated in validateVcekFormat during chain verification)
+  // Get the CryptoKey from the VCEK (or VLEK) certificate
+  // (EC P-384 key type is validated during chain verification)
   const vcekPublicKey = await chain.vcekPublicKey;
   const isSignatureValid = await verifyReportSignature(vcekPublicKey, report);
   if (!isSignatureValid) {
-    throw new AttestationError('Attestation report signature is invalid: The report was not signed by the expected VCEK key');
+    throw new AttestationError(`Attestation report signature is invalid: The report was not signed by the expected ${chain.keyName} key`, { code: ErrorCode.SignatureInvalid });
   }
 
   return true;
@@ -0,0 +1,230 @@
+/**
+ * Sigstore trusted root resolution — refreshes the Fulcio/Rekor trust material
+ * via TUF when configured, falling back to the bundled snapshot.
+ */
+
+import type { TrustedRoot } from '@freedomofpress/sigstore-browser';
+import type { FileBackend } from '@freedomofpress/tuf-browser';
+import sigstoreTrustedRoot from './sigstore-trusted-root.js';
+import sigstoreTufRoot from './sigstore-tuf-root.js';
+
+const DEFAULT_MIRROR_URL = 'https://tuf-repo-cdn.sigstore.dev/';
+const TRUSTED_ROOT_TARGET = 'trusted_root.json';
+const CACHE_KEY = 'sigstore/trusted_root';
+const DEFAULT_MAX_AGE = 24 * 60 * 60 * 1000;
+
+// The bundled snapshot must be regenerated by this date; update it together
+// with sigstore-trusted-root.ts. Warnings start NEAR_EXPIRY before it.
+const BUNDLED_ROOT_REFRESH_BY = new Date('2027-04-19T00:00:00Z');
+const NEAR_EXPIRY = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Persistent key-value store for TUF metadata and the verified trusted root.
+ */
+export interface TrustedRootStore {
+  read(key: string): Promise<string | undefined>;
+  write(key: string, value: string): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Options for refreshing the Sigstore trusted root via TUF.
+ */
+export interface SigstoreTrustOptions {
+  /** TUF repository serving Sigstore metadata. Defaults to the Sigstore CDN */
+  mirrorUrl?: string;
+  /** Base URL for TUF target files. Defaults to `<mirrorUrl>targets/` */
+  targetBaseUrl?: string;
+  /** TUF root metadata (root.json) to bootstrap trust from. Defaults to the embedded Sigstore root */
+  initialRoot?: string;
+  /** Cache for TUF metadata and the trusted root. Defaults to a process-wide in-memory store */
+  store?: TrustedRootStore;
+  /** Milliseconds a cached trusted root is used before refreshing. Defaults to 24 hours */
+  maxAge?: number;
+}
+
+/**
+ * In-memory store; contents last for the lifetime of the process or page.
+ */
+export class MemoryStore implements TrustedRootStore {
+  private entries = new Map<string, string>();
+
+  async read(key: string): Promise<string | undefined> {
+    return this.entries.get(key);
+  }
+
+  async write(key: string, value: string): Promise<void> {
+    this.entries.set(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Browser store backed by an IndexedDB object store.
+ */
+export class IndexedDBStore implements TrustedRootStore {
+  private db?: Promise<IDBDatabase>;
+
+  constructor(private dbName: string = 'tinfoil-sigstore', private storeName: string = 'tuf') {}
+
+  async read(key: string): Promise<string | undefined> {
+    return this.request('readonly', store => store.get(key));
+  }
+
+  async write(key: string, value: string): Promise<void> {
+    await this.request('readwrite', store => store.put(value, key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(key));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.db ??= new Promise((resolve, reject) => {
+      const req = indexedDB.open(this.dbName, 1);
+      req.onupgradeneeded = () => req.result.createObjectStore(this.storeName);
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    return this.db;
+  }
+
+  private async request<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const req = fn(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  }
+}
+
+/**
+ * Node.js store keeping one file per key under a directory.
+ */
+export class FileSystemStore implements TrustedRootStore {
+  constructor(private dir: string) {}
+
+  async read(key: string): Promise<string | undefined> {
+    const { readFile } = await import('fs/promises');
+    try {
+      return await readFile(await this.path(key), 'utf8');
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw e;
+    }
+  }
+
+  async write(key: string, value: string): Promise<void> {
+    const { mkdir, writeFile } = await import('fs/promises');
+    const file = await this.path(key);
+    const { dirname } = await import('path');
+    await mkdir(dirname(file), { recursive: true });
+    await writeFile(file, value, 'utf8');
+  }
+
+  async delete(key: string): Promise<void> {
+    const { rm } = await import('fs/promises');
+    await rm(await this.path(key), { force: true });
+  }
+
+  private async path(key: string): Promise<string> {
+    const { join } = await import('path');
+    return join(this.dir, ...key.split('/'));
+  }
+}
+
+const defaultStore = new MemoryStore();
+let warnedBundledRoot = false;
+
+/**
+ * Resolve the Sigstore trusted root used to verify code provenance.
+ *
+ * Without options, returns the snapshot bundled with this package. With
+ * options, returns a cached root younger than `maxAge`, or refreshes it from
+ * the TUF mirror, verifying the TUF metadata chain from the bootstrap root.
+ * If the refresh fails, falls back with a warning to the expired cached root,
+ * or to the bundled snapshot when nothing is cached.
+ *
+ * @param options - TUF mirror and cache configuration
+ * @returns The Sigstore trusted root
+ */
+export async function loadSigstoreTrustedRoot(options?: SigstoreTrustOptions): Promise<TrustedRoot> {
+  if (!options) {
+    return bundledTrustedRoot();
+  }
+
+  const store = options.store ?? defaultStore;
+  const maxAge = options.maxAge ?? DEFAULT_MAX_AGE;
+
+  let stale: TrustedRoot | undefined;
+  try {
+    const cached = await store.read(CACHE_KEY);
+    if (cached) {
+      const { fetchedAt, root } = JSON.parse(cached) as { fetchedAt: number; root: TrustedRoot };
+      if (Date.now() - fetchedAt < maxAge) {
+        return root;
+      }
+      stale = root;
+    }
+
+    const root = await fetchTrustedRoot(options, store);
+    await store.write(CACHE_KEY, JSON.stringify({ fetchedAt: Date.now(), root }));
+    return root;
+  } catch (e) {
+    // A root verified via TUF earlier is newer than the bundled snapshot
+    if (stale) {
+      console.warn(`[tinfoil] Failed to refresh the Sigstore trusted root via TUF, using the expired cached root: ${(e as Error).message}`);
+      return stale;
+    }
+    console.warn(`[tinfoil] Failed to refresh the Sigstore trusted root via TUF, using the bundled snapshot: ${(e as Error).message}`);
+    return bundledTrustedRoot();
+  }
+}
+
+async function fetchTrustedRoot(options: SigstoreTrustOptions, store: TrustedRootStore): Promise<TrustedRoot> {
+  const { TUFClient } = await import('@freedomofpress/tuf-browser');
+  const mirrorUrl = withTrailingSlash(options.mirrorUrl ?? DEFAULT_MIRROR_URL);
+  const targetBaseUrl = withTrailingSlash(options.targetBaseUrl ?? `${mirrorUrl}targets/`);
+
+  const client = new TUFClient(mirrorUrl, options.initialRoot ?? sigstoreTufRoot, 'tuf', targetBaseUrl, {
+    backend: tufBackend(store),
+  });
+  await client.updateTUF();
+  const target = await client.getTarget(TRUSTED_ROOT_TARGET);
+  return JSON.parse(new TextDecoder().decode(target)) as TrustedRoot;
+}
+
+/**
+ * Adapt a TrustedRootStore to the TUF client's metadata backend.
+ */
+function tufBackend(store: TrustedRootStore): FileBackend {
+  return {
+    read: async key => {
+      const value = await store.read(key);
+      return value === undefined ? undefined : JSON.parse(value);
+    },
+    write: (key, value) => store.write(key, JSON.stringify(value)),
+    writeRaw: (key, value) => store.write(key, new TextDecoder().decode(value)),
+    delete: key => store.delete(key),
+  };
+}
+
+function bundledTrustedRoot(now: Date = new Date()): TrustedRoot {
+  if (!warnedBundledRoot && now.getTime() > BUNDLED_ROOT_REFRESH_BY.getTime() - NEAR_EXPIRY) {
+    warnedBundledRoot = true;
+    const state = now > BUNDLED_ROOT_REFRESH_BY ? 'is out of date' : 'is nearing expiry';
+    console.warn(
+      `[tinfoil] The bundled Sigstore trusted root ${state} (refresh by ${BUNDLED_ROOT_REFRESH_BY.toISOString().slice(0, 10)}). ` +
+      'Update the package or configure TUF refresh to pick up Sigstore key rotations.'
+    );
+  }
+  return sigstoreTrustedRoot as unknown as TrustedRoot;
+}
+
+function withTrailingSlash(url: string): string {
+  return url.endsWith('/') ? url : `${url}/`;
+}
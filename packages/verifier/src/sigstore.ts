@@ -1,68 +1,208 @@
 import { PredicateType } from './types.js';
-import type { AttestationMeasurement } from './types.js';
-import type { X509Certificate, VerificationPolicy } from '@freedomofpress/sigstore-browser';
-import sigstoreTrustedRoot from './sigstore-trusted-root.js';
-import { AttestationError, wrapOrThrow } from './errors.js';
+import type { AttestationMeasurement, RejectedAttestation, ReleaseProvenance } from './types.js';
+import { base64ToBytes } from './attestation.js';
+import type { X509Certificate, VerificationPolicy, TrustedRoot } from '@freedomofpress/sigstore-browser';
+import { loadSigstoreTrustedRoot } from './sigstore-trust.js';
+import { AttestationError, wrapOrThrow, ErrorCode } from './errors.js';
 
-class GitHubWorkflowRefPattern implements VerificationPolicy {
-  private pattern: RegExp;
+const GITHUB_ACTIONS_ISSUER = 'https://token.actions.githubusercontent.com';
 
-  constructor(pattern: string | RegExp) {
-    this.pattern = typeof pattern === 'string' ? new RegExp(pattern) : pattern;
+/**
+ * Certificate identity the Fulcio signing certificate of a release must carry.
+ */
+export interface SigstoreIdentityPolicy {
+  /** OIDC issuer, e.g. GitHub Actions, a GitHub Enterprise Server or GitLab */
+  issuer: string;
+  /** Regular expressions the workflow ref must match at least one of */
+  refPatterns: string[];
+  /** Workflow file the release must be signed by, relative to the repo root (e.g. ".github/workflows/release.yml") */
+  workflowPath?: string;
+  /** Runner environment the workflow must have run on, e.g. "github-hosted" */
+  runnerEnvironment?: string;
+  /** Exact subject alternative name the certificate must carry */
+  san?: string;
+}
+
+/**
+ * Default identity policy: tagged releases built on GitHub Actions.
+ */
+export const defaultSigstoreIdentityPolicy: SigstoreIdentityPolicy = {
+  issuer: GITHUB_ACTIONS_ISSUER,
+  refPatterns: ['^refs/tags/'],
+};
+
+class WorkflowRepository implements VerificationPolicy {
+  constructor(private repo: string) {}
+
+  verify(cert: X509Certificate): void {
+    // GitHub certificates carry the repository name; other issuers only the source repository URI
+    const repo = cert.extGitHubWorkflowRepository?.workflowRepository
+      ?? repoFromUri(cert.extSourceRepositoryURI?.sourceRepositoryURI);
+    if (!repo) {
+      throw new AttestationError('Sigstore certificate verification failed: Missing workflow repository extension', { code: ErrorCode.SigstoreVerificationFailed });
+    }
+    if (repo !== this.repo) {
+      throw new AttestationError(`Sigstore certificate verification failed: Workflow repository "${repo}" does not match "${this.repo}"`, { code: ErrorCode.SigstoreVerificationFailed });
+    }
+  }
+}
+
+class WorkflowRefPattern implements VerificationPolicy {
+  private patterns: RegExp[];
+
+  constructor(patterns: string[]) {
+    this.patterns = patterns.map(p => new RegExp(p));
   }
 
   verify(cert: X509Certificate): void {
-    const ext = cert.extGitHubWorkflowRef;
-    if (!ext) {
-      throw new AttestationError('Sigstore certificate verification failed: Missing GitHub workflow reference extension');
+    const ref = cert.extGitHubWorkflowRef?.workflowRef ?? cert.extSourceRepositoryRef?.sourceRepositoryRef;
+    if (!ref) {
+      throw new AttestationError('Sigstore certificate verification failed: Missing workflow reference extension', { code: ErrorCode.SigstoreVerificationFailed });
     }
-    if (!this.pattern.test(ext.workflowRef)) {
+    if (!this.patterns.some(p => p.test(ref))) {
       throw new AttestationError(
-        `Sigstore certificate verification failed: Workflow reference "${ext.workflowRef}" does not match expected pattern (must be a tagged release)`
+        `Sigstore certificate verification failed: Workflow reference "${ref}" does not match any allowed pattern (${this.patterns.join(', ')})`,
+        { code: ErrorCode.SigstoreVerificationFailed }
       );
     }
   }
 }
 
+class WorkflowPath implements VerificationPolicy {
+  constructor(private repo: string, private path: string) {}
+
+  verify(cert: X509Certificate): void {
+    // The build signer URI (and SAN) is "<server>/<repo>/<workflow path>@<ref>"
+    const uri = cert.extBuildSignerURI?.buildSignerURI ?? cert.subjectAltName;
+    if (!uri) {
+      throw new AttestationError('Sigstore certificate verification failed: Missing build signer URI', { code: ErrorCode.SigstoreVerificationFailed });
+    }
+    const [signer] = uri.split('@');
+    if (!signer.includes(`/${this.repo}/`) || !signer.endsWith(`/${this.path}`)) {
+      throw new AttestationError(
+        `Sigstore certificate verification failed: Signing workflow "${uri}" is not ${this.path} in ${this.repo}`,
+        { code: ErrorCode.SigstoreVerificationFailed }
+      );
+    }
+  }
+}
+
+function repoFromUri(uri: string | undefined): string | undefined {
+  return uri ? new URL(uri).pathname.replace(/^\/|\/$/g, '') : undefined;
+}
+
+/**
+ * In-toto statement payload extracted from a verified Sigstore bundle.
+ */
+export interface SigstorePayload {
+  predicateType: string;
+  predicate: Record<string, unknown>;
+  provenance: ReleaseProvenance;
+}
+
+/** Whether a parsed JSON value is an object (not null or an array). */
+export function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Code measurement and provenance of a verified release.
+ */
+export interface SigstoreRelease {
+  measurement: AttestationMeasurement;
+  provenance: ReleaseProvenance;
+}
+
+/**
+ * Convert a verified release predicate to the code measurement it pins.
+ *
+ * A multiplatform release carries the SNP measurement and, when it also
+ * supports TDX, RTMR1 and RTMR2. Releases without TDX registers are SNP-only:
+ * their measurement is just the SNP register, which TDX enclaves never match.
+ *
+ * @throws AttestationError if the predicate type is unsupported or its registers are incomplete
+ */
+export function releaseMeasurement(predicateType: string, predicate: Record<string, unknown>): AttestationMeasurement {
+  if (predicateType !== PredicateType.SnpTdxMultiplatformV1) {
+    throw new AttestationError(`Unsupported in-toto predicate type: "${predicateType}". Only SNP/TDX multiplatform V1 is supported`, { code: ErrorCode.SigstoreVerificationFailed });
+  }
+  const snp = predicate.snp_measurement;
+  if (typeof snp !== 'string' || !snp) {
+    throw new AttestationError('Invalid Sigstore bundle: SNP/TDX multiplatform predicate is missing the snp_measurement field', { code: ErrorCode.SigstoreVerificationFailed });
+  }
+  const { rtmr1, rtmr2 } = isJsonObject(predicate.tdx_measurement) ? predicate.tdx_measurement : {};
+  if (!rtmr1 && !rtmr2) {
+    return { type: predicateType, registers: [snp] };
+  }
+  if (typeof rtmr1 !== 'string' || typeof rtmr2 !== 'string' || !rtmr1 || !rtmr2) {
+    throw new AttestationError('Invalid Sigstore bundle: SNP/TDX multiplatform predicate is missing the tdx_measurement.rtmr1 or tdx_measurement.rtmr2 field', { code: ErrorCode.SigstoreVerificationFailed });
+  }
+  return { type: predicateType, registers: [snp, rtmr1, rtmr2] };
+}
+
 /**
- * Verifies a Sigstore bundle.
+ * Verifies a Sigstore bundle and returns its in-toto payload.
  * Validates the DSSE envelope signature, certificate identity policy,
- * Rekor log consistency, and extracts the measurement payload.
+ * Rekor log consistency, and that the payload subject matches the digest.
+ * Provenance is read from the signing certificate and Rekor entry once they
+ * have been verified.
+ *
+ * The Fulcio certificate is checked at the Rekor integrated time, when it was
+ * used to sign. With a verification time, the bundle must also have been
+ * logged by then.
  *
  * @param bundleJson - The Sigstore bundle JSON data
  * @param digest - The expected hex-encoded SHA256 digest of the DSSE payload
  * @param repo - The repository name
- * @returns The verified measurement data
- * @throws Error if verification fails or digests don't match
+ * @param trustedRoot - Sigstore trusted root; defaults to the bundled snapshot
+ * @param identityPolicy - Required signing certificate identity; defaults to tagged GitHub Actions releases
+ * @param verificationTime - If set, the bundle must have been logged in Rekor by this instant
+ * @returns The verified predicate type and predicate
+ * @throws AttestationError if verification fails or digests don't match
  */
-export async function verifySigstoreBundle(
+export async function verifySigstorePayload(
   bundleJson: unknown,
   digest: string,
-  repo: string
-): Promise<AttestationMeasurement> {
+  repo: string,
+  trustedRoot?: TrustedRoot,
+  identityPolicy: SigstoreIdentityPolicy = defaultSigstoreIdentityPolicy,
+  verificationTime?: Date
+): Promise<SigstorePayload> {
 
   try {
     const {
       SigstoreVerifier,
-      GITHUB_OIDC_ISSUER,
+      X509Certificate,
       AllOf,
       OIDCIssuer,
-      GitHubWorkflowRepository,
+      OIDCRunnerEnvironment,
+      Identity,
     } = await import('@freedomofpress/sigstore-browser');
 
     const verifier = new SigstoreVerifier();
-    // Use bundled Sigstore trusted root instead of fetching via TUF
-    // This avoids CORS issues in browsers since tuf-repo-cdn.sigstore.dev doesn't support CORS
-    await verifier.loadSigstoreRoot(sigstoreTrustedRoot);
+    // Default to the bundled Sigstore trusted root rather than fetching via TUF,
+    // since tuf-repo-cdn.sigstore.dev doesn't support CORS; callers opt in to
+    // TUF refresh (e.g. through a CORS-enabled mirror) via loadSigstoreTrustedRoot
+    await verifier.loadSigstoreRoot(trustedRoot ?? await loadSigstoreTrustedRoot());
 
     const bundle = bundleJson as any;
 
-    // Create policy for GitHub Actions certificate identity
-    const policy = new AllOf([
-      new OIDCIssuer(GITHUB_OIDC_ISSUER),
-      new GitHubWorkflowRepository(repo),
-      new GitHubWorkflowRefPattern(/^refs\/tags\//),
-    ]);
+    // Create policy for the CI workflow's certificate identity
+    const policies: VerificationPolicy[] = [
+      new OIDCIssuer(identityPolicy.issuer),
+      new WorkflowRepository(repo),
+      new WorkflowRefPattern(identityPolicy.refPatterns),
+    ];
+    if (identityPolicy.workflowPath) {
+      policies.push(new WorkflowPath(repo, identityPolicy.workflowPath));
+    }
+    if (identityPolicy.runnerEnvironment) {
+      policies.push(new OIDCRunnerEnvironment(identityPolicy.runnerEnvironment));
+    }
+    if (identityPolicy.san) {
+      policies.push(new Identity({ identity: identityPolicy.san }));
+    }
+    const policy = new AllOf(policies);
 
     // Verify the DSSE envelope and get the payload
     // This verifies the signature on the DSSE envelope, applies the
@@ -73,43 +213,132 @@ export async function verifySigstoreBundle(
     const payload = JSON.parse(new TextDecoder().decode(payloadBytes));
 
     if (payloadType !== 'application/vnd.in-toto+json') {
-      throw new AttestationError(`Unsupported Sigstore payload type: "${payloadType}". Only in-toto statements (application/vnd.in-toto+json) are supported`);
+      throw new AttestationError(`Unsupported Sigstore payload type: "${payloadType}". Only in-toto statements (application/vnd.in-toto+json) are supported`, { code: ErrorCode.SigstoreVerificationFailed });
     }
 
-    const predicateType = payload.predicateType as PredicateType;
-    const predicateFields = payload.predicate;
-
     // Manual Payload Digest Verification
     // Now, verify that the provided external digest matches the
     // actual digest in the payload returned from the verified envelope
     if (digest !== payload.subject[0].digest.sha256) {
       throw new AttestationError(
-        `Release digest mismatch: The release digest from GitHub (${digest}) does not match the digest in the sigstore bundle (${payload.subject[0].digest.sha256})`
+        `Release digest mismatch: The release digest from GitHub (${digest}) does not match the digest in the sigstore bundle (${payload.subject[0].digest.sha256})`,
+        { code: ErrorCode.ReleaseDigestMismatch }
       );
     }
 
-    // Convert predicate type to measurement type
-    let registers: string[];
+    if (!isJsonObject(payload.predicate)) {
+      throw new AttestationError('Invalid Sigstore bundle: Payload is missing the predicate field containing measurements', { code: ErrorCode.SigstoreVerificationFailed });
+    }
+
+    const material = bundle.verificationMaterial;
+    const cert = X509Certificate.parse(base64ToBytes(
+      material.certificate?.rawBytes ?? material.x509CertificateChain.certificates[0].rawBytes
+    ));
 
-    if (!predicateFields) {
-      throw new AttestationError('Invalid Sigstore bundle: Payload is missing the predicate field containing measurements');
+    const provenance = releaseProvenance(cert, material.tlogEntries?.[0]);
+    if (verificationTime && (!provenance.integratedTime || new Date(provenance.integratedTime) > verificationTime)) {
+      throw new AttestationError(
+        `Release not yet signed: The Sigstore bundle was logged in Rekor at ${provenance.integratedTime ?? 'an unknown time'}, after ${verificationTime.toISOString()}`,
+        { code: ErrorCode.SigstoreVerificationFailed }
+      );
     }
 
-    if (predicateType === PredicateType.SnpTdxMultiplatformV1) {
-      if (!predicateFields.snp_measurement) {
-        throw new AttestationError('Invalid Sigstore bundle: SNP/TDX multiplatform predicate is missing the snp_measurement field');
-      }
-      registers = [predicateFields.snp_measurement];
-    } else {
-      throw new AttestationError(`Unsupported in-toto predicate type: "${predicateType}". Only SNP/TDX multiplatform V1 is supported`);
+    return {
+      predicateType: payload.predicateType,
+      predicate: payload.predicate,
+      provenance,
+    };
+
+  } catch (e) {
+    wrapOrThrow(e, AttestationError, 'Sigstore bundle verification failed', ErrorCode.SigstoreVerificationFailed);
+  }
+}
+
+/**
+ * Selects the Sigstore bundle to verify a release with, out of all GitHub
+ * attestations published for its digest. Each candidate is verified, and the
+ * first one carrying one of the given predicate types is selected.
+ *
+ * @param bundles - Sigstore bundles published for the digest, in GitHub's order
+ * @param digest - The expected hex-encoded SHA256 digest of the DSSE payload
+ * @param repo - The repository name
+ * @param predicateTypes - In-toto predicate types the caller can verify
+ * @param trustedRoot - Sigstore trusted root; defaults to the bundled snapshot
+ * @param identityPolicy - Required signing certificate identity; defaults to tagged GitHub Actions releases
+ * @returns The selected bundle and the candidates rejected before it
+ * @throws AttestationError listing every rejected candidate if none is usable
+ */
+export async function selectSigstoreBundle(
+  bundles: unknown[],
+  digest: string,
+  repo: string,
+  predicateTypes: string[],
+  trustedRoot?: TrustedRoot,
+  identityPolicy?: SigstoreIdentityPolicy
+): Promise<{ bundle: unknown; rejected: RejectedAttestation[] }> {
+  const rejected: RejectedAttestation[] = [];
+
+  for (const [index, bundle] of bundles.entries()) {
+    let predicateType: string;
+    try {
+      ({ predicateType } = await verifySigstorePayload(bundle, digest, repo, trustedRoot, identityPolicy));
+    } catch (e) {
+      rejected.push({ repo, index, reason: (e as Error).message });
+      continue;
     }
+    if (predicateTypes.includes(predicateType)) {
+      return { bundle, rejected };
+    }
+    rejected.push({ repo, index, predicateType, reason: `Unsupported predicate type "${predicateType}"` });
+  }
+
+  const reasons = rejected.map(r => `#${r.index}: ${r.reason}`).join('; ');
+  throw new AttestationError(`No usable attestation for ${repo} at digest ${digest}` + (reasons ? ` (${reasons})` : ''), { code: ErrorCode.SigstoreVerificationFailed });
+}
+
+function releaseProvenance(cert: X509Certificate, tlogEntry?: { logIndex: string; integratedTime: string }): ReleaseProvenance {
+  const workflowRef = cert.extGitHubWorkflowRef?.workflowRef ?? cert.extSourceRepositoryRef?.sourceRepositoryRef;
+  return {
+    sourceCommit: cert.extGitHubWorkflowSHA?.workflowSHA ?? cert.extSourceRepositoryDigest?.sourceRepositoryDigest,
+    workflowRef,
+    releaseTag: workflowRef?.startsWith('refs/tags/') ? workflowRef.slice('refs/tags/'.length) : undefined,
+    rekorLogIndex: tlogEntry ? Number(tlogEntry.logIndex) : undefined,
+    integratedTime: tlogEntry ? new Date(Number(tlogEntry.integratedTime) * 1000).toISOString() : undefined,
+  };
+}
+
+/**
+ * Verifies a Sigstore bundle for a code release.
+ * Validates the bundle with {@link verifySigstorePayload} and extracts the
+ * measurement payload and release provenance.
+ *
+ * @param bundleJson - The Sigstore bundle JSON data
+ * @param digest - The expected hex-encoded SHA256 digest of the DSSE payload
+ * @param repo - The repository name
+ * @param trustedRoot - Sigstore trusted root; defaults to the bundled snapshot
+ * @param identityPolicy - Required signing certificate identity; defaults to tagged GitHub Actions releases
+ * @param verificationTime - If set, the bundle must have been logged in Rekor by this instant
+ * @returns The verified measurement and release provenance
+ * @throws Error if verification fails or digests don't match
+ */
+export async function verifySigstoreBundle(
+  bundleJson: unknown,
+  digest: string,
+  repo: string,
+  trustedRoot?: TrustedRoot,
+  identityPolicy?: SigstoreIdentityPolicy,
+  verificationTime?: Date
+): Promise<SigstoreRelease> {
+
+  try {
+    const { predicateType, predicate, provenance } = await verifySigstorePayload(bundleJson, digest, repo, trustedRoot, identityPolicy, verificationTime);
 
     return {
-      type: predicateType,
-      registers,
+      measurement: releaseMeasurement(predicateType, predicate),
+      provenance,
     };
 
   } catch (e) {
-    wrapOrThrow(e, AttestationError, 'Sigstore code bundle verification failed');
+    wrapOrThrow(e, AttestationError, 'Sigstore code bundle verification failed', ErrorCode.SigstoreVerificationFailed);
   }
 }
@@ -0,0 +1,168 @@
+import { INTEL_SGX_ROOT_CA } from './certs.js';
+import { X509Certificate } from '@freedomofpress/sigstore-browser';
+import { ASN1Obj } from '@freedomofpress/crypto-browser';
+import { AttestationError, wrapOrThrow, ErrorCode } from '../errors.js';
+
+// Intel SGX PCK certificate extension OID definitions
+const SgxOid = {
+  SGX_EXTENSION: '1.2.840.113741.1.13.1',
+  TCB: '1.2.840.113741.1.13.1.2',
+  PCESVN: '1.2.840.113741.1.13.1.2.17',
+  CPUSVN: '1.2.840.113741.1.13.1.2.18',
+  PCEID: '1.2.840.113741.1.13.1.3',
+  FMSPC: '1.2.840.113741.1.13.1.4',
+};
+
+/** Platform TCB values carried in the PCK certificate's SGX extension */
+export interface PckExtension {
+  cpuSvn: Uint8Array;   // 16 bytes
+  pceSvn: number;
+  pceId: Uint8Array;    // 2 bytes
+  fmspc: Uint8Array;    // 6 bytes
+}
+
+/**
+ * Split a PEM bundle into its individual certificates.
+ */
+export function parsePemChain(pem: string): X509Certificate[] {
+  const blocks = pem.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g) ?? [];
+  try {
+    return blocks.map(block => X509Certificate.parse(block));
+  } catch (e) {
+    throw new AttestationError('Invalid Intel certificate chain: Failed to parse PEM certificate', { cause: e as Error, code: ErrorCode.CertificateChainInvalid });
+  }
+}
+
+/**
+ * Verify a leaf-first Intel certificate chain that terminates in the bundled
+ * Intel SGX Root CA.
+ *
+ * @param certs - Certificates ordered leaf first, root last
+ * @param name - Human-readable chain name for error messages
+ * @param now - Instant at which every certificate must be valid
+ * @throws AttestationError if the chain is invalid
+ */
+export async function verifyIntelChain(certs: X509Certificate[], name: string, now: Date = new Date()): Promise<void> {
+  try {
+    if (certs.length < 2) {
+      throw new AttestationError(`Invalid ${name} certificate chain: Expected at least 2 certificates, got ${certs.length}`, { code: ErrorCode.CertificateChainInvalid });
+    }
+
+    const trustedRoot = X509Certificate.parse(INTEL_SGX_ROOT_CA);
+    const root = certs[certs.length - 1];
+    if (!root.equals(trustedRoot)) {
+      throw new AttestationError(`Invalid ${name} certificate chain: Root certificate is not the Intel SGX Root CA`, { code: ErrorCode.CertificateChainInvalid });
+    }
+
+    for (const cert of certs) {
+      if (!cert.validForDate(now)) {
+        throw new AttestationError(`Invalid ${name} certificate chain: Certificate "${cert.subjectDN.get('CN')}" has expired or is not yet valid`, { code: ErrorCode.CertificateChainInvalid });
+      }
+    }
+
+    if (!(await trustedRoot.verify())) {
+      throw new AttestationError('Intel SGX Root CA signature verification failed: Not properly self-signed', { code: ErrorCode.CertificateChainInvalid });
+    }
+
+    for (let i = 0; i < certs.length - 1; i++) {
+      const cert = certs[i];
+      const issuer = certs[i + 1];
+      if (!issuer.isCA) {
+        throw new AttestationError(`Invalid ${name} certificate chain: Issuer "${issuer.subjectDN.get('CN')}" is not a CA`, { code: ErrorCode.CertificateChainInvalid });
+      }
+      if (!(await cert.verify(issuer))) {
+        throw new AttestationError(`Invalid ${name} certificate chain: "${cert.subjectDN.get('CN')}" is not signed by "${issuer.subjectDN.get('CN')}"`, { code: ErrorCode.CertificateChainInvalid });
+      }
+    }
+  } catch (e) {
+    wrapOrThrow(e, AttestationError, `Intel ${name} certificate chain verification failed`, ErrorCode.CertificateChainInvalid);
+  }
+}
+
+/**
+ * PCK certificate chain embedded in a TDX quote: PCK leaf, PCK platform or
+ * processor CA, and the Intel SGX Root CA.
+ */
+export class PckCertificateChain {
+  constructor(public certs: X509Certificate[]) {}
+
+  static fromPem(pem: string): PckCertificateChain {
+    const certs = parsePemChain(pem);
+    if (certs.length !== 3) {
+      throw new AttestationError(`Invalid PCK certificate chain: Expected 3 certificates, got ${certs.length}`, { code: ErrorCode.CertificateChainInvalid });
+    }
+    return new PckCertificateChain(certs);
+  }
+
+  get pck(): X509Certificate {
+    return this.certs[0];
+  }
+
+  async verifyChain(now: Date = new Date()): Promise<void> {
+    const cn = this.pck.subjectDN.get('CN');
+    if (cn !== 'Intel SGX PCK Certificate') {
+      throw new AttestationError(`Invalid PCK certificate: Expected common name "Intel SGX PCK Certificate", got "${cn}"`, { code: ErrorCode.CertificateChainInvalid });
+    }
+    await verifyIntelChain(this.certs, 'PCK', now);
+  }
+
+  /**
+   * Decode the SGX extension of the PCK leaf certificate.
+   *
+   * @throws AttestationError if the extension is missing or malformed
+   */
+  get extension(): PckExtension {
+    const ext = this.pck.extension(SgxOid.SGX_EXTENSION);
+    if (!ext) {
+      throw new AttestationError('Invalid PCK certificate: Missing Intel SGX extension', { code: ErrorCode.CertificateChainInvalid });
+    }
+
+    try {
+      const entries = sgxEntries(ASN1Obj.parseBuffer(ext.value));
+      const tcb = entries.get(SgxOid.TCB);
+      const pceId = entries.get(SgxOid.PCEID);
+      const fmspc = entries.get(SgxOid.FMSPC);
+      if (!tcb || !pceId || !fmspc) {
+        throw new AttestationError('Invalid PCK certificate: SGX extension is missing TCB, PCEID or FMSPC', { code: ErrorCode.CertificateChainInvalid });
+      }
+
+      const tcbEntries = sgxEntries(tcb);
+      const cpuSvn = tcbEntries.get(SgxOid.CPUSVN);
+      const pceSvn = tcbEntries.get(SgxOid.PCESVN);
+      if (!cpuSvn || !pceSvn) {
+        throw new AttestationError('Invalid PCK certificate: SGX TCB extension is missing CPUSVN or PCESVN', { code: ErrorCode.CertificateChainInvalid });
+      }
+
+      const result: PckExtension = {
+        cpuSvn: cpuSvn.value,
+        pceSvn: Number(pceSvn.toInteger()),
+        pceId: pceId.value,
+        fmspc: fmspc.value,
+      };
+      if (result.cpuSvn.length !== 16 || result.pceId.length !== 2 || result.fmspc.length !== 6) {
+        throw new AttestationError('Invalid PCK certificate: SGX extension field has unexpected length', { code: ErrorCode.CertificateChainInvalid });
+      }
+      return result;
+    } catch (e) {
+      wrapOrThrow(e, AttestationError, 'Invalid PCK certificate: Malformed Intel SGX extension', ErrorCode.CertificateChainInvalid);
+    }
+  }
+
+  get pckPublicKey(): Promise<CryptoKey> {
+    return this.pck.publicKeyObj;
+  }
+}
+
+/**
+ * The SGX extension is a SEQUENCE of SEQUENCE { OID, value } pairs.
+ */
+function sgxEntries(seq: ASN1Obj): Map<string, ASN1Obj> {
+  const entries = new Map<string, ASN1Obj>();
+  for (const entry of seq.subs) {
+    if (entry.subs.length !== 2 || !entry.subs[0].tag.isOID()) {
+      throw new AttestationError('Invalid PCK certificate: Malformed SGX extension entry', { code: ErrorCode.CertificateChainInvalid });
+    }
+    entries.set(entry.subs[0].toOID(), entry.subs[1]);
+  }
+  return entries;
+}
@@ -0,0 +1,199 @@
+import { parsePemChain, verifyIntelChain } from './cert-chain.js';
+import { hexToBytes } from '../sev/utils.js';
+import { KeyTypes, HashAlgorithms } from '@freedomofpress/crypto-browser';
+import { AttestationError, wrapOrThrow, ErrorCode } from '../errors.js';
+
+/**
+ * Intel PCS collateral needed to evaluate a TDX quote.
+ * Signed bodies are kept as the exact JSON text Intel signed.
+ */
+export interface TdxCollateral {
+  /** JSON text of the `tcbInfo` object returned by Intel PCS */
+  tcbInfo: string;
+  /** Hex-encoded raw ECDSA P-256 signature (r || s) over `tcbInfo` */
+  tcbInfoSignature: string;
+  /** PEM-encoded TCB signing certificate followed by the Intel SGX Root CA */
+  tcbInfoIssuerChain: string;
+  /** JSON text of the `enclaveIdentity` object returned by Intel PCS */
+  qeIdentity: string;
+  /** Hex-encoded raw ECDSA P-256 signature (r || s) over `qeIdentity` */
+  qeIdentitySignature: string;
+  /** PEM-encoded enclave identity signing certificate followed by the Intel SGX Root CA */
+  qeIdentityIssuerChain: string;
+}
+
+/**
+ * Extract the raw text of a top-level member of a JSON object. Signed bodies
+ * must keep the exact bytes Intel signed, which re-serializing the parsed
+ * value does not preserve (key order, whitespace, number formatting).
+ *
+ * @param json - Valid JSON text of an object
+ * @returns The member's JSON text, or undefined if the object has no such member
+ */
+export function rawJsonMember(json: string, key: string): string | undefined {
+  const separator = /\s*:\s*/y;
+  let depth = 0;
+  let start = -1;
+  for (let i = 0; i < json.length; i++) {
+    const c = json[i];
+    if (c === '"') {
+      const begin = i;
+      for (i++; i < json.length && json[i] !== '"'; i++) {
+        if (json[i] === '\\') i++;
+      }
+      separator.lastIndex = i + 1;
+      if (depth === 1 && start < 0 && separator.test(json) && JSON.parse(json.slice(begin, i + 1)) === key) {
+        start = separator.lastIndex;
+      }
+    } else if (c === '{' || c === '[') {
+      depth++;
+    } else if (c === '}' || c === ']' || c === ',') {
+      if (c !== ',') depth--;
+      if (start >= 0 && (depth === 0 || (c === ',' && depth === 1))) {
+        return json.slice(start, i).trimEnd();
+      }
+    }
+  }
+  return undefined;
+}
+
+export type TcbStatus =
+  | 'UpToDate'
+  | 'SWHardeningNeeded'
+  | 'ConfigurationNeeded'
+  | 'ConfigurationAndSWHardeningNeeded'
+  | 'OutOfDate'
+  | 'OutOfDateConfigurationNeeded'
+  | 'Revoked';
+
+export interface TcbComponent {
+  svn: number;
+}
+
+export interface TcbLevel {
+  tcb: {
+    sgxtcbcomponents: TcbComponent[];
+    tdxtcbcomponents?: TcbComponent[];
+    pcesvn: number;
+  };
+  tcbDate: string;
+  tcbStatus: TcbStatus;
+  advisoryIDs?: string[];
+}
+
+export interface TcbInfo {
+  id: string;
+  version: number;
+  issueDate: string;
+  nextUpdate: string;
+  fmspc: string;
+  pceId: string;
+  tdxModule?: {
+    mrsigner: string;
+    attributes: string;
+    attributesMask: string;
+  };
+  tcbLevels: TcbLevel[];
+}
+
+export interface QeTcbLevel {
+  tcb: { isvsvn: number };
+  tcbDate: string;
+  tcbStatus: TcbStatus;
+  advisoryIDs?: string[];
+}
+
+export interface QeIdentity {
+  id: string;
+  version: number;
+  issueDate: string;
+  nextUpdate: string;
+  miscselect: string;
+  miscselectMask: string;
+  attributes: string;
+  attributesMask: string;
+  mrsigner: string;
+  isvprodid: number;
+  tcbLevels: QeTcbLevel[];
+}
+
+export interface VerifiedCollateral {
+  tcbInfo: TcbInfo;
+  qeIdentity: QeIdentity;
+}
+
+/**
+ * Verify the signatures, issuer chains and validity windows of TDX collateral.
+ *
+ * @param collateral - Collateral fetched from Intel PCS
+ * @param now - Instant at which the collateral must be valid
+ * @returns The parsed TCB info and QE identity
+ * @throws AttestationError if any part of the collateral cannot be trusted
+ */
+export async function verifyCollateral(collateral: TdxCollateral, now: Date = new Date()): Promise<VerifiedCollateral> {
+  const tcbInfo = await verifySignedJson<TcbInfo>(
+    collateral.tcbInfo,
+    collateral.tcbInfoSignature,
+    collateral.tcbInfoIssuerChain,
+    'TCB info',
+    now,
+  );
+  if (tcbInfo.id !== 'TDX' || tcbInfo.version < 3) {
+    throw new AttestationError(`Invalid TDX collateral: TCB info has id "${tcbInfo.id}" version ${tcbInfo.version}, expected TDX version 3 or later`, { code: ErrorCode.CollateralInvalid });
+  }
+
+  const qeIdentity = await verifySignedJson<QeIdentity>(
+    collateral.qeIdentity,
+    collateral.qeIdentitySignature,
+    collateral.qeIdentityIssuerChain,
+    'QE identity',
+    now,
+  );
+  if (qeIdentity.id !== 'TD_QE') {
+    throw new AttestationError(`Invalid TDX collateral: QE identity has id "${qeIdentity.id}", expected "TD_QE"`, { code: ErrorCode.CollateralInvalid });
+  }
+
+  return { tcbInfo, qeIdentity };
+}
+
+async function verifySignedJson<T extends { issueDate: string; nextUpdate: string }>(
+  body: string,
+  signatureHex: string,
+  issuerChain: string,
+  name: string,
+  now: Date,
+): Promise<T> {
+  const certs = parsePemChain(issuerChain);
+  await verifyIntelChain(certs, name, now);
+
+  let valid: boolean;
+  try {
+    valid = await crypto.subtle.verify(
+      { name: KeyTypes.Ecdsa, hash: HashAlgorithms.SHA256 },
+      await certs[0].publicKeyObj,
+      hexToBytes(signatureHex).slice(),
+      new TextEncoder().encode(body),
+    );
+  } catch (e) {
+    wrapOrThrow(e, AttestationError, `Failed to verify TDX ${name} signature`, ErrorCode.CollateralInvalid);
+  }
+  if (!valid) {
+    throw new AttestationError(`Invalid TDX collateral: ${name} signature is invalid`, { code: ErrorCode.CollateralInvalid });
+  }
+
+  let parsed: T;
+  try {
+    parsed = JSON.parse(body);
+  } catch (e) {
+    throw new AttestationError(`Invalid TDX collateral: ${name} is not valid JSON`, { cause: e as Error, code: ErrorCode.CollateralInvalid });
+  }
+
+  if (now < new Date(parsed.issueDate)) {
+    throw new AttestationError(`Invalid TDX collateral: ${name} issue date ${parsed.issueDate} is in the future`, { code: ErrorCode.CollateralInvalid });
+  }
+  if (now > new Date(parsed.nextUpdate)) {
+    throw new AttestationError(`Invalid TDX collateral: ${name} expired at ${parsed.nextUpdate}`, { code: ErrorCode.CollateralInvalid });
+  }
+
+  return parsed;
+}
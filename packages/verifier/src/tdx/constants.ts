@@ -0,0 +1,34 @@
+export const QUOTE_HEADER_SIZE = 48;
+export const TD_REPORT10_SIZE = 584;
+export const SIGNED_QUOTE_SIZE = QUOTE_HEADER_SIZE + TD_REPORT10_SIZE;
+export const SIGNATURE_DATA_LENGTH_SIZE = 4;
+
+export const ECDSA_P256_SIGNATURE_SIZE = 64;
+export const ECDSA_P256_PUBLIC_KEY_SIZE = 64;
+export const ENCLAVE_REPORT_SIZE = 384;
+
+export const QUOTE_VERSION_V4 = 4;
+export const TEE_TYPE_TDX = 0x81;
+export const ATTESTATION_KEY_TYPE_ECDSA_P256 = 2;
+
+// Intel's QE vendor ID: 939A7233-F79C-4CA9-940A-0DB3957F0607
+export const INTEL_QE_VENDOR_ID = new Uint8Array([
+  0x93, 0x9a, 0x72, 0x33, 0xf7, 0x9c, 0x4c, 0xa9,
+  0x94, 0x0a, 0x0d, 0xb3, 0x95, 0x7f, 0x06, 0x07,
+]);
+
+export enum CertificationDataType {
+  PckCertChain = 5,
+  QeReportCertificationData = 6,
+}
+
+// TD attribute bits (TDATTRIBUTES, little-endian u64)
+export const TD_ATTRIBUTES_DEBUG_BIT = 0;
+export const TD_ATTRIBUTES_SEPT_VE_DISABLE_BIT = 28;
+export const TD_ATTRIBUTES_PKS_BIT = 30;
+export const TD_ATTRIBUTES_KL_BIT = 31;
+export const TD_ATTRIBUTES_PERFMON_BIT = 63;
+
+// Bits 1-27 and 29 of the TUD/SEC groups and bits 32-62 of the OTHER group are reserved
+export const TD_ATTRIBUTES_RESERVED_MASK =
+  ((1n << 28n) - 2n) | (1n << 29n) | (((1n << 31n) - 1n) << 32n);
@@ -0,0 +1,198 @@
+import {
+  QUOTE_HEADER_SIZE,
+  TD_REPORT10_SIZE,
+  SIGNED_QUOTE_SIZE,
+  SIGNATURE_DATA_LENGTH_SIZE,
+  ECDSA_P256_SIGNATURE_SIZE,
+  ECDSA_P256_PUBLIC_KEY_SIZE,
+  ENCLAVE_REPORT_SIZE,
+  CertificationDataType,
+} from './constants.js';
+import { bytesToHex } from '../sev/utils.js';
+import { AttestationError, ErrorCode } from '../errors.js';
+
+/**
+ * SGX enclave report of the Quoting Enclave, embedded in the quote's
+ * certification data.
+ */
+export class EnclaveReport {
+  cpuSvn: Uint8Array;       // 16 bytes
+  miscSelect: number;
+  attributes: Uint8Array;   // 16 bytes
+  mrEnclave: Uint8Array;    // 32 bytes
+  mrSigner: Uint8Array;     // 32 bytes
+  isvProdId: number;
+  isvSvn: number;
+  reportData: Uint8Array;   // 64 bytes
+  raw: Uint8Array;
+
+  constructor(data: Uint8Array) {
+    if (data.length !== ENCLAVE_REPORT_SIZE) {
+      throw new AttestationError(`Invalid QE report: Expected ${ENCLAVE_REPORT_SIZE} bytes, got ${data.length}`, { code: ErrorCode.MalformedEvidence });
+    }
+
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+    this.cpuSvn = data.slice(0x00, 0x10);
+    this.miscSelect = view.getUint32(0x10, true);
+    this.attributes = data.slice(0x30, 0x40);
+    this.mrEnclave = data.slice(0x40, 0x60);
+    this.mrSigner = data.slice(0x80, 0xa0);
+    this.isvProdId = view.getUint16(0x100, true);
+    this.isvSvn = view.getUint16(0x102, true);
+    this.reportData = data.slice(0x140, 0x180);
+    this.raw = data.slice();
+  }
+}
+
+/**
+ * Intel TDX DCAP quote (version 4, TD report 1.0 body)
+ */
+export class Quote {
+  // Header
+  version: number;
+  attestationKeyType: number;
+  teeType: number;
+  qeSvn: number;
+  pceSvn: number;
+  qeVendorId: Uint8Array;   // 16 bytes
+  userData: Uint8Array;     // 20 bytes
+
+  // TD report body
+  teeTcbSvn: Uint8Array;    // 16 bytes
+  mrSeam: Uint8Array;       // 48 bytes
+  mrSignerSeam: Uint8Array; // 48 bytes
+  seamAttributes: Uint8Array; // 8 bytes
+  tdAttributes: bigint;
+  xfam: bigint;
+  mrTd: Uint8Array;         // 48 bytes
+  mrConfigId: Uint8Array;   // 48 bytes
+  mrOwner: Uint8Array;      // 48 bytes
+  mrOwnerConfig: Uint8Array; // 48 bytes
+  rtmrs: Uint8Array[];      // 4 x 48 bytes
+  reportData: Uint8Array;   // 64 bytes
+
+  // Signature data
+  signedData: Uint8Array;
+  signature: Uint8Array;    // 64 bytes, raw r || s
+  attestationKey: Uint8Array; // 64 bytes, raw x || y
+  qeReport: EnclaveReport;
+  qeReportSignature: Uint8Array; // 64 bytes, raw r || s
+  qeAuthData: Uint8Array;
+  pckCertChain: string;     // PEM-encoded PCK leaf, intermediate and root
+
+  /**
+   * Parse a TDX quote from raw bytes.
+   *
+   * @param data - Raw bytes of the quote
+   * @throws AttestationError if the quote is malformed or uses an unsupported layout
+   */
+  constructor(data: Uint8Array) {
+    if (data.length < SIGNED_QUOTE_SIZE + SIGNATURE_DATA_LENGTH_SIZE) {
+      throw new AttestationError(`Invalid TDX quote: Data size (${data.length} bytes) is smaller than the minimum quote size`, { code: ErrorCode.MalformedEvidence });
+    }
+
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+    this.version = view.getUint16(0, true);
+    this.attestationKeyType = view.getUint16(2, true);
+    this.teeType = view.getUint32(4, true);
+    this.qeSvn = view.getUint16(8, true);
+    this.pceSvn = view.getUint16(10, true);
+    this.qeVendorId = data.slice(12, 28);
+    this.userData = data.slice(28, QUOTE_HEADER_SIZE);
+
+    const body = QUOTE_HEADER_SIZE;
+    this.teeTcbSvn = data.slice(body, body + 16);
+    this.mrSeam = data.slice(body + 16, body + 64);
+    this.mrSignerSeam = data.slice(body + 64, body + 112);
+    this.seamAttributes = data.slice(body + 112, body + 120);
+    this.tdAttributes = view.getBigUint64(body + 120, true);
+    this.xfam = view.getBigUint64(body + 128, true);
+    this.mrTd = data.slice(body + 136, body + 184);
+    this.mrConfigId = data.slice(body + 184, body + 232);
+    this.mrOwner = data.slice(body + 232, body + 280);
+    this.mrOwnerConfig = data.slice(body + 280, body + 328);
+    this.rtmrs = [0, 1, 2, 3].map(i => data.slice(body + 328 + i * 48, body + 376 + i * 48));
+    this.reportData = data.slice(body + 520, body + TD_REPORT10_SIZE);
+
+    this.signedData = data.slice(0, SIGNED_QUOTE_SIZE);
+
+    const sigDataStart = SIGNED_QUOTE_SIZE + SIGNATURE_DATA_LENGTH_SIZE;
+    const sigDataLen = view.getUint32(SIGNED_QUOTE_SIZE, true);
+    if (sigDataStart + sigDataLen > data.length) {
+      throw new AttestationError(`Invalid TDX quote: Signature data length (${sigDataLen}) exceeds remaining quote size (${data.length - sigDataStart})`, { code: ErrorCode.MalformedEvidence });
+    }
+    const sigData = new ByteReader(data.slice(sigDataStart, sigDataStart + sigDataLen), 'signature data');
+
+    this.signature = sigData.bytes(ECDSA_P256_SIGNATURE_SIZE);
+    this.attestationKey = sigData.bytes(ECDSA_P256_PUBLIC_KEY_SIZE);
+
+    const certDataType = sigData.uint16();
+    const certData = new ByteReader(sigData.bytes(sigData.uint32()), 'certification data');
+    if (certDataType !== CertificationDataType.QeReportCertificationData) {
+      throw new AttestationError(`Unsupported TDX quote certification data type ${certDataType}. Only QE report certification data (type 6) is supported`, { code: ErrorCode.MalformedEvidence });
+    }
+
+    this.qeReport = new EnclaveReport(certData.bytes(ENCLAVE_REPORT_SIZE));
+    this.qeReportSignature = certData.bytes(ECDSA_P256_SIGNATURE_SIZE);
+    this.qeAuthData = certData.bytes(certData.uint16());
+
+    const pckCertType = certData.uint16();
+    const pckCertData = certData.bytes(certData.uint32());
+    if (pckCertType !== CertificationDataType.PckCertChain) {
+      throw new AttestationError(`Unsupported QE certification data type ${pckCertType}. Only a PCK certificate chain (type 5) is supported`, { code: ErrorCode.MalformedEvidence });
+    }
+    // The chain is NUL-terminated in some quotes
+    this.pckCertChain = new TextDecoder().decode(pckCertData).replace(/\0+$/, '');
+  }
+
+  /** RTMR registers as hex strings, in order RTMR0..RTMR3 */
+  get rtmrHex(): string[] {
+    return this.rtmrs.map(bytesToHex);
+  }
+}
+
+/**
+ * Sequential little-endian reader over a byte buffer that fails with
+ * an AttestationError instead of reading out of bounds.
+ */
+class ByteReader {
+  private offset = 0;
+  private view: DataView;
+
+  constructor(private data: Uint8Array, private name: string) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  get remaining(): number {
+    return this.data.length - this.offset;
+  }
+
+  bytes(length: number): Uint8Array {
+    this.ensure(length);
+    const out = this.data.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return out;
+  }
+
+  uint16(): number {
+    this.ensure(2);
+    const value = this.view.getUint16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  uint32(): number {
+    this.ensure(4);
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  private ensure(length: number): void {
+    if (this.offset + length > this.data.length) {
+      throw new AttestationError(`Invalid TDX quote: Truncated ${this.name}`, { code: ErrorCode.MalformedEvidence });
+    }
+  }
+}
@@ -0,0 +1,213 @@
+import type { Quote, EnclaveReport } from './quote.js';
+import type { PckExtension } from './cert-chain.js';
+import type { VerifiedCollateral, TcbInfo, QeIdentity, TcbStatus } from './collateral.js';
+import {
+  TD_ATTRIBUTES_DEBUG_BIT,
+  TD_ATTRIBUTES_SEPT_VE_DISABLE_BIT,
+  TD_ATTRIBUTES_RESERVED_MASK,
+} from './constants.js';
+import { bytesToHex, hexToBytes } from '../sev/utils.js';
+import { AttestationError, ErrorCode } from '../errors.js';
+
+/**
+ * Verification options for an Intel TDX quote.
+ * Any attribute left as undefined will not be checked by the validation routine.
+ */
+export interface TdxValidationOptions {
+  // TCB status values from Intel's collateral that are acceptable
+  acceptedTcbStatuses: TcbStatus[];
+
+  // Minimum TEE TCB SVN (16 bytes, compared component-wise)
+  minimumTeeTcbSvn?: Uint8Array;
+
+  // Allow-list of TDX module measurements (hex-encoded MRSEAM)
+  mrSeam?: string[];
+
+  // Field equality checks
+  mrConfigId?: Uint8Array;          // 48 bytes
+  mrOwner?: Uint8Array;             // 48 bytes
+  mrOwnerConfig?: Uint8Array;       // 48 bytes
+  xfam?: bigint;
+}
+
+// Default validation options
+export const defaultTdxValidationOptions: TdxValidationOptions = {
+  acceptedTcbStatuses: [
+    'UpToDate',
+    'SWHardeningNeeded',
+    'ConfigurationNeeded',
+    'ConfigurationAndSWHardeningNeeded',
+  ],
+  mrConfigId: new Uint8Array(48),
+  mrOwner: new Uint8Array(48),
+  mrOwnerConfig: new Uint8Array(48),
+};
+
+/**
+ * Validate the supplied TDX quote against Intel's collateral and the options.
+ *
+ * @param quote - The verified TDX quote
+ * @param pck - SGX extension of the quote's PCK certificate
+ * @param collateral - Verified TCB info and QE identity
+ * @param options - Validation options
+ * @returns The combined platform and QE TCB status
+ * @throws AttestationError if validation fails
+ */
+export function validateQuote(
+  quote: Quote,
+  pck: PckExtension,
+  collateral: VerifiedCollateral,
+  options: TdxValidationOptions
+): TcbStatus {
+  validateTdAttributes(quote.tdAttributes);
+
+  const qeStatus = validateQeIdentity(quote.qeReport, collateral.qeIdentity);
+  const platformStatus = matchPlatformTcb(quote, pck, collateral.tcbInfo);
+  const status = worseStatus(platformStatus, qeStatus);
+
+  if (!options.acceptedTcbStatuses.includes(status)) {
+    throw new AttestationError(`TDX platform TCB status "${status}" is not accepted by policy (accepted: ${options.acceptedTcbStatuses.join(', ')})`, { code: ErrorCode.TcbOutOfDate });
+  }
+
+  if (options.minimumTeeTcbSvn) {
+    for (let i = 0; i < options.minimumTeeTcbSvn.length; i++) {
+      if (quote.teeTcbSvn[i] < options.minimumTeeTcbSvn[i]) {
+        throw new AttestationError(`TEE TCB SVN ${bytesToHex(quote.teeTcbSvn)} does not meet minimum requirements ${bytesToHex(options.minimumTeeTcbSvn)}`, { code: ErrorCode.TcbOutOfDate });
+      }
+    }
+  }
+
+  if (options.mrSeam) {
+    const mrSeam = bytesToHex(quote.mrSeam);
+    if (!options.mrSeam.some(m => m.toLowerCase() === mrSeam)) {
+      throw new AttestationError(`TDX module measurement ${mrSeam} is not in the list of allowed MRSEAM values`, { code: ErrorCode.PolicyViolation });
+    }
+  }
+
+  checkEqual('MRCONFIGID', quote.mrConfigId, options.mrConfigId);
+  checkEqual('MROWNER', quote.mrOwner, options.mrOwner);
+  checkEqual('MROWNERCONFIG', quote.mrOwnerConfig, options.mrOwnerConfig);
+
+  if (options.xfam !== undefined && quote.xfam !== options.xfam) {
+    throw new AttestationError(`XFAM mismatch: got 0x${quote.xfam.toString(16)}, expected 0x${options.xfam.toString(16)}`, { code: ErrorCode.PolicyViolation });
+  }
+
+  return status;
+}
+
+function validateTdAttributes(tdAttributes: bigint): void {
+  if (tdAttributes & (1n << BigInt(TD_ATTRIBUTES_DEBUG_BIT))) {
+    throw new AttestationError('Security policy violation: TD debug mode is enabled but not allowed. The enclave must have debug disabled for production use', { code: ErrorCode.PolicyViolation });
+  }
+  if (tdAttributes & TD_ATTRIBUTES_RESERVED_MASK) {
+    throw new AttestationError(`Invalid TDX quote: TD attributes have reserved bits set (0x${tdAttributes.toString(16)})`, { code: ErrorCode.MalformedEvidence });
+  }
+  if (!(tdAttributes & (1n << BigInt(TD_ATTRIBUTES_SEPT_VE_DISABLE_BIT)))) {
+    throw new AttestationError('Security policy violation: SEPT_VE_DISABLE is not set in TD attributes', { code: ErrorCode.PolicyViolation });
+  }
+}
+
+/**
+ * Check the quoting enclave against Intel's QE identity and return the
+ * status of the first QE TCB level its ISVSVN satisfies.
+ */
+function validateQeIdentity(qeReport: EnclaveReport, identity: QeIdentity): TcbStatus {
+  if (bytesToHex(qeReport.mrSigner) !== identity.mrsigner.toLowerCase()) {
+    throw new AttestationError('TDX QE identity mismatch: MRSIGNER of the quoting enclave is not Intel\'s', { code: ErrorCode.PolicyViolation });
+  }
+  if (qeReport.isvProdId !== identity.isvprodid) {
+    throw new AttestationError(`TDX QE identity mismatch: ISVPRODID ${qeReport.isvProdId}, expected ${identity.isvprodid}`, { code: ErrorCode.PolicyViolation });
+  }
+
+  const miscselect = new DataView(hexToBytes(identity.miscselect).buffer).getUint32(0, true);
+  const miscselectMask = new DataView(hexToBytes(identity.miscselectMask).buffer).getUint32(0, true);
+  if (((qeReport.miscSelect & miscselectMask) >>> 0) !== ((miscselect & miscselectMask) >>> 0)) {
+    throw new AttestationError('TDX QE identity mismatch: MISCSELECT does not match Intel\'s QE identity', { code: ErrorCode.PolicyViolation });
+  }
+
+  const attributes = hexToBytes(identity.attributes);
+  const attributesMask = hexToBytes(identity.attributesMask);
+  for (let i = 0; i < attributesMask.length; i++) {
+    if ((qeReport.attributes[i] & attributesMask[i]) !== (attributes[i] & attributesMask[i])) {
+      throw new AttestationError('TDX QE identity mismatch: ATTRIBUTES do not match Intel\'s QE identity', { code: ErrorCode.PolicyViolation });
+    }
+  }
+
+  const level = identity.tcbLevels.find(l => qeReport.isvSvn >= l.tcb.isvsvn);
+  if (!level) {
+    throw new AttestationError(`TDX QE ISVSVN ${qeReport.isvSvn} is below every TCB level in Intel's QE identity`, { code: ErrorCode.TcbOutOfDate });
+  }
+  return level.tcbStatus;
+}
+
+/**
+ * Find the first TCB level in Intel's TCB info that the platform satisfies.
+ * TCB levels are ordered from newest to oldest.
+ */
+function matchPlatformTcb(quote: Quote, pck: PckExtension, tcbInfo: TcbInfo): TcbStatus {
+  if (bytesToHex(pck.fmspc) !== tcbInfo.fmspc.toLowerCase()) {
+    throw new AttestationError(`TDX collateral mismatch: TCB info is for FMSPC ${tcbInfo.fmspc}, PCK certificate has ${bytesToHex(pck.fmspc)}`, { code: ErrorCode.CollateralInvalid });
+  }
+  if (bytesToHex(pck.pceId) !== tcbInfo.pceId.toLowerCase()) {
+    throw new AttestationError(`TDX collateral mismatch: TCB info is for PCEID ${tcbInfo.pceId}, PCK certificate has ${bytesToHex(pck.pceId)}`, { code: ErrorCode.CollateralInvalid });
+  }
+
+  if (tcbInfo.tdxModule) {
+    if (bytesToHex(quote.mrSignerSeam) !== tcbInfo.tdxModule.mrsigner.toLowerCase()) {
+      throw new AttestationError('TDX module identity mismatch: MRSIGNERSEAM does not match Intel\'s TCB info', { code: ErrorCode.PolicyViolation });
+    }
+    const attributes = hexToBytes(tcbInfo.tdxModule.attributes);
+    const mask = hexToBytes(tcbInfo.tdxModule.attributesMask);
+    for (let i = 0; i < mask.length; i++) {
+      if ((quote.seamAttributes[i] & mask[i]) !== (attributes[i] & mask[i])) {
+        throw new AttestationError('TDX module identity mismatch: SEAMATTRIBUTES do not match Intel\'s TCB info', { code: ErrorCode.PolicyViolation });
+      }
+    }
+  }
+
+  for (const level of tcbInfo.tcbLevels) {
+    if (pck.pceSvn < level.tcb.pcesvn) {
+      continue;
+    }
+    if (!svnsMeet(pck.cpuSvn, level.tcb.sgxtcbcomponents.map(c => c.svn))) {
+      continue;
+    }
+    if (!svnsMeet(quote.teeTcbSvn, (level.tcb.tdxtcbcomponents ?? []).map(c => c.svn))) {
+      continue;
+    }
+    return level.tcbStatus;
+  }
+
+  throw new AttestationError('TDX platform TCB is below every TCB level in Intel\'s TCB info', { code: ErrorCode.TcbOutOfDate });
+}
+
+function svnsMeet(actual: Uint8Array, required: number[]): boolean {
+  if (required.length !== actual.length) {
+    return false;
+  }
+  return required.every((svn, i) => actual[i] >= svn);
+}
+
+const TCB_STATUS_SEVERITY: TcbStatus[] = [
+  'UpToDate',
+  'SWHardeningNeeded',
+  'ConfigurationNeeded',
+  'ConfigurationAndSWHardeningNeeded',
+  'OutOfDate',
+  'OutOfDateConfigurationNeeded',
+  'Revoked',
+];
+
+function worseStatus(a: TcbStatus, b: TcbStatus): TcbStatus {
+  const severity = (s: TcbStatus) => {
+    const i = TCB_STATUS_SEVERITY.indexOf(s);
+    return i === -1 ? TCB_STATUS_SEVERITY.length : i;
+  };
+  return severity(b) > severity(a) ? b : a;
+}
+
+function checkEqual(name: string, actual: Uint8Array, expected?: Uint8Array): void {
+  if (expected && bytesToHex(actual) !== bytesToHex(expected)) {
+    throw new AttestationError(`${name} mismatch: got ${bytesToHex(actual)}, expected ${bytesToHex(expected)}`, { code: ErrorCode.PolicyViolation });
+  }
+}
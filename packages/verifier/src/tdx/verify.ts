@@ -0,0 +1,93 @@
+import type { Quote } from './quote.js';
+import type { PckCertificateChain } from './cert-chain.js';
+import {
+  QUOTE_VERSION_V4,
+  TEE_TYPE_TDX,
+  ATTESTATION_KEY_TYPE_ECDSA_P256,
+  INTEL_QE_VENDOR_ID,
+} from './constants.js';
+import { KeyTypes, HashAlgorithms, EcdsaTypes, uint8ArrayEqual } from '@freedomofpress/crypto-browser';
+import { AttestationError, wrapOrThrow, ErrorCode } from '../errors.js';
+
+/**
+ * Verify a TDX quote against its embedded PCK certificate chain.
+ *
+ * Checks the PCK chain up to the Intel SGX Root CA, the QE report signature
+ * made with the PCK key, the binding of the attestation key to the QE report,
+ * and finally the quote signature made with the attestation key.
+ *
+ * @param chain - The PCK certificate chain (PCK > intermediate CA > Intel root)
+ * @param quote - The parsed TDX quote
+ * @param now - Instant at which certificates must be valid
+ * @throws AttestationError if any signature or binding is invalid
+ */
+export async function verifyQuote(
+  chain: PckCertificateChain,
+  quote: Quote,
+  now: Date = new Date()
+): Promise<void> {
+  if (quote.version !== QUOTE_VERSION_V4) {
+    throw new AttestationError(`Unsupported TDX quote version ${quote.version}. Only version 4 is supported`, { code: ErrorCode.MalformedEvidence });
+  }
+  if (quote.teeType !== TEE_TYPE_TDX) {
+    throw new AttestationError(`Unsupported TEE type 0x${quote.teeType.toString(16)} in quote. Only TDX (0x81) is supported`, { code: ErrorCode.MalformedEvidence });
+  }
+  if (quote.attestationKeyType !== ATTESTATION_KEY_TYPE_ECDSA_P256) {
+    throw new AttestationError(`Unsupported attestation key type ${quote.attestationKeyType}. Only ECDSA P-256 (2) is supported`, { code: ErrorCode.MalformedEvidence });
+  }
+  if (!uint8ArrayEqual(quote.qeVendorId, INTEL_QE_VENDOR_ID)) {
+    throw new AttestationError('Invalid TDX quote: QE vendor ID is not Intel', { code: ErrorCode.MalformedEvidence });
+  }
+
+  await chain.verifyChain(now);
+
+  // QE report is signed by the PCK key
+  const pckKey = await chain.pckPublicKey;
+  if (!(await verifyP256(pckKey, quote.qeReportSignature, quote.qeReport.raw))) {
+    throw new AttestationError('TDX QE report signature is invalid: The quoting enclave report was not signed by the PCK key', { code: ErrorCode.SignatureInvalid });
+  }
+
+  // QE report data binds the attestation key: SHA256(attestation key || QE auth data)
+  const hashInput = new Uint8Array(quote.attestationKey.length + quote.qeAuthData.length);
+  hashInput.set(quote.attestationKey, 0);
+  hashInput.set(quote.qeAuthData, quote.attestationKey.length);
+  const expected = new Uint8Array(await crypto.subtle.digest(HashAlgorithms.SHA256, hashInput));
+  if (!uint8ArrayEqual(quote.qeReport.reportData.slice(0, 32), expected) ||
+      quote.qeReport.reportData.slice(32).some(b => b !== 0)) {
+    throw new AttestationError('TDX attestation key binding is invalid: QE report data does not match the attestation key', { code: ErrorCode.SignatureInvalid });
+  }
+
+  // Quote header and TD report are signed by the attestation key
+  let attestationKey: CryptoKey;
+  try {
+    const raw = new Uint8Array(1 + quote.attestationKey.length);
+    raw[0] = 0x04; // uncompressed point
+    raw.set(quote.attestationKey, 1);
+    attestationKey = await crypto.subtle.importKey(
+      'raw',
+      raw,
+      { name: KeyTypes.Ecdsa, namedCurve: EcdsaTypes.P256 },
+      false,
+      ['verify']
+    );
+  } catch (e) {
+    wrapOrThrow(e, AttestationError, 'Invalid TDX quote: Attestation key is not a valid P-256 public key', ErrorCode.MalformedEvidence);
+  }
+
+  if (!(await verifyP256(attestationKey, quote.signature, quote.signedData))) {
+    throw new AttestationError('TDX quote signature is invalid: The quote was not signed by the attested QE key', { code: ErrorCode.SignatureInvalid });
+  }
+}
+
+async function verifyP256(key: CryptoKey, signature: Uint8Array, data: Uint8Array): Promise<boolean> {
+  try {
+    return await crypto.subtle.verify(
+      { name: KeyTypes.Ecdsa, hash: HashAlgorithms.SHA256 },
+      key,
+      signature.slice(),
+      data.slice()
+    );
+  } catch (e) {
+    wrapOrThrow(e, AttestationError, 'Failed to verify TDX ECDSA P-256 signature', ErrorCode.SignatureInvalid);
+  }
+}
@@ -1,7 +1,13 @@
+import type { TdxCollateral } from './tdx/collateral.js';
+import type { ValidationOptions } from './sev/validation.js';
+import type { SigstoreIdentityPolicy } from './sigstore.js';
+
 export enum PredicateType {
   SevGuestV1 = 'https://tinfoil.sh/predicate/sev-snp-guest/v1', // Deprecated
   SevGuestV2 = 'https://tinfoil.sh/predicate/sev-snp-guest/v2',
   SnpTdxMultiplatformV1 = 'https://tinfoil.sh/predicate/snp-tdx-multiplatform/v1',
+  TdxGuestV2 = 'https://tinfoil.sh/predicate/tdx-guest/v2',
+  HardwareMeasurementsV1 = 'https://tinfoil.sh/predicate/hardware-measurements/v1',
 }
 
 export interface AttestationDocument {
@@ -21,10 +27,41 @@ export interface AttestationBundle {
   digest: string;
   /** Sigstore bundle for code provenance verification */
   sigstoreBundle: unknown;
-  /** Base64-encoded VCEK certificate (DER format) */
+  /** Base64-encoded VCEK certificate (DER format); empty for TDX enclaves and VLEK-signed reports */
   vcek: string;
+  /** Base64-encoded VLEK certificate (DER format), present for VLEK-signed SEV-SNP reports */
+  vlek?: string;
+  /** PEM-encoded ASVK certificate that issued the VLEK, present for VLEK-signed SEV-SNP reports */
+  asvk?: string;
+  /** Base64-encoded AMD CRL (DER format) for the SEV-SNP processor family, present when revocations are checked */
+  amdCrl?: string;
+  /** Base64-encoded SNP extended-report certificate table, if the enclave returned one */
+  certTable?: string;
+  /** Intel PCS collateral (TCB info and QE identity), present for TDX enclaves */
+  tdxCollateral?: TdxCollateral;
+  /** SHA256 digest of the hardware measurements release, present for TDX enclaves */
+  hardwareDigest?: string;
+  /** Sigstore bundle for the hardware measurements release, present for TDX enclaves */
+  hardwareSigstoreBundle?: unknown;
   /** PEM-encoded enclave TLS certificate (contains HPKE key and attestation hash in SANs) */
   enclaveCert: string;
+  /** Attestations published for the release digests that were not selected for verification */
+  rejectedAttestations?: RejectedAttestation[];
+}
+
+/**
+ * A GitHub attestation published for a release digest that was skipped
+ * because it failed verification or carries an unsupported predicate.
+ */
+export interface RejectedAttestation {
+  /** Repo the attestation was published for */
+  repo: string;
+  /** Position of the attestation in GitHub's attestation list */
+  index: number;
+  /** In-toto predicate type, if the bundle verified */
+  predicateType?: string;
+  /** Why the attestation was rejected */
+  reason: string;
 }
 
 export interface AttestationMeasurement {
@@ -36,13 +73,15 @@ export interface AttestationResponse {
   tlsPublicKeyFingerprint?: string;
   hpkePublicKey?: string;
   measurement: AttestationMeasurement;
+  /** True if the SEV-SNP report came from provisional (uncommitted) firmware */
+  provisionalFirmware?: boolean;
 }
 
-import { AttestationError } from './errors.js';
+import { AttestationError, ErrorCode } from './errors.js';
 
 /**
  * Compares two measurements for equality.
- * Handles cross-platform comparison between SnpTdxMultiplatformV1 and SevGuestV2.
+ * Handles cross-platform comparison of SnpTdxMultiplatformV1 against SevGuestV2 and TdxGuestV2.
  * @throws AttestationError if the measurement types are incompatible or registers don't match
  */
 export function compareMeasurements(a: AttestationMeasurement, b: AttestationMeasurement): void {
@@ -50,38 +89,58 @@ export function compareMeasurements(a: AttestationMeasurement, b: AttestationMea
   if (a.type === b.type) {
     if (a.registers.length !== b.registers.length ||
         !a.registers.every((reg, i) => reg === b.registers[i])) {
-      throw new AttestationError('Code measurement mismatch: The enclave is running different code than the expected release');
+      throw new AttestationError('Code measurement mismatch: The enclave is running different code than the expected release', { code: ErrorCode.MeasurementMismatch });
     }
     return;
   }
 
-  // Cross-platform: SnpTdxMultiplatformV1 vs SevGuestV2
+  // Cross-platform comparisons always have the multiplatform release on one side
+  const [release, enclave] = b.type === PredicateType.SnpTdxMultiplatformV1 ? [b, a] : [a, b];
+  if (release.type !== PredicateType.SnpTdxMultiplatformV1) {
+    throw incompatible(a, b);
+  }
+
   // MultiPlatform registers: [snp, rtmr1, rtmr2]
   // SevGuestV2 registers: [snp]
-  // Only compare the SNP measurement (first register of both)
-  if (a.type === PredicateType.SnpTdxMultiplatformV1 && b.type === PredicateType.SevGuestV2) {
-    if (a.registers.length < 1 || b.registers.length < 1) {
-      throw new AttestationError('Invalid measurement data: Missing measurement registers');
-    }
-    if (a.registers[0] !== b.registers[0]) {
-      throw new AttestationError('Code measurement mismatch: The SNP measurement from the enclave does not match the expected measurement from the signed release');
-    }
-    return;
+  // TdxGuestV2 registers: [mrtd, rtmr0, rtmr1, rtmr2, rtmr3]
+  switch (enclave.type) {
+    case PredicateType.SevGuestV2:
+      if (release.registers.length < 1 || enclave.registers.length < 1) {
+        throw new AttestationError('Invalid measurement data: Missing measurement registers', { code: ErrorCode.MalformedEvidence });
+      }
+      compareRegister('SNP measurement', release.registers[0], enclave.registers[0]);
+      return;
+
+    case PredicateType.TdxGuestV2:
+      if (release.registers.length < 3 || enclave.registers.length < 5) {
+        throw new AttestationError('Invalid measurement data: Missing measurement registers', { code: ErrorCode.MalformedEvidence });
+      }
+      // MRTD and RTMR0 describe the firmware and hardware configuration, not the release
+      compareRegister('RTMR1', release.registers[1], enclave.registers[2]);
+      compareRegister('RTMR2', release.registers[2], enclave.registers[3]);
+      if (enclave.registers[4] !== EMPTY_RTMR) {
+        throw new AttestationError('Code measurement mismatch: RTMR3 from the enclave is not zero. Runtime measurements are not allowed in this release', { code: ErrorCode.MeasurementMismatch });
+      }
+      return;
+
+    default:
+      throw incompatible(a, b);
   }
+}
 
-  // Reverse direction
-  if (a.type === PredicateType.SevGuestV2 && b.type === PredicateType.SnpTdxMultiplatformV1) {
-    if (a.registers.length < 1 || b.registers.length < 1) {
-      throw new AttestationError('Invalid measurement data: Missing measurement registers');
-    }
-    if (a.registers[0] !== b.registers[0]) {
-      throw new AttestationError('Code measurement mismatch: The SNP measurement from the enclave does not match the expected measurement from the signed release');
-    }
-    return;
+// RTMR3 must be left unextended (48 zero bytes, hex-encoded)
+const EMPTY_RTMR = '0'.repeat(96);
+
+function compareRegister(name: string, expected: string, actual: string): void {
+  if (expected !== actual) {
+    throw new AttestationError(`Code measurement mismatch: The ${name} from the enclave (${actual}) does not match the expected ${name} from the signed release (${expected})`, { code: ErrorCode.MeasurementMismatch });
   }
+}
 
-  throw new AttestationError(
-    `Cannot compare measurements: Incompatible measurement types "${a.type}" and "${b.type}"`
+function incompatible(a: AttestationMeasurement, b: AttestationMeasurement): AttestationError {
+  return new AttestationError(
+    `Cannot compare measurements: Incompatible measurement types "${a.type}" and "${b.type}"`,
+    { code: ErrorCode.MeasurementMismatch }
   );
 }
 
@@ -117,6 +176,21 @@ export async function hashAttestationDocument(doc: AttestationDocument): Promise
 export interface VerificationStepState {
   status: 'pending' | 'success' | 'failed';
   error?: string;
+  /** Machine-readable code of the error that failed the step */
+  code?: ErrorCode;
+}
+
+export type VerificationStep = keyof VerificationDocument['steps'];
+
+/**
+ * Progress of a verification step: emitted with a pending state when the
+ * step starts, and with its outcome and duration when it finishes.
+ */
+export interface VerificationStepEvent {
+  step: VerificationStep;
+  state: VerificationStepState;
+  /** Time the step took in milliseconds, once it has finished */
+  durationMs?: number;
 }
 
 export interface HardwareMeasurement {
@@ -125,24 +199,54 @@ export interface HardwareMeasurement {
   RTMR0?: string;
 }
 
+/**
+ * Build provenance of a release, read from its verified Sigstore signing
+ * certificate and transparency log entry.
+ */
+export interface ReleaseProvenance {
+  /** Commit SHA the release was built from */
+  sourceCommit?: string;
+  /** Git ref the signing workflow ran for, e.g. "refs/tags/v1.4.2" */
+  workflowRef?: string;
+  /** Release tag, when the workflow ran for a tag */
+  releaseTag?: string;
+  /** Index of the signature's entry in the Rekor transparency log */
+  rekorLogIndex?: number;
+  /** Time the entry was integrated into Rekor (ISO 8601) */
+  integratedTime?: string;
+}
+
 export interface VerificationDocument {
   configRepo: string;
   enclaveHost: string;
   releaseDigest: string;
+  /** Provenance of the release the enclave is running */
+  provenance?: ReleaseProvenance;
+  /** Attestations published for the release that were not used, and why */
+  rejectedAttestations?: RejectedAttestation[];
   codeMeasurement: AttestationMeasurement;
   enclaveMeasurement: AttestationResponse;
   tlsPublicKey: string;
   hpkePublicKey: string;
   hardwareMeasurement?: HardwareMeasurement;
+  /** Effective SEV-SNP validation policy the enclave was checked against */
+  policy?: ValidationOptions;
+  /** Effective Sigstore certificate identity policy the code release was checked against */
+  identityPolicy?: SigstoreIdentityPolicy;
+  /** True if the enclave's host is running provisional (uncommitted) SEV-SNP firmware */
+  provisionalFirmware?: boolean;
   codeFingerprint: string;
   enclaveFingerprint: string;
   selectedRouterEndpoint: string;
+  /** Instant the certificates were checked at (ISO 8601), if not the time of verification */
+  verificationTime?: string;
   securityVerified: boolean;
   steps: {
     fetchDigest: VerificationStepState;
     verifyCode: VerificationStepState;
     verifyEnclave: VerificationStepState;
     compareMeasurements: VerificationStepState;
+    verifyHardware?: VerificationStepState;
     verifyCertificate?: VerificationStepState;
     otherError?: VerificationStepState;
   };
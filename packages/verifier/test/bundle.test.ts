@@ -1,6 +1,10 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { Verifier } from '../src/client.js';
-import type { AttestationBundle } from '../src/types.js';
+import type { AttestationBundle, VerificationStepEvent } from '../src/types.js';
+import { defaultValidationOptions } from '../src/sev/validation.js';
+import { defaultSigstoreIdentityPolicy, selectSigstoreBundle } from '../src/sigstore.js';
+import { PredicateType } from '../src/types.js';
+import { AbortError, ErrorCode } from '../src/errors.js';
 import bundleFixture from './fixtures/attestation-bundle.json';
 
 /**
@@ -112,6 +116,21 @@ describe('Bundle Verification', () => {
     expect(doc!.releaseDigest).toBe(bundle.digest);
   });
 
+  it('should report release provenance from the signing certificate and Rekor entry', async () => {
+    const verifier = new Verifier({ configRepo: 'tinfoilsh/confidential-model-router' });
+
+    await verifier.verifyBundle(bundle);
+    const { provenance } = verifier.getVerificationDocument()!;
+
+    expect(provenance).toEqual({
+      sourceCommit: expect.stringMatching(/^[0-9a-f]{40}$/),
+      workflowRef: 'refs/tags/v0.0.38',
+      releaseTag: 'v0.0.38',
+      rekorLogIndex: 845420855,
+      integratedTime: new Date(1769121722 * 1000).toISOString(),
+    });
+  });
+
   it('should fail verification with tampered digest', async () => {
     const tamperedBundle: AttestationBundle = {
       ...bundle,
@@ -126,6 +145,56 @@ describe('Bundle Verification', () => {
     await expect(verifier.verifyBundle(tamperedBundle)).rejects.toThrow();
   });
 
+  it('should record the error code of the failed step', async () => {
+    const verifier = new Verifier({ configRepo: 'tinfoilsh/confidential-model-router' });
+
+    await expect(verifier.verifyBundle({ ...bundle, digest: 'a'.repeat(64) }))
+      .rejects.toMatchObject({ code: ErrorCode.ReleaseDigestMismatch });
+    expect(verifier.getVerificationDocument()?.steps.verifyCode).toMatchObject({
+      status: 'failed',
+      code: ErrorCode.ReleaseDigestMismatch,
+    });
+  });
+
+  it('should report each step as it starts and finishes', async () => {
+    const events: VerificationStepEvent[] = [];
+    const verifier = new Verifier({ configRepo: 'tinfoilsh/confidential-model-router', onStep: e => events.push(e) });
+
+    await verifier.verifyBundle(bundle);
+
+    expect(events.map(e => `${e.step}:${e.state.status}`)).toEqual([
+      'fetchDigest:pending', 'fetchDigest:success',
+      'verifyEnclave:pending', 'verifyEnclave:success',
+      'verifyCode:pending', 'verifyCode:success',
+      'compareMeasurements:pending', 'compareMeasurements:success',
+      'verifyCertificate:pending', 'verifyCertificate:success',
+    ]);
+    expect(events[0].durationMs).toBeUndefined();
+    expect(events[1].durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should report the failed step to the step listener', async () => {
+    const onStep = vi.fn();
+    const verifier = new Verifier({ configRepo: 'tinfoilsh/confidential-model-router', onStep });
+
+    await expect(verifier.verifyBundle({ ...bundle, digest: 'a'.repeat(64) })).rejects.toThrow();
+    expect(onStep).toHaveBeenLastCalledWith(expect.objectContaining({
+      step: 'verifyCode',
+      state: expect.objectContaining({ status: 'failed', code: ErrorCode.ReleaseDigestMismatch }),
+    }));
+  });
+
+  it('should fail the step in progress with an AbortError when aborted', async () => {
+    const verifier = new Verifier({ configRepo: 'tinfoilsh/confidential-model-router' });
+    const signal = AbortSignal.abort(new DOMException('Timed out', 'TimeoutError'));
+
+    await expect(verifier.verifyBundle(bundle, { signal })).rejects.toThrow(AbortError);
+    expect(verifier.getVerificationDocument()?.steps.fetchDigest).toMatchObject({
+      status: 'failed',
+      code: ErrorCode.TimedOut,
+    });
+  });
+
   it('should fail verification with tampered attestation report', async () => {
     const tamperedBundle: AttestationBundle = {
       ...bundle,
@@ -156,4 +225,175 @@ describe('Bundle Verification', () => {
 
     await expect(verifier.verifyBundle(bundleWithBadCert)).rejects.toThrow();
   });
+
+  it('should record the default policy in the verification document', async () => {
+    const verifier = new Verifier({
+      serverURL: `https://${bundle.domain}`,
+      configRepo: 'tinfoilsh/confidential-model-router',
+    });
+
+    await verifier.verifyBundle(bundle);
+
+    expect(verifier.getVerificationDocument()!.policy).toEqual(defaultValidationOptions);
+  });
+
+  it('should enforce a stricter custom policy', async () => {
+    const minimumTcb = { blSpl: 0xff, teeSpl: 0xff, snpSpl: 0xff, ucodeSpl: 0xff };
+    const verifier = new Verifier({
+      serverURL: `https://${bundle.domain}`,
+      configRepo: 'tinfoilsh/confidential-model-router',
+      policy: { minimumTcb },
+    });
+
+    await expect(verifier.verifyBundle(bundle)).rejects.toThrow(/TCB/);
+    const doc = verifier.getVerificationDocument();
+
+    expect(doc!.steps.verifyEnclave.status).toBe('failed');
+    expect(doc!.policy).toEqual({ ...defaultValidationOptions, minimumTcb });
+  });
+
+  it('should accept a release digest in approvedDigests', async () => {
+    const verifier = new Verifier({
+      configRepo: 'tinfoilsh/confidential-model-router',
+      approvedDigests: [bundle.digest.toUpperCase()],
+    });
+
+    await expect(verifier.verifyBundle(bundle)).resolves.toBeDefined();
+  });
+
+  it('should reject a release digest missing from approvedDigests', async () => {
+    const verifier = new Verifier({
+      configRepo: 'tinfoilsh/confidential-model-router',
+      approvedDigests: ['a'.repeat(64)],
+    });
+
+    await expect(verifier.verifyBundle(bundle)).rejects.toThrow(/not in approvedDigests/);
+    expect(verifier.getVerificationDocument()!.steps.fetchDigest.status).toBe('failed');
+  });
+
+  it('should reject a digest that does not match the pinned release tag', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('a'.repeat(64))));
+    try {
+      const verifier = new Verifier({
+        configRepo: 'tinfoilsh/confidential-model-router',
+        releaseTag: 'v1.0.0',
+      });
+
+      await expect(verifier.verifyBundle(bundle)).rejects.toThrow(/does not match release v1.0.0/);
+      expect(fetch).toHaveBeenCalledWith(expect.stringContaining('/releases/download/v1.0.0/tinfoil.hash'));
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('should enforce approvedMeasurements', async () => {
+    const reference = new Verifier({ configRepo: 'tinfoilsh/confidential-model-router' });
+    await reference.verifyBundle(bundle);
+    const { codeFingerprint } = reference.getVerificationDocument()!;
+
+    const approved = new Verifier({
+      configRepo: 'tinfoilsh/confidential-model-router',
+      approvedMeasurements: [codeFingerprint],
+    });
+    await expect(approved.verifyBundle(bundle)).resolves.toBeDefined();
+
+    const rejected = new Verifier({
+      configRepo: 'tinfoilsh/confidential-model-router',
+      approvedMeasurements: ['b'.repeat(64)],
+    });
+    await expect(rejected.verifyBundle(bundle)).rejects.toThrow(/not in approvedMeasurements/);
+    expect(rejected.getVerificationDocument()!.steps.compareMeasurements.status).toBe('failed');
+  });
+
+  it('should record the default identity policy in the verification document', async () => {
+    const verifier = new Verifier({ configRepo: 'tinfoilsh/confidential-model-router' });
+
+    await verifier.verifyBundle(bundle);
+
+    expect(verifier.getVerificationDocument()!.identityPolicy).toEqual(defaultSigstoreIdentityPolicy);
+  });
+
+  it('should accept a release signed by the configured workflow', async () => {
+    const identityPolicy = {
+      workflowPath: '.github/workflows/build.yml',
+      runnerEnvironment: 'github-hosted',
+      refPatterns: ['^refs/tags/v0\\.'],
+    };
+    const verifier = new Verifier({ configRepo: 'tinfoilsh/confidential-model-router', identityPolicy });
+
+    await expect(verifier.verifyBundle(bundle)).resolves.toBeDefined();
+    expect(verifier.getVerificationDocument()!.identityPolicy).toEqual({ ...defaultSigstoreIdentityPolicy, ...identityPolicy });
+  });
+
+  it('should reject a release signed by another workflow', async () => {
+    const verifier = new Verifier({
+      configRepo: 'tinfoilsh/confidential-model-router',
+      identityPolicy: { workflowPath: '.github/workflows/enclave.yml' },
+    });
+
+    await expect(verifier.verifyBundle(bundle)).rejects.toThrow(/is not \.github\/workflows\/enclave\.yml/);
+    expect(verifier.getVerificationDocument()!.steps.verifyCode.status).toBe('failed');
+  });
+
+  it('should reject a release that does not match the identity policy', async () => {
+    const configRepo = 'tinfoilsh/confidential-model-router';
+    const policies = [
+      { refPatterns: ['^refs/heads/main$'] },
+      { issuer: 'https://gitlab.com' },
+      { runnerEnvironment: 'self-hosted' },
+      { san: `https://github.com/${configRepo}/.github/workflows/build.yml@refs/tags/v9.9.9` },
+    ];
+
+    for (const identityPolicy of policies) {
+      await expect(new Verifier({ configRepo, identityPolicy }).verifyBundle(bundle)).rejects.toThrow();
+    }
+  });
+
+  it('should select the measurement attestation among several for a digest', async () => {
+    const repo = 'tinfoilsh/confidential-model-router';
+    const { bundle: selected, rejected } = await selectSigstoreBundle(
+      [{ mediaType: 'application/vnd.dev.sigstore.bundle.v0.3+json' }, bundle.sigstoreBundle],
+      bundle.digest,
+      repo,
+      [PredicateType.SnpTdxMultiplatformV1],
+    );
+
+    expect(selected).toBe(bundle.sigstoreBundle);
+    expect(rejected).toEqual([{ repo, index: 0, reason: expect.any(String) }]);
+  });
+
+  it('should reject attestations with unsupported predicate types', async () => {
+    await expect(selectSigstoreBundle(
+      [bundle.sigstoreBundle],
+      bundle.digest,
+      'tinfoilsh/confidential-model-router',
+      [PredicateType.HardwareMeasurementsV1],
+    )).rejects.toThrow(/No usable attestation .*#0: Unsupported predicate type/);
+  });
+
+  it('should verify a bundle at a point in time', async () => {
+    const verifier = new Verifier({ configRepo: 'tinfoilsh/confidential-model-router' });
+
+    await verifier.verifyBundle(bundle, { verificationTime: new Date('2026-02-01T00:00:00Z') });
+
+    const doc = verifier.getVerificationDocument()!;
+    expect(doc.securityVerified).toBe(true);
+    expect(doc.verificationTime).toBe('2026-02-01T00:00:00.000Z');
+  });
+
+  it('should reject a release signed after the verification time', async () => {
+    const verifier = new Verifier({ configRepo: 'tinfoilsh/confidential-model-router' });
+
+    await expect(verifier.verifyBundle(bundle, { verificationTime: new Date('2026-01-15T00:00:00Z') }))
+      .rejects.toThrow(/Release not yet signed/);
+    expect(verifier.getVerificationDocument()?.steps.verifyCode.status).toBe('failed');
+  });
+
+  it('should reject an enclave certificate outside its validity period at the verification time', async () => {
+    const verifier = new Verifier({ configRepo: 'tinfoilsh/confidential-model-router' });
+
+    await expect(verifier.verifyBundle(bundle, { verificationTime: new Date('2026-06-01T00:00:00Z') }))
+      .rejects.toThrow(/Enclave TLS certificate was not valid at 2026-06-01/);
+    expect(verifier.getVerificationDocument()?.steps.verifyCertificate.status).toBe('failed');
+  });
 });
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { FetchError, AttestationError } from "../src/errors.js";
+import { FetchError, AttestationError, AbortError, ErrorCode } from "../src/errors.js";
 
 /**
  * Unit tests for assembleAttestationBundle with mocked fetch.
@@ -139,6 +139,32 @@ describe("assembleAttestationBundle — retry logic", () => {
     expect(attestationCalls.length).toBe(3);
   });
 
+  it("should stop retrying with an AbortError when the signal is aborted", async () => {
+    const mockFetch = vi.fn(async (url: string) => {
+      if (url.includes("tinfoil-attestation")) {
+        throw new TypeError("Network error");
+      }
+      return jsonResponse({});
+    });
+    vi.stubGlobal("fetch", mockFetch);
+
+    const { assembleAttestationBundle } = await import("../src/bundle.js");
+    const controller = new AbortController();
+
+    const assertion = expect(
+      assembleAttestationBundle("test-enclave.com", "test-org/test-repo", undefined, { signal: controller.signal }),
+    ).rejects.toSatisfy((e: unknown) => e instanceof AbortError && e.code === ErrorCode.Aborted);
+    await vi.advanceTimersByTimeAsync(100);
+    controller.abort();
+    await assertion;
+
+    // Aborted during the first backoff, so no retry was made
+    const attestationCalls = mockFetch.mock.calls.filter(
+      ([url]: [string]) => url.includes("tinfoil-attestation"),
+    );
+    expect(attestationCalls.length).toBe(1);
+  });
+
   it("should not retry on non-FetchError", async () => {
     // Return a response that will cause a parse error (not a FetchError)
     const mockFetch = vi.fn(async (url: string) => {
@@ -196,3 +222,18 @@ describe("assembleAttestationBundle — retry logic", () => {
     await assertion;
   });
 });
+
+describe("fetchAmdCrl", () => {
+  it("should fetch the CRL afresh on every call", async () => {
+    const mockFetch = createMockFetch({}, {
+      "kds-proxy": () => binaryResponse(new Uint8Array([1, 2, 3])),
+    });
+    vi.stubGlobal("fetch", mockFetch);
+
+    const { fetchAmdCrl } = await import("../src/bundle.js");
+
+    expect(await fetchAmdCrl("Genoa", "VCEK")).toBe("AQID");
+    expect(await fetchAmdCrl("Genoa", "VCEK")).toBe("AQID");
+    expect(fetchCallsByUrl.get("https://kds-proxy.tinfoil.sh/vcek/v1/Genoa/crl")).toBe(2);
+  });
+});
@@ -80,5 +80,61 @@ describe('CertificateChain.fromReport', () => {
     expect(chain.vcek).toBeDefined();
     expect(chain.ark).toBeDefined();
     expect(chain.ask).toBeDefined();
+    expect(chain.productName).toBe('Genoa');
+    await expect(chain.verifyChain()).resolves.toBe(true);
+  });
+
+  it('checks certificate validity at the given instant', async () => {
+    const report = new Report(await decompressReport(bundleFixture.enclaveAttestationReport.body));
+    const chain = await CertificateChain.fromReport(report, vcekDer);
+
+    await expect(chain.verifyChain(new Date('2000-01-01T00:00:00Z'))).rejects.toThrow('AMD Root Key (ARK) certificate has expired or is not yet valid');
+  });
+
+  it('rejects processor families without trust anchors', async () => {
+    const report = new Report(await decompressReport(bundleFixture.enclaveAttestationReport.body));
+    report.productName = 'Turin';
+    await expect(CertificateChain.fromReport(report, vcekDer)).rejects.toThrow('No ARK/ASK certificates are configured for Turin');
+
+    report.productName = 'Unknown';
+    await expect(CertificateChain.fromReport(report, vcekDer)).rejects.toThrow('Unsupported processor');
+  });
+
+  it('checks certificate names against the processor family', async () => {
+    const report = new Report(await decompressReport(bundleFixture.enclaveAttestationReport.body));
+    report.productName = 'Turin';
+    const chain = await CertificateChain.fromReport(report, vcekDer, { Turin: { ark: ARK_CERT, ask: ASK_CERT } });
+    await expect(chain.verifyChain()).rejects.toThrow('Expected common name "ARK-Turin"');
+  });
+});
+
+describe('VLEK-signed reports', () => {
+  const vcekDer = Uint8Array.from(atob(bundleFixture.vcek), c => c.charCodeAt(0));
+
+  async function reportWithSigningKey(signingKey: number): Promise<Uint8Array> {
+    const bytes = await decompressReport(bundleFixture.enclaveAttestationReport.body);
+    bytes[0x48] = (bytes[0x48] & ~0x1c) | (signingKey << 2);
+    return bytes;
+  }
+
+  it('parses VLEK-signed reports and rejects other signing keys', async () => {
+    const report = new Report(await reportWithSigningKey(1));
+    expect(report.signerInfoParsed.signingKey).toBe(1);
+
+    const unsigned = await reportWithSigningKey(7);
+    expect(() => new Report(unsigned)).toThrow('VCEK- and VLEK-signed');
+  });
+
+  it('requires an ASVK to build the chain', async () => {
+    const report = new Report(await reportWithSigningKey(1));
+    await expect(CertificateChain.fromReport(report, vcekDer)).rejects.toThrow('No ASVK certificate');
+  });
+
+  it('builds an ARK > ASVK > VLEK chain', async () => {
+    const report = new Report(await reportWithSigningKey(1));
+    const chain = await CertificateChain.fromReport(report, vcekDer, undefined, ASK_CERT);
+    expect(chain.keyName).toBe('VLEK');
+    expect(chain.intermediateName).toBe('ASVK');
+    await expect(chain.verifyChain()).rejects.toThrow('Expected common name "SEV-VLEK-Genoa"');
   });
 });
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { parseCertTable, validateCertTable, CertTableGuid, CertEntryKind } from '../src/sev/cert-table.js';
+import { CertificateChain } from '../src/sev/cert-chain.js';
+import { Report } from '../src/sev/report.js';
+import { validateReport, defaultValidationOptions } from '../src/sev/validation.js';
+import { base64ToBytes, decompressGzip } from '../src/attestation.js';
+import { hexToBytes } from '../src/sev/utils.js';
+import bundleFixture from './fixtures/attestation-bundle.json';
+
+const vcekDer = base64ToBytes(bundleFixture.vcek);
+
+/** Build a certificate table: 24-byte entries, an all-zero terminator, then the blobs. */
+function buildTable(entries: Array<[string, Uint8Array]>): Uint8Array {
+  const headerSize = (entries.length + 1) * 24;
+  const data = new Uint8Array(headerSize + entries.reduce((n, [, blob]) => n + blob.length, 0));
+  const view = new DataView(data.buffer);
+  let offset = headerSize;
+  entries.forEach(([guid, blob], i) => {
+    data.set(hexToBytes(guid.replace(/-/g, '')), i * 24);
+    view.setUint32(i * 24 + 16, offset, true);
+    view.setUint32(i * 24 + 20, blob.length, true);
+    data.set(blob, offset);
+    offset += blob.length;
+  });
+  return data;
+}
+
+async function loadReport(): Promise<Report> {
+  return new Report(await decompressGzip(base64ToBytes(bundleFixture.enclaveAttestationReport.body)));
+}
+
+describe('Certificate Table Parsing', () => {
+  it('indexes entries by GUID', () => {
+    const ark = new Uint8Array([1, 2, 3]);
+    const table = parseCertTable(buildTable([[CertTableGuid.VCEK, vcekDer], [CertTableGuid.ARK, ark]]));
+    expect(table.get(CertTableGuid.VCEK)).toEqual(vcekDer);
+    expect(table.get(CertTableGuid.ARK)).toEqual(ark);
+    expect(table.has(CertTableGuid.ASK)).toBe(false);
+  });
+
+  it('rejects tables without a terminator', () => {
+    const data = new Uint8Array(24);
+    data.set(hexToBytes(CertTableGuid.VCEK.replace(/-/g, '')));
+    expect(() => parseCertTable(data)).toThrow('Missing terminating entry');
+  });
+
+  it('rejects entries outside the table', () => {
+    const data = buildTable([[CertTableGuid.VCEK, new Uint8Array(4)]]);
+    new DataView(data.buffer).setUint32(20, 1000, true);
+    expect(() => parseCertTable(data)).toThrow('exceeds the table size');
+  });
+
+  it('rejects duplicate entries', () => {
+    const blob = new Uint8Array(4);
+    expect(() => parseCertTable(buildTable([[CertTableGuid.ASK, blob], [CertTableGuid.ASK, blob]])))
+      .toThrow('Duplicate entry');
+  });
+});
+
+describe('Certificate Table Validation', () => {
+  it('requires entries marked as required', async () => {
+    const report = await loadReport();
+    const table = parseCertTable(buildTable([[CertTableGuid.VCEK, vcekDer]]));
+
+    await expect(validateCertTable(report, table, { [CertTableGuid.ARK]: { kind: CertEntryKind.AllowMissing } }))
+      .resolves.toBeUndefined();
+    await expect(validateCertTable(report, table, { [CertTableGuid.ARK]: { kind: CertEntryKind.Require } }))
+      .rejects.toThrow(`${CertTableGuid.ARK} is required`);
+    await expect(validateCertTable(report, undefined, { [CertTableGuid.VCEK]: { kind: CertEntryKind.Require } }))
+      .rejects.toThrow('Missing certificate table entry');
+  });
+
+  it('applies entry validators through the report policy', async () => {
+    const report = await loadReport();
+    const chain = await CertificateChain.fromReport(report, vcekDer);
+    const table = parseCertTable(buildTable([[CertTableGuid.VCEK, vcekDer]]));
+    const policy = (expected: Uint8Array) => ({
+      ...defaultValidationOptions,
+      certTableOptions: {
+        [CertTableGuid.VCEK]: {
+          kind: CertEntryKind.Require,
+          validate: (_: Report, blob: Uint8Array) => {
+            if (blob.length !== expected.length) throw new Error('unexpected VCEK');
+          },
+        },
+      },
+    });
+
+    await expect(validateReport(report, chain, policy(vcekDer), table)).resolves.toEqual({ provisionalFirmware: false });
+    await expect(validateReport(report, chain, policy(new Uint8Array(1)), table)).rejects.toThrow('unexpected VCEK');
+  });
+});
@@ -4,7 +4,7 @@ import { ASN1Obj } from '@freedomofpress/crypto-browser';
 import { decodeDomains, bytesToHex } from '../src/dcode.js';
 import { hashAttestationDocument } from '../src/types.js';
 import { verifyCertificate } from '../src/cert-verify.js';
-import { AttestationError } from '../src/errors.js';
+import { AttestationError, ErrorCode } from '../src/errors.js';
 import bundleFixture from './fixtures/attestation-bundle.json';
 
 describe('Certificate Verification', () => {
@@ -128,6 +128,17 @@ describe('verifyCertificate — error paths', () => {
     ).rejects.toThrow(/HPKE key mismatch/);
   });
 
+  it('should report the HPKE key mismatch error code', async () => {
+    await expect(
+      verifyCertificate(
+        bundleFixture.enclaveCert,
+        bundleFixture.domain,
+        bundleFixture.enclaveAttestationReport,
+        'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+      ),
+    ).rejects.toMatchObject({ code: ErrorCode.HpkeKeyMismatch });
+  });
+
   it('should throw AttestationError on attestation hash mismatch', async () => {
     // Extract the correct HPKE key from the cert so we pass that check
     const cert = X509Certificate.parse(bundleFixture.enclaveCert);
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { main, ExitCode } from '../src/cli.js';
+import bundleFixture from './fixtures/attestation-bundle.json';
+
+let dir: string;
+let stdout: string[];
+let stderr: string[];
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'tinfoil-verify-'));
+  stdout = [];
+  stderr = [];
+  vi.spyOn(console, 'log').mockImplementation((line: string) => { stdout.push(line); });
+  vi.spyOn(console, 'error').mockImplementation((line: string) => { stderr.push(line); });
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  await rm(dir, { recursive: true, force: true });
+});
+
+async function writeJson(name: string, data: unknown): Promise<string> {
+  const path = join(dir, name);
+  await writeFile(path, JSON.stringify(data));
+  return path;
+}
+
+describe('tinfoil-verify CLI', () => {
+  it('verifies a bundle file and prints the steps', async () => {
+    const bundle = await writeJson('bundle.json', bundleFixture);
+
+    expect(await main([bundle])).toBe(ExitCode.Verified);
+    const output = stdout.join('\n');
+    expect(output).toMatch(/verifyEnclave\s+success/);
+    expect(output).toContain('Verified');
+  });
+
+  it('prints the verification document as JSON', async () => {
+    const bundle = await writeJson('bundle.json', bundleFixture);
+
+    expect(await main([bundle, '--json'])).toBe(ExitCode.Verified);
+    expect(JSON.parse(stdout.join('\n')).securityVerified).toBe(true);
+  });
+
+  it('exits with the attestation code when verification fails', async () => {
+    const bundle = await writeJson('bundle.json', { ...bundleFixture, digest: 'a'.repeat(64) });
+
+    expect(await main([bundle])).toBe(ExitCode.AttestationFailed);
+    expect(stdout.join('\n')).toMatch(/verifyCode\s+failed/);
+  });
+
+  it('applies a policy file', async () => {
+    const bundle = await writeJson('bundle.json', bundleFixture);
+    const policy = await writeJson('policy.json', { minimumTcb: { blSpl: 0xff, teeSpl: 0xff, snpSpl: 0xff, ucodeSpl: 0xff } });
+
+    expect(await main([bundle, '--policy', policy])).toBe(ExitCode.AttestationFailed);
+    expect(stderr.join('\n')).toMatch(/TCB/);
+  });
+
+  it('exits with the configuration code for invalid usage', async () => {
+    expect(await main([])).toBe(ExitCode.ConfigurationError);
+    expect(await main(['--unknown'])).toBe(ExitCode.ConfigurationError);
+    expect(await main([join(dir, 'missing.json')])).toBe(ExitCode.ConfigurationError);
+  });
+
+  it('exits with the fetch code when the attestation service is unreachable', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('unavailable', { status: 503 })));
+
+    expect(await main(['--atc'])).toBe(ExitCode.FetchFailed);
+    expect(stderr.join('\n')).toContain('HTTP 503');
+  });
+
+  it('exits with the fetch code when the attestation service returns malformed JSON', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('<html>', { status: 200 })));
+
+    expect(await main(['--atc'])).toBe(ExitCode.FetchFailed);
+    expect(stderr.join('\n')).toContain('Invalid response');
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { X509Certificate } from '@freedomofpress/sigstore-browser';
+import { ASK_CERT } from '../src/sev/certs.js';
+import { CertificateChain } from '../src/sev/cert-chain.js';
+import { RevocationList, checkRevocation } from '../src/sev/crl.js';
+import { Report } from '../src/sev/report.js';
+import { base64ToBytes, decompressGzip } from '../src/attestation.js';
+import { AttestationError } from '../src/errors.js';
+import bundleFixture from './fixtures/attestation-bundle.json';
+import crlFixture from './fixtures/amd-crl.json';
+
+// The fixture CRLs are signed with RSA-PSS SHA-384 by a test root standing in
+// for the ARK; "revokedAsk" lists the bundled Genoa ASK's serial number.
+const now = new Date('2030-01-01T00:00:00Z');
+
+function chainWithArk(ark: string): CertificateChain {
+  return new CertificateChain(
+    X509Certificate.parse(ark),
+    X509Certificate.parse(ASK_CERT),
+    X509Certificate.parse(base64ToBytes(bundleFixture.vcek)),
+  );
+}
+
+describe('AMD CRL Parsing', () => {
+  it('parses validity and revoked serial numbers', () => {
+    const crl = new RevocationList(base64ToBytes(crlFixture.revokedAsk));
+    expect(crl.revokedSerials).toEqual(new Set([0x020002n]));
+    expect(crl.nextUpdate!.getTime()).toBeGreaterThan(crl.thisUpdate.getTime());
+    expect(new RevocationList(base64ToBytes(crlFixture.empty)).revokedSerials.size).toBe(0);
+  });
+
+  it('rejects malformed CRLs', () => {
+    expect(() => new RevocationList(new Uint8Array([0x30, 0x00]))).toThrow('Invalid AMD CRL');
+  });
+});
+
+describe('AMD Revocation Checking', () => {
+  it('accepts a chain whose ASK is not revoked', async () => {
+    const crl = new RevocationList(base64ToBytes(crlFixture.empty));
+    await expect(checkRevocation(chainWithArk(crlFixture.ark), crl, now)).resolves.toBeUndefined();
+  });
+
+  it('rejects a chain with a revoked ASK', async () => {
+    const crl = new RevocationList(base64ToBytes(crlFixture.revokedAsk));
+    await expect(checkRevocation(chainWithArk(crlFixture.ark), crl, now)).rejects.toThrow('ASK certificate for Genoa is listed in the AMD CRL');
+  });
+
+  it('rejects CRLs not signed by the ARK', async () => {
+    const crl = new RevocationList(base64ToBytes(crlFixture.empty));
+    const report = new Report(await decompressGzip(base64ToBytes(bundleFixture.enclaveAttestationReport.body)));
+    const chain = await CertificateChain.fromReport(report, base64ToBytes(bundleFixture.vcek));
+    await expect(checkRevocation(chain, crl, now)).rejects.toThrow(AttestationError);
+    await expect(checkRevocation(chain, crl, now)).rejects.toThrow('Not signed by ARK');
+  });
+
+  it('rejects expired CRLs', async () => {
+    const crl = new RevocationList(base64ToBytes(crlFixture.empty));
+    const later = new Date(crl.nextUpdate!.getTime() + 1000);
+    await expect(checkRevocation(chainWithArk(crlFixture.ark), crl, later)).rejects.toThrow('Expired');
+  });
+});
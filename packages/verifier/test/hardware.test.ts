@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { verifyHardware } from '../src/hardware.js';
+import { PredicateType } from '../src/types.js';
+import { AttestationError } from '../src/errors.js';
+
+const reg = (c: string) => c.repeat(96);
+
+const measurements = [
+  { ID: 'intel-small@abc', MRTD: reg('1'), RTMR0: reg('2') },
+  { ID: 'intel-large@abc', MRTD: reg('1'), RTMR0: reg('3') },
+];
+
+const tdx = (mrtd: string, rtmr0: string) => ({
+  type: PredicateType.TdxGuestV2,
+  registers: [mrtd, rtmr0, reg('4'), reg('5'), reg('0')],
+});
+
+describe('Hardware Measurement Matching', () => {
+  it('returns the registry entry matching MRTD and RTMR0', () => {
+    expect(verifyHardware(measurements, tdx(reg('1'), reg('3'))).ID).toBe('intel-large@abc');
+  });
+
+  it('rejects platforms missing from the registry', () => {
+    expect(() => verifyHardware(measurements, tdx(reg('1'), reg('f')))).toThrow(AttestationError);
+    expect(() => verifyHardware(measurements, tdx(reg('f'), reg('2')))).toThrow(/Hardware measurement mismatch/);
+  });
+
+  it('rejects non-TDX measurements', () => {
+    const snp = { type: PredicateType.SevGuestV2, registers: [reg('1')] };
+    expect(() => verifyHardware(measurements, snp)).toThrow(/only supported for TDX/);
+  });
+});
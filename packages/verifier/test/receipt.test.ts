@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Verifier, verifyReceipt } from '../src/client.js';
+import { serializeReceipt, parseReceipt } from '../src/receipt.js';
+import type { VerificationReceipt } from '../src/receipt.js';
+import type { AttestationBundle } from '../src/types.js';
+import { AttestationError, ConfigurationError } from '../src/errors.js';
+import { CertTableGuid, CertEntryKind } from '../src/sev/cert-table.js';
+import bundleFixture from './fixtures/attestation-bundle.json';
+
+const bundle = bundleFixture as AttestationBundle;
+
+async function createReceipt(): Promise<VerificationReceipt> {
+  const verifier = new Verifier({ configRepo: 'tinfoilsh/confidential-model-router' });
+  await verifier.verifyBundle(bundle);
+  return verifier.getVerificationReceipt()!;
+}
+
+describe('Verification Receipts', () => {
+  it('records the verified bundle, options and document', async () => {
+    const receipt = await createReceipt();
+
+    expect(receipt.bundle).toBe(bundle);
+    expect(receipt.options.configRepo).toBe('tinfoilsh/confidential-model-router');
+    expect(receipt.document.securityVerified).toBe(true);
+    expect(Date.parse(receipt.verifiedAt)).not.toBeNaN();
+  });
+
+  it('re-verifies a serialized receipt', async () => {
+    const json = serializeReceipt(await createReceipt());
+
+    const doc = await verifyReceipt(json);
+
+    expect(doc.securityVerified).toBe(true);
+    expect(doc.releaseDigest).toBe(bundle.digest);
+  });
+
+  it('serializes canonically and restores byte arrays', async () => {
+    const receipt = await createReceipt();
+    receipt.options.policy!.trustedIdKeyHashes = [new Uint8Array(48).fill(0x5a)];
+
+    const json = serializeReceipt(receipt);
+    const parsed = parseReceipt(json);
+
+    expect(parsed.options.policy!.trustedIdKeyHashes).toEqual([new Uint8Array(48).fill(0x5a)]);
+    expect(serializeReceipt(parsed)).toBe(json);
+    expect(json).not.toMatch(/\s"|":\s/);
+  });
+
+  it('rejects a receipt whose document does not match the bundle', async () => {
+    const receipt = await createReceipt();
+    const tampered = { ...receipt, document: { ...receipt.document, hpkePublicKey: 'ff'.repeat(32) } };
+
+    await expect(verifyReceipt(tampered)).rejects.toThrow(AttestationError);
+    await expect(verifyReceipt(tampered)).rejects.toThrow(/Receipt mismatch: Recorded hpkePublicKey/);
+  });
+
+  it('rejects receipts whose policy holds certificate table validators', async () => {
+    const receipt = await createReceipt();
+    receipt.options.policy!.certTableOptions = {
+      [CertTableGuid.VCEK]: { kind: CertEntryKind.Require, validate: () => {} },
+    };
+
+    expect(() => serializeReceipt(receipt)).toThrow(ConfigurationError);
+    expect(() => serializeReceipt(receipt)).toThrow(/certTableOptions\.[0-9a-f-]+\.validate cannot be serialized/);
+    await expect(verifyReceipt(receipt)).rejects.toThrow(ConfigurationError);
+  });
+
+  it('fails instead of fetching a CRL the receipt does not carry', async () => {
+    const receipt = await createReceipt();
+    receipt.options.policy!.checkRevocations = true;
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    try {
+      await expect(verifyReceipt(receipt)).rejects.toThrow(/Missing AMD CRL/);
+      expect(fetchMock).not.toHaveBeenCalled();
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('rejects unsupported receipt versions', () => {
+    expect(() => parseReceipt('{"version":99}')).toThrow(ConfigurationError);
+    expect(() => parseReceipt('not json')).toThrow(ConfigurationError);
+  });
+
+  describe('restoreReceipt', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('adopts a receipt made with the same configuration', async () => {
+      const receipt = await createReceipt();
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2026-02-01T00:00:00Z'));
+      const verifier = new Verifier({ configRepo: 'tinfoilsh/confidential-model-router' });
+
+      const attestation = await verifier.restoreReceipt(serializeReceipt(receipt));
+
+      expect(attestation.hpkePublicKey).toBe(receipt.document.hpkePublicKey);
+      expect(verifier.getVerificationDocument()?.securityVerified).toBe(true);
+      expect(verifier.getVerificationReceipt()?.bundle.digest).toBe(bundle.digest);
+    });
+
+    it('rejects a receipt made with a different configuration', async () => {
+      const receipt = await createReceipt();
+      const verifier = new Verifier({ configRepo: 'tinfoilsh/confidential-model-router', approvedMeasurements: ['ab'.repeat(32)] });
+
+      await expect(verifier.restoreReceipt(receipt)).rejects.toThrow(/different configuration/);
+    });
+
+    it('rejects a receipt whose certificate does not bind the recorded key', async () => {
+      const receipt = await createReceipt();
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2026-02-01T00:00:00Z'));
+      const tampered = { ...receipt, document: { ...receipt.document, hpkePublicKey: 'ff'.repeat(32) } };
+      const verifier = new Verifier({ configRepo: 'tinfoilsh/confidential-model-router' });
+
+      await expect(verifier.restoreReceipt(tampered)).rejects.toThrow(AttestationError);
+    });
+
+    it('rejects a receipt whose certificate has expired', async () => {
+      const receipt = await createReceipt();
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2026-06-01T00:00:00Z'));
+      const verifier = new Verifier({ configRepo: 'tinfoilsh/confidential-model-router' });
+
+      await expect(verifier.restoreReceipt(receipt)).rejects.toThrow(/not valid at/);
+    });
+  });
+});
@@ -1,5 +1,27 @@
 import { describe, it, expect } from 'vitest';
 import { Report } from '../src/sev/report.js';
+import { tcbFromInt, tcbMeetsMinimum } from '../src/sev/utils.js';
+import { vcekUrl } from '../src/bundle.js';
+
+// TCB_VERSION in the Turin layout: FMC, BL, TEE, SNP, three reserved bytes, UCODE
+const TURIN_TCB = [1, 2, 3, 4, 0, 0, 0, 5];
+
+/**
+ * Minimal version 3 report from a Turin (family 0x1A, model 2) chip.
+ */
+function turinReport(tcb: number[] = TURIN_TCB): Uint8Array {
+  const data = new Uint8Array(0x4a0);
+  const view = new DataView(data.buffer);
+  view.setUint32(0x00, 3, true);  // version
+  view.setBigUint64(0x08, 1n << 17n, true);  // policy, reserved bit set
+  for (const offset of [0x38, 0x180, 0x1e0, 0x1f0]) {
+    data.set(tcb, offset);
+  }
+  data[0x188] = 0x1a;
+  data[0x189] = 0x02;
+  data.set(Array.from({ length: 64 }, (_, i) => i + 1), 0x1a0);  // chip_id
+  return data;
+}
 
 describe('Report Parsing', () => {
   it('parses version 2 report correctly', () => {
@@ -24,3 +46,34 @@ describe('Report Parsing', () => {
     expect(() => new Report(tooSmall)).toThrow('smaller than expected SEV-SNP report size');
   });
 });
+
+describe('Turin Reports', () => {
+  it('decodes the Turin TCB layout', () => {
+    const report = new Report(turinReport());
+
+    expect(report.productName).toBe('Turin');
+    expect(tcbFromInt(report.reportedTcb, report.productName)).toEqual({
+      fmcSpl: 1, blSpl: 2, teeSpl: 3, snpSpl: 4, ucodeSpl: 5,
+    });
+  });
+
+  it('rejects a TCB with bits set in the Turin reserved bytes', () => {
+    expect(() => new Report(turinReport([1, 2, 3, 4, 0, 0, 6, 5])))
+      .toThrow('TCB (Trusted Computing Base) version field is malformed');
+  });
+
+  it('holds the FMC SPL to the minimum when one is given', () => {
+    const tcb = tcbFromInt(new Report(turinReport()).currentTcb, 'Turin');
+
+    expect(tcbMeetsMinimum(tcb, { blSpl: 2, teeSpl: 3, snpSpl: 4, ucodeSpl: 5 })).toBe(true);
+    expect(tcbMeetsMinimum(tcb, { fmcSpl: 2, blSpl: 2, teeSpl: 3, snpSpl: 4, ucodeSpl: 5 })).toBe(false);
+  });
+
+  it('requests the VCEK by 8-byte hardware ID and FMC SPL', () => {
+    const report = new Report(turinReport());
+
+    expect(vcekUrl(report)).toBe(
+      'https://kds-proxy.tinfoil.sh/vcek/v1/Turin/0102030405060708?fmcSPL=1&blSPL=2&teeSPL=3&snpSPL=4&ucodeSPL=5',
+    );
+  });
+});
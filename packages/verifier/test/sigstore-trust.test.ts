@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadSigstoreTrustedRoot, MemoryStore, FileSystemStore } from '../src/sigstore-trust.js';
+import sigstoreTrustedRoot from '../src/sigstore-trusted-root.js';
+
+const CACHE_KEY = 'sigstore/trusted_root';
+
+describe('Sigstore Trusted Root', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('returns the bundled snapshot without options', async () => {
+    expect(await loadSigstoreTrustedRoot()).toBe(sigstoreTrustedRoot);
+  });
+
+  it('returns a fresh cached root without contacting the mirror', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    const store = new MemoryStore();
+    const root = { mediaType: 'cached' };
+    await store.write(CACHE_KEY, JSON.stringify({ fetchedAt: Date.now(), root }));
+
+    expect(await loadSigstoreTrustedRoot({ store })).toEqual(root);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('falls back to an expired cached root when the refresh fails', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('offline')));
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const store = new MemoryStore();
+    const root = { mediaType: 'stale' };
+    await store.write(CACHE_KEY, JSON.stringify({ fetchedAt: 0, root }));
+
+    expect(await loadSigstoreTrustedRoot({ store })).toEqual(root);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('using the expired cached root'));
+  });
+
+  it('falls back to the bundled snapshot when the refresh fails with nothing cached', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('offline')));
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(await loadSigstoreTrustedRoot({ store: new MemoryStore() })).toBe(sigstoreTrustedRoot);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('using the bundled snapshot'));
+  });
+
+  it('persists entries with FileSystemStore', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'tinfoil-sigstore-'));
+    try {
+      const store = new FileSystemStore(dir);
+      expect(await store.read('tuf/root.json')).toBeUndefined();
+      await store.write('tuf/root.json', '{"version":1}');
+      expect(await new FileSystemStore(dir).read('tuf/root.json')).toBe('{"version":1}');
+      await store.delete('tuf/root.json');
+      expect(await store.read('tuf/root.json')).toBeUndefined();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
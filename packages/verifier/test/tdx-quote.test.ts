@@ -0,0 +1,214 @@
+import { describe, it, expect } from 'vitest';
+import { X509Certificate } from '@freedomofpress/sigstore-browser';
+import { Quote } from '../src/tdx/quote.js';
+import { INTEL_SGX_ROOT_CA } from '../src/tdx/certs.js';
+import { ARK_CERT } from '../src/sev/certs.js';
+import { verifyIntelChain, parsePemChain } from '../src/tdx/cert-chain.js';
+import type { PckExtension } from '../src/tdx/cert-chain.js';
+import { validateQuote, defaultTdxValidationOptions } from '../src/tdx/validation.js';
+import { rawJsonMember } from '../src/tdx/collateral.js';
+import type { TcbInfo, QeIdentity } from '../src/tdx/collateral.js';
+import { verifyAttestation } from '../src/attestation.js';
+import { PredicateType } from '../src/types.js';
+
+const SEPT_VE_DISABLE = 1n << 28n;
+const QE_MRSIGNER = 'dc9e2a7c6f948f17474e34a7fc43ed030f7c1563f1babddf6340c82e0e54a8c5';
+
+interface QuoteFields {
+  tdAttributes?: bigint;
+  teeTcbSvn?: number[];
+  certDataType?: number;
+  qeIsvSvn?: number;
+}
+
+/** Build a syntactically valid v4 TDX quote with placeholder signatures. */
+function buildQuote(fields: QuoteFields = {}): Uint8Array {
+  const pem = new TextEncoder().encode(`${INTEL_SGX_ROOT_CA}\n${INTEL_SGX_ROOT_CA}\n${INTEL_SGX_ROOT_CA}\n\0`);
+  const qeAuthData = new Uint8Array(32);
+  const certDataSize = 384 + 64 + 2 + qeAuthData.length + 2 + 4 + pem.length;
+  const sigDataSize = 64 + 64 + 2 + 4 + certDataSize;
+  const data = new Uint8Array(632 + 4 + sigDataSize);
+  const view = new DataView(data.buffer);
+
+  // Header
+  view.setUint16(0, 4, true);
+  view.setUint16(2, 2, true);
+  view.setUint32(4, 0x81, true);
+  data.set([0x93, 0x9a, 0x72, 0x33, 0xf7, 0x9c, 0x4c, 0xa9, 0x94, 0x0a, 0x0d, 0xb3, 0x95, 0x7f, 0x06, 0x07], 12);
+
+  // TD report body
+  data.set(fields.teeTcbSvn ?? [3, 0, 5], 48);
+  view.setBigUint64(48 + 120, fields.tdAttributes ?? SEPT_VE_DISABLE, true);
+  data.fill(0x11, 48 + 136, 48 + 184); // MRTD
+  for (let i = 0; i < 4; i++) {
+    data.fill(0x20 + i, 48 + 328 + i * 48, 48 + 376 + i * 48); // RTMR0-3
+  }
+  data.fill(0xaa, 48 + 520, 48 + 552); // TLS key fingerprint
+  data.fill(0xbb, 48 + 552, 48 + 584); // HPKE key
+
+  // Signature data
+  let off = 632;
+  view.setUint32(off, sigDataSize, true); off += 4;
+  off += 64 + 64; // quote signature, attestation key
+  view.setUint16(off, fields.certDataType ?? 6, true); off += 2;
+  view.setUint32(off, certDataSize, true); off += 4;
+
+  // QE report
+  data[off + 0x30] = 0x11; // attributes
+  data.set(hexToBytes(QE_MRSIGNER), off + 0x80);
+  view.setUint16(off + 0x100, 2, true);
+  view.setUint16(off + 0x102, fields.qeIsvSvn ?? 4, true);
+  off += 384 + 64;
+  view.setUint16(off, qeAuthData.length, true); off += 2;
+  data.set(qeAuthData, off); off += qeAuthData.length;
+  view.setUint16(off, 5, true); off += 2;
+  view.setUint32(off, pem.length, true); off += 4;
+  data.set(pem, off);
+
+  return data;
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  return Uint8Array.from(hex.match(/../g)!.map(b => parseInt(b, 16)));
+}
+
+const pck: PckExtension = {
+  cpuSvn: new Uint8Array(16).fill(2),
+  pceSvn: 11,
+  pceId: new Uint8Array([0, 0]),
+  fmspc: hexToBytes('90c06f000000'),
+};
+
+function tcbInfo(): TcbInfo {
+  const svns = (values: number[]) => Array.from({ length: 16 }, (_, i) => ({ svn: values[i] ?? 0 }));
+  return {
+    id: 'TDX',
+    version: 3,
+    issueDate: '2025-01-01T00:00:00Z',
+    nextUpdate: '2025-02-01T00:00:00Z',
+    fmspc: '90C06F000000',
+    pceId: '0000',
+    tdxModule: { mrsigner: '00'.repeat(48), attributes: '0000000000000000', attributesMask: 'FFFFFFFFFFFFFFFF' },
+    tcbLevels: [
+      { tcb: { sgxtcbcomponents: svns([2, 2]), tdxtcbcomponents: svns([4]), pcesvn: 11 }, tcbDate: '2024-11-13T00:00:00Z', tcbStatus: 'UpToDate' },
+      { tcb: { sgxtcbcomponents: svns([2, 2]), tdxtcbcomponents: svns([3]), pcesvn: 11 }, tcbDate: '2024-03-13T00:00:00Z', tcbStatus: 'OutOfDate' },
+      { tcb: { sgxtcbcomponents: svns([2, 2]), tdxtcbcomponents: svns([2]), pcesvn: 11 }, tcbDate: '2023-08-09T00:00:00Z', tcbStatus: 'Revoked' },
+    ],
+  };
+}
+
+function qeIdentity(): QeIdentity {
+  return {
+    id: 'TD_QE',
+    version: 2,
+    issueDate: '2025-01-01T00:00:00Z',
+    nextUpdate: '2025-02-01T00:00:00Z',
+    miscselect: '00000000',
+    miscselectMask: 'FFFFFFFF',
+    attributes: '11000000000000000000000000000000',
+    attributesMask: 'FBFFFFFFFFFFFFFF0000000000000000',
+    mrsigner: QE_MRSIGNER.toUpperCase(),
+    isvprodid: 2,
+    tcbLevels: [{ tcb: { isvsvn: 4 }, tcbDate: '2024-03-13T00:00:00Z', tcbStatus: 'UpToDate' }],
+  };
+}
+
+describe('TDX Quote Parsing', () => {
+  it('parses header, TD report and certification data', () => {
+    const quote = new Quote(buildQuote());
+
+    expect(quote.version).toBe(4);
+    expect(quote.teeType).toBe(0x81);
+    expect(quote.tdAttributes).toBe(SEPT_VE_DISABLE);
+    expect(quote.mrTd.every(b => b === 0x11)).toBe(true);
+    expect(quote.rtmrHex).toEqual([0, 1, 2, 3].map(i => (0x20 + i).toString(16).repeat(48)));
+    expect(quote.reportData.slice(0, 32).every(b => b === 0xaa)).toBe(true);
+    expect(quote.qeReport.isvProdId).toBe(2);
+    expect(parsePemChain(quote.pckCertChain)).toHaveLength(3);
+  });
+
+  it('rejects a truncated quote', () => {
+    const data = buildQuote();
+    expect(() => new Quote(data.slice(0, 600))).toThrow('smaller than the minimum quote size');
+    expect(() => new Quote(data.slice(0, data.length - 10))).toThrow('exceeds remaining quote size');
+  });
+
+  it('rejects unsupported certification data', () => {
+    expect(() => new Quote(buildQuote({ certDataType: 5 }))).toThrow('certification data type 5');
+  });
+});
+
+describe('Intel Certificate Chain', () => {
+  it('parses and self-verifies the bundled Intel SGX Root CA', async () => {
+    const root = X509Certificate.parse(INTEL_SGX_ROOT_CA);
+    expect(root.subjectDN.get('CN')).toBe('Intel SGX Root CA');
+    expect(root.validForDate(new Date())).toBe(true);
+    expect(await root.verify()).toBe(true);
+  });
+
+  it('rejects a chain that does not end in the Intel root', async () => {
+    const ark = X509Certificate.parse(ARK_CERT);
+    await expect(verifyIntelChain([ark, ark], 'PCK')).rejects.toThrow('not the Intel SGX Root CA');
+  });
+});
+
+describe('Signed Collateral Bodies', () => {
+  it('extracts the signed member exactly as served', () => {
+    const tcbInfo = '{ "version":3, "fmspc": "00806F050000", "score": 1.50, "id": "a\\"}," }';
+    const body = `{"tcbInfo": ${tcbInfo} ,\n"signature":"ab12"}`;
+    expect(rawJsonMember(body, 'tcbInfo')).toBe(tcbInfo);
+    expect(rawJsonMember(body, 'signature')).toBe('"ab12"');
+  });
+
+  it('ignores nested members and reports missing ones', () => {
+    const body = '{"outer":{"tcbInfo":1},"list":["tcbInfo"]}';
+    expect(rawJsonMember(body, 'tcbInfo')).toBeUndefined();
+    expect(rawJsonMember(body, 'list')).toBe('["tcbInfo"]');
+  });
+});
+
+describe('TDX Quote Validation', () => {
+  const collateral = () => ({ tcbInfo: tcbInfo(), qeIdentity: qeIdentity() });
+
+  it('returns the status of the first satisfied TCB level', () => {
+    const quote = new Quote(buildQuote({ teeTcbSvn: [4] }));
+    expect(validateQuote(quote, pck, collateral(), defaultTdxValidationOptions)).toBe('UpToDate');
+  });
+
+  it('rejects TCB statuses outside the accepted list', () => {
+    const quote = new Quote(buildQuote({ teeTcbSvn: [3] }));
+    expect(() => validateQuote(quote, pck, collateral(), defaultTdxValidationOptions))
+      .toThrow('TCB status "OutOfDate" is not accepted');
+
+    const lenient = { ...defaultTdxValidationOptions, acceptedTcbStatuses: [...defaultTdxValidationOptions.acceptedTcbStatuses, 'OutOfDate' as const] };
+    expect(validateQuote(quote, pck, collateral(), lenient)).toBe('OutOfDate');
+  });
+
+  it('rejects debug TDs', () => {
+    const quote = new Quote(buildQuote({ tdAttributes: SEPT_VE_DISABLE | 1n }));
+    expect(() => validateQuote(quote, pck, collateral(), defaultTdxValidationOptions)).toThrow('TD debug mode is enabled');
+  });
+
+  it('rejects TDs without SEPT_VE_DISABLE', () => {
+    const quote = new Quote(buildQuote({ tdAttributes: 0n }));
+    expect(() => validateQuote(quote, pck, collateral(), defaultTdxValidationOptions)).toThrow('SEPT_VE_DISABLE');
+  });
+
+  it('rejects collateral for a different platform', () => {
+    const quote = new Quote(buildQuote({ teeTcbSvn: [4] }));
+    const other = { ...pck, fmspc: hexToBytes('00906ed50000') };
+    expect(() => validateQuote(quote, other, collateral(), defaultTdxValidationOptions)).toThrow('FMSPC');
+  });
+
+  it('rejects quoting enclaves below the QE identity TCB', () => {
+    const quote = new Quote(buildQuote({ teeTcbSvn: [4], qeIsvSvn: 3 }));
+    expect(() => validateQuote(quote, pck, collateral(), defaultTdxValidationOptions)).toThrow('QE ISVSVN 3');
+  });
+});
+
+describe('TDX Attestation Dispatch', () => {
+  it('requires collateral for TDX documents', async () => {
+    await expect(verifyAttestation({ format: PredicateType.TdxGuestV2, body: '' }, ''))
+      .rejects.toThrow('Missing TDX collateral');
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import { CertificateChain } from '../src/sev/cert-chain.js';
+import { Report } from '../src/sev/report.js';
+import { validateReport, defaultValidationOptions } from '../src/sev/validation.js';
+import { amdPublicKeyDigest, tcbFromInt } from '../src/sev/utils.js';
+import { base64ToBytes, decompressGzip } from '../src/attestation.js';
+import { AttestationError, ConfigurationError } from '../src/errors.js';
+import bundleFixture from './fixtures/attestation-bundle.json';
+
+async function loadFixture(): Promise<{ report: Report; chain: CertificateChain }> {
+  const report = new Report(await decompressGzip(base64ToBytes(bundleFixture.enclaveAttestationReport.body)));
+  const chain = await CertificateChain.fromReport(report, base64ToBytes(bundleFixture.vcek));
+  return { report, chain };
+}
+
+function base64UrlToBytes(s: string): Uint8Array {
+  return base64ToBytes(s.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(s.length / 4) * 4, '='));
+}
+
+describe('AMD Public Key Digest', () => {
+  it('hashes P-384 keys in the AMD public key format', async () => {
+    const { publicKey } = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-384' }, true, ['sign', 'verify']);
+    const spki = new Uint8Array(await crypto.subtle.exportKey('spki', publicKey));
+    const jwk = await crypto.subtle.exportKey('jwk', publicKey);
+
+    const expected = new Uint8Array(0x404);
+    expected[0] = 2;
+    expected.set(base64UrlToBytes(jwk.x!).reverse(), 4);
+    expected.set(base64UrlToBytes(jwk.y!).reverse(), 4 + 72);
+
+    expect(await amdPublicKeyDigest(spki))
+      .toEqual(new Uint8Array(await crypto.subtle.digest('SHA-384', expected)));
+  });
+
+  it('rejects keys on other curves', async () => {
+    const { publicKey } = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+    const spki = new Uint8Array(await crypto.subtle.exportKey('spki', publicKey));
+    await expect(amdPublicKeyDigest(spki)).rejects.toThrow('P-384');
+  });
+});
+
+describe('ID Block and Author Key Validation', () => {
+  const trustedDigest = new Uint8Array(48).fill(0x5a);
+
+  it('accepts a report whose ID key matches a trusted hash', async () => {
+    const { report, chain } = await loadFixture();
+    report.idKeyDigest = trustedDigest.slice();
+    await expect(validateReport(report, chain, {
+      ...defaultValidationOptions,
+      requireIdBlock: true,
+      trustedIdKeyHashes: [trustedDigest],
+    })).resolves.toEqual({ provisionalFirmware: false });
+  });
+
+  it('rejects a report whose ID key is not trusted', async () => {
+    const { report, chain } = await loadFixture();
+    report.idKeyDigest = new Uint8Array(48).fill(0x11);
+    await expect(validateReport(report, chain, {
+      ...defaultValidationOptions,
+      requireIdBlock: true,
+      trustedIdKeyHashes: [trustedDigest],
+    })).rejects.toThrow('does not match any trusted ID key');
+  });
+
+  it('lets a trusted author key vouch for the ID key', async () => {
+    const { report, chain } = await loadFixture();
+    report.signerInfoParsed = { ...report.signerInfoParsed, authorKeyEn: true };
+    report.authorKeyDigest = trustedDigest.slice();
+    report.idKeyDigest = new Uint8Array(48).fill(0x11);
+    await expect(validateReport(report, chain, {
+      ...defaultValidationOptions,
+      requireAuthorKey: true,
+      requireIdBlock: true,
+      trustedAuthorKeyHashes: [trustedDigest],
+    })).resolves.toEqual({ provisionalFirmware: false });
+  });
+
+  it('requires AUTHOR_KEY_EN when an author key is required', async () => {
+    const { report, chain } = await loadFixture();
+    report.signerInfoParsed = { ...report.signerInfoParsed, authorKeyEn: false };
+    await expect(validateReport(report, chain, {
+      ...defaultValidationOptions,
+      requireAuthorKey: true,
+      trustedAuthorKeyHashes: [trustedDigest],
+    })).rejects.toThrow(AttestationError);
+  });
+
+  it('rejects a non-zero author key digest without AUTHOR_KEY_EN', async () => {
+    const { report, chain } = await loadFixture();
+    report.signerInfoParsed = { ...report.signerInfoParsed, authorKeyEn: false };
+    report.authorKeyDigest = trustedDigest.slice();
+    await expect(validateReport(report, chain, defaultValidationOptions))
+      .rejects.toThrow('AUTHOR_KEY_EN is not set');
+  });
+
+  it('rejects requirements without trusted keys', async () => {
+    const { report, chain } = await loadFixture();
+    await expect(validateReport(report, chain, { ...defaultValidationOptions, requireIdBlock: true }))
+      .rejects.toThrow(ConfigurationError);
+  });
+});
+
+describe('Provisional Firmware Validation', () => {
+  it('reports committed firmware as non-provisional', async () => {
+    const { report, chain } = await loadFixture();
+    await expect(validateReport(report, chain, defaultValidationOptions))
+      .resolves.toEqual({ provisionalFirmware: false });
+  });
+
+  it('rejects newer current firmware unless provisional firmware is permitted', async () => {
+    const { report, chain } = await loadFixture();
+    report.currentBuild = report.committedBuild + 1;
+
+    await expect(validateReport(report, chain, defaultValidationOptions))
+      .rejects.toThrow('Firmware version mismatch');
+    await expect(validateReport(report, chain, { ...defaultValidationOptions, permitProvisionalFirmware: true }))
+      .resolves.toEqual({ provisionalFirmware: true });
+  });
+
+  it('rejects current firmware older than committed firmware', async () => {
+    const { report, chain } = await loadFixture();
+    report.committedBuild = report.currentBuild + 1;
+
+    await expect(validateReport(report, chain, { ...defaultValidationOptions, permitProvisionalFirmware: true }))
+      .rejects.toThrow('older than committed firmware');
+  });
+
+  it('applies separate minimums to the committed and current TCB', async () => {
+    const { report, chain } = await loadFixture();
+    const unreachable = { blSpl: 0xff, teeSpl: 0xff, snpSpl: 0xff, ucodeSpl: 0xff };
+
+    await expect(validateReport(report, chain, { ...defaultValidationOptions, minimumCurrentTcb: unreachable }))
+      .rejects.toThrow('Current TCB');
+    await expect(validateReport(report, chain, { ...defaultValidationOptions, minimumCommittedTcb: unreachable }))
+      .rejects.toThrow('Committed TCB');
+  });
+
+  it('holds the reported TCB to a relaxed committed minimum', async () => {
+    const { report, chain } = await loadFixture();
+    // Current firmware is one microcode SPL ahead of the committed and reported TCB
+    report.currentTcb = report.committedTcb + (1n << 56n);
+    const options = {
+      ...defaultValidationOptions,
+      permitProvisionalFirmware: true,
+      minimumTcb: tcbFromInt(report.currentTcb),
+    };
+
+    await expect(validateReport(report, chain, options)).rejects.toThrow('Committed TCB');
+    await expect(validateReport(report, chain, { ...options, minimumCommittedTcb: tcbFromInt(report.committedTcb) }))
+      .resolves.toEqual({ provisionalFirmware: true });
+    await expect(validateReport(report, chain, {
+      ...options,
+      minimumCommittedTcb: tcbFromInt(report.committedTcb),
+      minimumReportedTcb: tcbFromInt(report.currentTcb),
+    })).rejects.toThrow('Reported TCB');
+  });
+});
@@ -2,7 +2,8 @@ import { describe, it, expect } from 'vitest';
 import { Report } from '../src/sev/report.js';
 import { bytesToHex } from '../src/sev/utils.js';
 import { Verifier } from '../src/client.js';
-import { compareMeasurements, measurementFingerprint } from '../src/types.js';
+import { compareMeasurements, measurementFingerprint, PredicateType } from '../src/types.js';
+import { releaseMeasurement } from '../src/sigstore.js';
 import { AttestationError } from '../src/errors.js';
 
 describe('Browser Environment Verification', () => {
@@ -111,6 +112,48 @@ describe('Measurement Comparison in Browser', () => {
     expect(() => compareMeasurements(a, b)).toThrow(AttestationError);
     expect(() => compareMeasurements(a, b)).toThrow(/mismatch/);
   });
+
+  describe('multiplatform release against a TDX enclave', () => {
+    const rtmr = (c: string) => c.repeat(96);
+    const release = { type: PredicateType.SnpTdxMultiplatformV1, registers: ['abc123', rtmr('1'), rtmr('2')] };
+    const enclave = (rtmr1 = rtmr('1'), rtmr2 = rtmr('2'), rtmr3 = rtmr('0')) => ({
+      type: PredicateType.TdxGuestV2,
+      registers: [rtmr('a'), rtmr('b'), rtmr1, rtmr2, rtmr3],
+    });
+
+    it('compares RTMR1 and RTMR2 in either order', () => {
+      expect(() => compareMeasurements(release, enclave())).not.toThrow();
+      expect(() => compareMeasurements(enclave(), release)).not.toThrow();
+    });
+
+    it('reports the mismatching register', () => {
+      expect(() => compareMeasurements(release, enclave(rtmr('f')))).toThrow(/RTMR1.*mismatch|mismatch.*RTMR1/);
+      expect(() => compareMeasurements(release, enclave(undefined, rtmr('f')))).toThrow(/RTMR2/);
+    });
+
+    it('rejects a non-zero RTMR3', () => {
+      expect(() => compareMeasurements(release, enclave(undefined, undefined, rtmr('3')))).toThrow(/RTMR3/);
+    });
+
+    it('reads a release predicate without TDX registers as SNP-only', async () => {
+      const snpOnly = releaseMeasurement(PredicateType.SnpTdxMultiplatformV1, { snp_measurement: 'abc123' });
+      expect(snpOnly.registers).toEqual(['abc123']);
+      expect(await measurementFingerprint(snpOnly)).toBe('abc123');
+      expect(() => compareMeasurements(snpOnly, { type: PredicateType.SevGuestV2, registers: ['abc123'] })).not.toThrow();
+    });
+
+    it('reads TDX registers from a release predicate and rejects partial ones', () => {
+      const predicate = { snp_measurement: 'abc123', tdx_measurement: { rtmr1: rtmr('1'), rtmr2: rtmr('2') } };
+      expect(releaseMeasurement(PredicateType.SnpTdxMultiplatformV1, predicate)).toEqual(release);
+      expect(() => releaseMeasurement(PredicateType.SnpTdxMultiplatformV1, { snp_measurement: 'abc123', tdx_measurement: { rtmr1: rtmr('1') } }))
+        .toThrow(/tdx_measurement\.rtmr2/);
+    });
+
+    it('rejects a release without TDX registers', () => {
+      const snpOnly = { type: PredicateType.SnpTdxMultiplatformV1, registers: ['abc123'] };
+      expect(() => compareMeasurements(snpOnly, enclave())).toThrow(/Missing measurement registers/);
+    });
+  });
 });
 
 describe('Measurement Fingerprint in Browser', () => {